@@ -2,28 +2,49 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Star, Crown, Bookmark, BookmarkCheck } from "lucide-react";
+import { Star, Crown, Bookmark, BookmarkCheck, Plus, Check } from "lucide-react";
 import { useState, useEffect, useRef, type MouseEvent } from "react";
-import type { Article } from "@shared/schema";
+import type { Article, ArticleWithStory, UserPreferences } from "@shared/schema";
+import { GENERAL_TOPIC, TOPIC_TAXONOMY, getTopic, rootTopicId, topicMatches } from "@shared/topics";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { FeedbackButtons } from "@/components/FeedbackButtons";
+import { UpdatedBadge } from "@/components/UpdatedBadge";
+import { StoryCoverage } from "@/components/StoryCoverage";
+
+function articleTopics(article: Article): string[] {
+  return article.primaryTopic ? [article.primaryTopic, ...article.secondaryTopics] : [];
+}
 
 export function CuratedFeedSection() {
   const ARTICLES_PER_PAGE = 20;
   const [visibleCount, setVisibleCount] = useState(ARTICLES_PER_PAGE);
+  const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const { toast } = useToast();
   const { isAuthenticated } = useAuth();
   
-  const { data: preferences } = useQuery({
+  const { data: preferences } = useQuery<UserPreferences>({
     queryKey: ['/api/preferences'],
   });
 
-  const { data: articles = [], isLoading } = useQuery<Article[]>({
+  // One article per story; the rest of a story's coverage expands under its card
+  const { data: allArticles = [], isLoading } = useQuery<ArticleWithStory[]>({
     queryKey: ['/api/articles/filtered'],
   });
 
+  // Offer only topics that some article in the feed has, in taxonomy order
+  const feedTopics = new Set(allArticles.flatMap(articleTopics));
+  const rootTopics = TOPIC_TAXONOMY.filter((root) =>
+    Array.from(feedTopics).some((topic) => rootTopicId(topic) === root.id)
+  );
+  const selectedRoot = selectedTopic ? getTopic(rootTopicId(selectedTopic)) : undefined;
+  const subtopics = (selectedRoot?.children ?? []).filter((child) => feedTopics.has(child.id));
+
+  const articles = selectedTopic
+    ? allArticles.filter((article) => articleTopics(article).some((topic) => topicMatches(topic, selectedTopic)))
+    : allArticles;
+
   const { data: savedArticlesData = [] } = useQuery<Article[]>({
     queryKey: ['/api/saved-articles'],
     enabled: isAuthenticated,
@@ -69,6 +90,39 @@ export function CuratedFeedSection() {
     },
   });
 
+  // Followed topics also steer which stories NewsAPI searches for
+  const followedTopics = preferences?.followedTopics ?? [];
+  const followingSelected = selectedTopic !== null && followedTopics.includes(selectedTopic);
+
+  const followTopicMutation = useMutation({
+    mutationFn: (topics: string[]) =>
+      apiRequest('PUT', '/api/preferences', { followedTopics: topics }),
+    onSuccess: (_res, topics) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/preferences'] });
+      const label = getTopic(selectedTopic!)?.label;
+      toast({
+        title: topics.includes(selectedTopic!) ? `Following ${label}` : `Unfollowed ${label}`,
+        description: "New stories are searched for based on the topics you follow.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update followed topics. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFollowTopic = () => {
+    if (!selectedTopic) return;
+    followTopicMutation.mutate(
+      followingSelected
+        ? followedTopics.filter((topic) => topic !== selectedTopic)
+        : [...followedTopics, selectedTopic]
+    );
+  };
+
   const handleSave = (e: MouseEvent, articleId: string) => {
     e.stopPropagation();
     if (savedArticleIds.has(articleId)) {
@@ -78,10 +132,10 @@ export function CuratedFeedSection() {
     }
   };
 
-  // Reset pagination when preferences change (filters updated)
+  // Reset pagination when preferences or the topic change (filters updated)
   useEffect(() => {
     setVisibleCount(ARTICLES_PER_PAGE);
-  }, [preferences]);
+  }, [preferences, selectedTopic]);
 
   const handleLoadMore = () => {
     setVisibleCount(prevCount => prevCount + ARTICLES_PER_PAGE);
@@ -133,6 +187,72 @@ export function CuratedFeedSection() {
       </div>
       
       <div className="p-6">
+        {rootTopics.length > 0 && (
+          <div className="mb-6 space-y-2" data-testid="topic-filter">
+            <div className="flex flex-wrap gap-2">
+              <Badge
+                variant="secondary"
+                className={
+                  selectedTopic === null
+                    ? "bg-secondary text-white cursor-pointer hover:bg-emerald-700"
+                    : "bg-slate-100 text-slate-700 cursor-pointer hover:bg-slate-200"
+                }
+                onClick={() => setSelectedTopic(null)}
+                data-testid="badge-topic-all"
+              >
+                All topics
+              </Badge>
+              {rootTopics.map((root) => (
+                <Badge
+                  key={root.id}
+                  variant="secondary"
+                  className={
+                    selectedRoot?.id === root.id
+                      ? "bg-secondary text-white cursor-pointer hover:bg-emerald-700"
+                      : "bg-slate-100 text-slate-700 cursor-pointer hover:bg-slate-200"
+                  }
+                  onClick={() => setSelectedTopic(root.id)}
+                  data-testid={`badge-topic-${root.id}`}
+                >
+                  {root.label}
+                </Badge>
+              ))}
+              {isAuthenticated && selectedTopic && selectedTopic !== GENERAL_TOPIC && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs ml-auto"
+                  onClick={handleFollowTopic}
+                  disabled={followTopicMutation.isPending}
+                  data-testid="button-follow-topic"
+                >
+                  {followingSelected ? <Check className="h-3 w-3 mr-1" /> : <Plus className="h-3 w-3 mr-1" />}
+                  {followingSelected ? "Following" : `Follow ${getTopic(selectedTopic)?.label}`}
+                </Button>
+              )}
+            </div>
+            {subtopics.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {subtopics.map((subtopic) => (
+                  <Badge
+                    key={subtopic.id}
+                    variant="outline"
+                    className={
+                      selectedTopic === subtopic.id
+                        ? "border-secondary text-secondary cursor-pointer"
+                        : "text-slate-600 cursor-pointer hover:bg-slate-50"
+                    }
+                    onClick={() => setSelectedTopic(selectedTopic === subtopic.id ? selectedRoot!.id : subtopic.id)}
+                    data-testid={`badge-topic-${subtopic.id.replace("/", "-")}`}
+                  >
+                    {subtopic.label}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Featured Article */}
           {featuredArticle && (
@@ -160,7 +280,9 @@ export function CuratedFeedSection() {
               <div className="flex items-center justify-between text-xs text-slate-500">
                 <div className="flex items-center space-x-3">
                   <span>{featuredArticle.source}</span>
+                  {featuredArticle.author && <span>By {featuredArticle.author}</span>}
                   <span>{featuredArticle.readTime} min read</span>
+                  <UpdatedBadge article={featuredArticle} />
                 </div>
                 <div className="flex items-center gap-2">
                   <FeedbackButtons articleId={featuredArticle.id} size="sm" />
@@ -185,6 +307,9 @@ export function CuratedFeedSection() {
                   </Button>
                 </div>
               </div>
+              {featuredArticle.story && (
+                <StoryCoverage story={featuredArticle.story} leadArticleId={featuredArticle.id} />
+              )}
             </article>
           )}
 
@@ -213,7 +338,10 @@ export function CuratedFeedSection() {
                     {article.summary}
                   </p>
                   <div className="flex items-center justify-between text-xs text-slate-500">
-                    <span>{article.source}</span>
+                    <div className="flex items-center gap-2">
+                      <span>{article.source}</span>
+                      <UpdatedBadge article={article} />
+                    </div>
                     <div className="flex items-center gap-1">
                       <FeedbackButtons articleId={article.id} size="sm" />
                       <Button
@@ -231,6 +359,7 @@ export function CuratedFeedSection() {
                       </Button>
                     </div>
                   </div>
+                  {article.story && <StoryCoverage story={article.story} leadArticleId={article.id} />}
                 </div>
               </div>
             </article>
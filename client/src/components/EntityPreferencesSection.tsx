@@ -0,0 +1,183 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AtSign, Building2, EyeOff, MapPin, Package, Star, TrendingUp, User, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { EntityAction, EntityType, TrendingEntity, UserEntityPreference } from "@shared/schema";
+
+const TYPE_ICONS: Record<EntityType, typeof User> = {
+  person: User,
+  organization: Building2,
+  place: MapPin,
+  product: Package,
+};
+
+export function EntityPreferencesSection() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const { data: trending = [], isLoading } = useQuery<TrendingEntity[]>({
+    queryKey: ['/api/entities/trending'],
+  });
+
+  const { data: preferences = [] } = useQuery<UserEntityPreference[]>({
+    queryKey: ['/api/entities/preferences'],
+    enabled: isAuthenticated,
+  });
+
+  const invalidateEntityQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/entities/preferences'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/filter-preview'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/articles/filtered'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/articles/top-five'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/articles/curated'] });
+  };
+
+  const setPreferenceMutation = useMutation({
+    mutationFn: (data: { type: EntityType; name: string; action: EntityAction }) =>
+      apiRequest('PUT', '/api/entities/preferences', data),
+    onSuccess: (_res, { name, action }) => {
+      invalidateEntityQueries();
+      toast({
+        title: action === "follow" ? `Following ${name}` : `Muted ${name}`,
+        description: action === "follow"
+          ? "Articles mentioning it will rank higher in your feed."
+          : "Articles mentioning it will be hidden from your feed.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Could not save", description: "Sign in to follow or mute.", variant: "destructive" });
+    },
+  });
+
+  const deletePreferenceMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/entities/preferences/${id}`),
+    onSuccess: invalidateEntityQueries,
+  });
+
+  const actionFor = (entity: TrendingEntity) =>
+    preferences.find((preference) => preference.type === entity.type && preference.key === entity.key)?.action;
+  const followed = preferences.filter((preference) => preference.action === "follow");
+  const muted = preferences.filter((preference) => preference.action === "mute");
+
+  const renderPreferences = (list: UserEntityPreference[], className: string, emptyText: string) =>
+    list.length === 0 ? (
+      <p className="text-xs text-slate-500">{emptyText}</p>
+    ) : (
+      <div className="flex flex-wrap gap-2">
+        {list.map((preference) => {
+          const Icon = TYPE_ICONS[preference.type];
+          return (
+            <Badge
+              key={preference.id}
+              variant="secondary"
+              className={`${className} cursor-pointer`}
+              onClick={() => deletePreferenceMutation.mutate(preference.id)}
+              data-testid={`entity-preference-${preference.id}`}
+            >
+              <Icon className="mr-1 h-3 w-3" />
+              {preference.name}
+              <X className="ml-1 h-3 w-3" />
+            </Badge>
+          );
+        })}
+      </div>
+    );
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-indigo-500 to-sky-500 px-6 py-4">
+        <div className="flex items-center space-x-3">
+          <AtSign className="text-white text-lg" />
+          <h2 className="text-xl font-bold text-white">People, Companies & Places</h2>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {isAuthenticated && (
+          <div className="grid md:grid-cols-2 gap-4">
+            <Card className="bg-green-50 border-green-200 p-4">
+              <h4 className="text-sm font-medium text-green-800 mb-3 flex items-center">
+                <Star className="mr-2 h-4 w-4" />
+                Following
+              </h4>
+              {renderPreferences(followed, "bg-green-100 text-green-800 hover:bg-green-200", "Follow someone below to see more about them.")}
+            </Card>
+            <Card className="bg-red-50 border-red-200 p-4">
+              <h4 className="text-sm font-medium text-red-800 mb-3 flex items-center">
+                <EyeOff className="mr-2 h-4 w-4" />
+                Muted
+              </h4>
+              {renderPreferences(muted, "bg-red-100 text-red-800 hover:bg-red-200", "Mute someone below to stop seeing articles about them.")}
+            </Card>
+          </div>
+        )}
+
+        <Card className="bg-indigo-50 border-indigo-200 p-4">
+          <h4 className="text-sm font-medium text-indigo-800 mb-3 flex items-center">
+            <TrendingUp className="mr-2 h-4 w-4" />
+            In the News This Week
+          </h4>
+          {isLoading ? (
+            <div className="space-y-2">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="animate-pulse h-4 bg-indigo-100 rounded w-1/2"></div>
+              ))}
+            </div>
+          ) : trending.length === 0 ? (
+            <p className="text-xs text-slate-500">Nothing yet; names appear here as articles come in.</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {trending.map((entity) => {
+                const Icon = TYPE_ICONS[entity.type];
+                const action = actionFor(entity);
+                return (
+                  <div
+                    key={`${entity.type}:${entity.key}`}
+                    className="flex items-center justify-between"
+                    data-testid={`trending-entity-${entity.type}-${entity.key}`}
+                  >
+                    <div className="flex items-center text-sm text-slate-800 min-w-0">
+                      <Icon className="mr-2 h-4 w-4 text-indigo-500 shrink-0" />
+                      <span className="truncate">{entity.name}</span>
+                      <span className="ml-2 text-xs text-slate-500 shrink-0">
+                        {entity.articleCount} articles · {entity.sourceCount} sources
+                      </span>
+                    </div>
+                    {isAuthenticated && (
+                      <div className="flex gap-1 shrink-0">
+                        <Button
+                          size="sm"
+                          variant={action === "follow" ? "default" : "outline"}
+                          className="h-6 px-2 text-xs"
+                          disabled={action === "follow" || setPreferenceMutation.isPending}
+                          onClick={() => setPreferenceMutation.mutate({ type: entity.type, name: entity.name, action: "follow" })}
+                          data-testid={`button-follow-${entity.type}-${entity.key}`}
+                        >
+                          Follow
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={action === "mute" ? "destructive" : "outline"}
+                          className="h-6 px-2 text-xs"
+                          disabled={action === "mute" || setPreferenceMutation.isPending}
+                          onClick={() => setPreferenceMutation.mutate({ type: entity.type, name: entity.name, action: "mute" })}
+                          data-testid={`button-mute-${entity.type}-${entity.key}`}
+                        >
+                          Mute
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,320 @@
+import { useState, useRef, type ChangeEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Rss, Plus, Trash2, Upload, Download, AlertTriangle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { NewsSourceWithSubscription, OpmlImportResult } from "@shared/schema";
+
+export function NewsSourcesSection() {
+  const [newSourceUrl, setNewSourceUrl] = useState("");
+  const [newSourceName, setNewSourceName] = useState("");
+  const [newSourceCategory, setNewSourceCategory] = useState("");
+  const [importResult, setImportResult] = useState<OpmlImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const { data: sources = [], isLoading } = useQuery<NewsSourceWithSubscription[]>({
+    queryKey: ['/api/sources'],
+  });
+
+  const invalidateSourceQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/sources'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/filter-preview'] });
+    // Invalidate all article queries so UI reflects subscription changes immediately
+    queryClient.invalidateQueries({ queryKey: ['/api/articles/filtered'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/articles/top-five'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/articles/curated'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/saved-articles'] });
+  };
+
+  const addSourceMutation = useMutation({
+    mutationFn: (data: { url: string; name: string; category: string }) =>
+      apiRequest('POST', '/api/sources', data),
+    onSuccess: () => {
+      invalidateSourceQueries();
+      toast({ title: "Source added", description: "New articles will appear after the next refresh." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add source",
+        description: error.message.startsWith("409")
+          ? "That feed is already in the source list."
+          : "Check the feed URL and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSubscriptionMutation = useMutation({
+    mutationFn: ({ id, subscribed }: { id: string; subscribed: boolean }) =>
+      apiRequest('POST', `/api/sources/${id}/${subscribed ? 'subscribe' : 'unsubscribe'}`),
+    onSuccess: invalidateSourceQueries,
+  });
+
+  const deleteSourceMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/sources/${id}`),
+    onSuccess: () => {
+      invalidateSourceQueries();
+      toast({ title: "Source removed" });
+    },
+  });
+
+  const importOpmlMutation = useMutation({
+    mutationFn: async (opml: string) => {
+      const res = await apiRequest('POST', '/api/sources/opml', { opml });
+      return (await res.json()) as OpmlImportResult;
+    },
+    onSuccess: (result) => {
+      invalidateSourceQueries();
+      setImportResult(result);
+      toast({
+        title: "OPML imported",
+        description:
+          `${result.created.length} added, ${result.duplicates.length} duplicates, ${result.invalid.length} invalid` +
+          (result.skipped > 0 ? `, ${result.skipped} over the import limit.` : "."),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Import failed",
+        description: "That file doesn't look like a valid OPML export.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      importOpmlMutation.mutate(await file.text());
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const res = await apiRequest('GET', '/api/sources/opml');
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'brightbuzz-subscriptions.opml';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({
+        title: "Export failed",
+        description: "Could not download your subscriptions. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const importIssues = importResult ? [...importResult.invalid, ...importResult.duplicates] : [];
+
+  const handleAddSource = () => {
+    if (newSourceUrl.trim() && newSourceName.trim() && newSourceCategory.trim()) {
+      addSourceMutation.mutate({
+        url: newSourceUrl.trim(),
+        name: newSourceName.trim(),
+        category: newSourceCategory.trim(),
+      });
+      setNewSourceUrl("");
+      setNewSourceName("");
+      setNewSourceCategory("");
+    }
+  };
+
+  // Group by category so the ~100 global feeds stay scannable
+  const sourcesByCategory = sources.reduce<Record<string, NewsSourceWithSubscription[]>>((groups, source) => {
+    (groups[source.category] ||= []).push(source);
+    return groups;
+  }, {});
+  const subscribedCount = sources.filter((source) => source.subscribed).length;
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-gradient-to-r from-orange-500 to-rose-500 px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Rss className="text-white text-lg" />
+            <h2 className="text-xl font-bold text-white">News Sources</h2>
+            <Badge variant="secondary" className="bg-white/20 text-white">
+              {subscribedCount} of {sources.length} followed
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".opml,.xml,text/xml,text/x-opml"
+              className="hidden"
+              onChange={handleImportFile}
+              data-testid="input-opml-file"
+            />
+            <Button
+              size="sm"
+              variant="secondary"
+              className="bg-white/20 text-white hover:bg-white/30"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importOpmlMutation.isPending}
+              data-testid="button-import-opml"
+            >
+              <Upload className="h-3 w-3 mr-1" />
+              Import OPML
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="bg-white/20 text-white hover:bg-white/30"
+              onClick={handleExport}
+              data-testid="button-export-opml"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              Export OPML
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Add Source */}
+        <Card className="bg-orange-50 border-orange-200 p-4">
+          <h4 className="text-sm font-medium text-orange-800 mb-3 flex items-center">
+            <Plus className="mr-2 h-4 w-4" />
+            Add a Feed
+          </h4>
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input
+              placeholder="Feed URL (RSS or Atom)"
+              value={newSourceUrl}
+              onChange={(e) => setNewSourceUrl(e.target.value)}
+              className="text-xs md:flex-[2]"
+              data-testid="input-source-url"
+            />
+            <Input
+              placeholder="Name"
+              value={newSourceName}
+              onChange={(e) => setNewSourceName(e.target.value)}
+              className="text-xs md:flex-1"
+              data-testid="input-source-name"
+            />
+            <Input
+              placeholder="Category"
+              value={newSourceCategory}
+              onChange={(e) => setNewSourceCategory(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleAddSource()}
+              className="text-xs md:flex-1"
+              data-testid="input-source-category"
+            />
+            <Button
+              size="sm"
+              className="bg-orange-600 hover:bg-orange-700"
+              onClick={handleAddSource}
+              disabled={!newSourceUrl.trim() || !newSourceName.trim() || !newSourceCategory.trim()}
+              data-testid="button-add-source"
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </div>
+        </Card>
+
+        {/* OPML Import Report */}
+        {(importIssues.length > 0 || (importResult?.skipped ?? 0) > 0) && (
+          <Card className="bg-amber-50 border-amber-200 p-4" data-testid="opml-import-report">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-medium text-amber-800 flex items-center">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                {importIssues.length + (importResult?.skipped ?? 0)} feeds from your OPML file were not added
+              </h4>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-amber-800"
+                onClick={() => setImportResult(null)}
+                data-testid="button-dismiss-opml-report"
+              >
+                Dismiss
+              </Button>
+            </div>
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {importIssues.map((issue, index) => (
+                <div key={index} className="text-xs text-amber-900">
+                  <span className="font-medium">{issue.name || issue.url}</span>
+                  {issue.name && <span className="text-amber-700"> ({issue.url})</span>}
+                  <span className="text-amber-700"> — {issue.reason}</span>
+                </div>
+              ))}
+              {importResult && importResult.skipped > 0 && (
+                <div className="text-xs text-amber-900">
+                  {importResult.skipped} more feeds were skipped: only the first 200 in a file are imported at once.
+                </div>
+              )}
+            </div>
+          </Card>
+        )}
+
+        {/* Source List */}
+        {isLoading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="animate-pulse h-4 bg-slate-200 rounded w-1/2"></div>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {Object.entries(sourcesByCategory).map(([category, categorySources]) => (
+              <Card key={category} className="p-4">
+                <h4 className="text-sm font-semibold text-slate-900 mb-3">{category}</h4>
+                <div className="space-y-2">
+                  {categorySources.map((source) => (
+                    <div
+                      key={source.id}
+                      className="flex items-center justify-between text-xs"
+                      data-testid={`source-${source.id}`}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className={`truncate ${source.subscribed ? 'text-slate-700' : 'text-slate-400'}`}>
+                          {source.name}
+                        </span>
+                        {source.isOwner && (
+                          <Badge variant="secondary" className="bg-orange-100 text-orange-800">
+                            Yours
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {source.isOwner && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 hover:bg-slate-100"
+                            onClick={() => deleteSourceMutation.mutate(source.id)}
+                            data-testid={`button-delete-source-${source.id}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Switch
+                          checked={source.subscribed}
+                          onCheckedChange={(subscribed) =>
+                            toggleSubscriptionMutation.mutate({ id: source.id, subscribed })
+                          }
+                          data-testid={`switch-source-${source.id}`}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState, type MouseEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, Newspaper } from "lucide-react";
+import type { StorySummary, StoryTimeline } from "@shared/schema";
+
+interface StoryCoverageProps {
+  story: StorySummary;
+  leadArticleId: string; // the card's own article, left out of the list
+}
+
+// "Also covered by N sources" under a feed card, expanding to the story's other articles, oldest first
+export function StoryCoverage({ story, leadArticleId }: StoryCoverageProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const { data: timeline, isLoading } = useQuery<StoryTimeline>({
+    queryKey: ['/api/stories', story.id],
+    enabled: expanded,
+  });
+
+  if (story.articleCount < 2) return null;
+
+  const otherSources = story.sourceCount - 1;
+  const label = otherSources > 0
+    ? `Also covered by ${otherSources} ${otherSources === 1 ? "source" : "sources"}`
+    : `${story.articleCount - 1} more ${story.articleCount === 2 ? "article" : "articles"} on this story`;
+
+  const handleToggle = (e: MouseEvent) => {
+    e.stopPropagation();
+    setExpanded(!expanded);
+  };
+
+  const coverage = (timeline?.articles ?? []).filter((article) => article.id !== leadArticleId);
+
+  return (
+    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-slate-500 hover:text-primary"
+        onClick={handleToggle}
+        data-testid={`button-story-coverage-${story.id}`}
+      >
+        <Newspaper className="h-3 w-3 mr-1" />
+        {label}
+        {expanded ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+      </Button>
+
+      {expanded && (
+        <div className="mt-2 ml-2 pl-3 border-l-2 border-slate-200 space-y-2" data-testid={`story-timeline-${story.id}`}>
+          {isLoading ? (
+            <div className="animate-pulse h-3 bg-slate-200 rounded w-2/3"></div>
+          ) : (
+            <>
+              {coverage.map((article) => (
+                <a
+                  key={article.id}
+                  href={article.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-xs group"
+                  data-testid={`link-story-article-${article.id}`}
+                >
+                  <span className="text-slate-500">
+                    {new Date(article.publishedAt).toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+                    {" · "}
+                    {article.source}
+                  </span>
+                  <span className="block text-slate-800 group-hover:text-primary line-clamp-1">{article.title}</span>
+                </a>
+              ))}
+              {timeline && timeline.hiddenCount > 0 && (
+                <p className="text-xs text-slate-400">
+                  {timeline.hiddenCount} more hidden by your filters
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
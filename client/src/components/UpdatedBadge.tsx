@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import type { Article } from "@shared/schema";
+
+interface UpdatedBadgeProps {
+  article: Pick<Article, "id" | "revision" | "updatedAt">;
+}
+
+// Shown when the source changed the headline, summary, body or image after we first stored the article
+export function UpdatedBadge({ article }: UpdatedBadgeProps) {
+  if (!article.revision || !article.updatedAt) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="px-1.5 py-0 text-[10px] font-medium border-amber-300 bg-amber-50 text-amber-700"
+      title={`Updated ${new Date(article.updatedAt).toLocaleString()}`}
+      data-testid={`badge-updated-${article.id}`}
+    >
+      Updated
+    </Badge>
+  );
+}
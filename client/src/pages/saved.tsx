@@ -9,6 +9,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { Article } from "@shared/schema";
 import { FeedbackButtons } from "@/components/FeedbackButtons";
+import { UpdatedBadge } from "@/components/UpdatedBadge";
 
 export default function Saved() {
   const { toast } = useToast();
@@ -114,6 +115,7 @@ export default function Saved() {
                         <span className="capitalize text-slate-600">
                           {article.category}
                         </span>
+                        <UpdatedBadge article={article} />
                       </div>
                     </div>
 
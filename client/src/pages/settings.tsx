@@ -6,10 +6,31 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
-import { ArrowLeft, Filter, ShieldCheck, Ban, Check, Smile, Plus, Frown, Eye, RefreshCw } from "lucide-react";
+import { ArrowLeft, Filter, ShieldCheck, Ban, Check, Smile, Plus, Frown, Eye, RefreshCw, Languages, Activity } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Keyword, UserPreferences, FilterPreview, ReplacementPattern } from "@shared/schema";
+import { NewsSourcesSection } from "@/components/NewsSourcesSection";
+import { EntityPreferencesSection } from "@/components/EntityPreferencesSection";
+import { ARTICLE_LANGUAGES, ANXIETY_DIMENSIONS } from "@shared/schema";
+import type {
+  Keyword,
+  UserPreferences,
+  FilterPreview,
+  ReplacementPattern,
+  ArticleLanguage,
+  AnxietyDimension,
+} from "@shared/schema";
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+const anxietyDimensionLabels: Record<AnxietyDimension, string> = {
+  fear: "Fear",
+  outrage: "Outrage",
+  violence: "Violence",
+  health: "Health scares",
+  financial: "Financial stress",
+  doom: "Doom framing",
+};
 
 export default function Settings() {
   const [newBlockedKeyword, setNewBlockedKeyword] = useState("");
@@ -137,6 +158,28 @@ export default function Settings() {
     updatePreferencesMutation.mutate({ realTimeFiltering: enabled });
   };
 
+  const selectedLanguages = preferences?.languages ?? ["en"];
+
+  const handleLanguageToggle = (language: ArticleLanguage) => {
+    const languages = selectedLanguages.includes(language)
+      ? selectedLanguages.filter((selected) => selected !== language)
+      : [...selectedLanguages, language];
+    // At least one language must stay selected
+    if (languages.length > 0) {
+      updatePreferencesMutation.mutate({ languages });
+    }
+  };
+
+  const anxietyThresholds = preferences?.anxietyThresholds ?? {};
+
+  // The top of the slider means no limit for that dimension
+  const handleAnxietyThresholdChange = (dimension: AnxietyDimension, percent: number) => {
+    const { [dimension]: _previous, ...others } = anxietyThresholds;
+    updatePreferencesMutation.mutate({
+      anxietyThresholds: percent >= 100 ? others : { ...others, [dimension]: percent / 100 },
+    });
+  };
+
   const handleDeleteKeyword = (id: string) => {
     deleteKeywordMutation.mutate(id);
   };
@@ -326,6 +369,69 @@ export default function Settings() {
                   </div>
                 </Card>
 
+                {/* Anxiety Limits */}
+                <Card className="bg-amber-50 border-amber-200 p-4">
+                  <h4 className="text-sm font-medium text-amber-800 mb-3 flex items-center">
+                    <Activity className="mr-2 h-4 w-4" />
+                    Anxiety Limits
+                  </h4>
+                  <div className="space-y-3 mb-3">
+                    {ANXIETY_DIMENSIONS.map((dimension) => {
+                      const limit = anxietyThresholds[dimension];
+                      return (
+                        <div key={dimension} className="space-y-1">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="text-slate-600">{anxietyDimensionLabels[dimension]}</span>
+                            <span className="font-medium text-slate-900" data-testid={`text-anxiety-threshold-${dimension}`}>
+                              {limit === undefined ? "No limit" : `${Math.round(limit * 100)}%`}
+                            </span>
+                          </div>
+                          <input
+                            type="range"
+                            min="0"
+                            max="100"
+                            value={(limit ?? 1) * 100}
+                            onChange={(e) => handleAnxietyThresholdChange(dimension, parseInt(e.target.value))}
+                            className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer"
+                            data-testid={`slider-anxiety-threshold-${dimension}`}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Articles scoring above a limit will be filtered
+                  </div>
+                </Card>
+
+                {/* Languages */}
+                <Card className="bg-teal-50 border-teal-200 p-4">
+                  <h4 className="text-sm font-medium text-teal-800 mb-3 flex items-center">
+                    <Languages className="mr-2 h-4 w-4" />
+                    Languages
+                  </h4>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {ARTICLE_LANGUAGES.map((language) => (
+                      <Badge
+                        key={language}
+                        variant="secondary"
+                        className={
+                          selectedLanguages.includes(language)
+                            ? "bg-teal-600 text-white cursor-pointer hover:bg-teal-700"
+                            : "bg-teal-100 text-teal-800 cursor-pointer hover:bg-teal-200"
+                        }
+                        onClick={() => handleLanguageToggle(language)}
+                        data-testid={`badge-language-${language}`}
+                      >
+                        {languageNames.of(language)}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    Articles in other languages will be filtered
+                  </div>
+                </Card>
+
                 {/* Replacement Patterns */}
                 <Card className="bg-purple-50 border-purple-200 p-4">
                   <h4 className="text-sm font-medium text-purple-800 mb-3 flex items-center">
@@ -396,6 +502,12 @@ export default function Settings() {
           </div>
         </section>
 
+        {/* News Sources */}
+        <NewsSourcesSection />
+
+        {/* Entity Follows & Mutes */}
+        <EntityPreferencesSection />
+
         {/* Filter Preview */}
         <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
           <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4">
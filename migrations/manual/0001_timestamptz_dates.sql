@@ -0,0 +1,44 @@
+-- Convert articles.published_at and podcasts.created_at from text to timestamptz.
+--
+-- drizzle-kit push cannot cast text to timestamptz on its own, so run this
+-- once with psql before `npm run db:push`:
+--
+--   psql "$DATABASE_URL" -f migrations/manual/0001_timestamptz_dates.sql
+--
+-- Values Postgres can't parse are flagged with published_at_estimated, as
+-- ingest flags dates it can't parse, and like those they never count toward
+-- freshness windows (see server/services/dateParser.ts). Ingest stores the
+-- first-seen time; these rows were first seen at an unknown time, so they get
+-- the epoch and sort as oldest. Future dates are clamped to now.
+
+BEGIN;
+
+CREATE FUNCTION pg_temp.try_timestamptz(value text) RETURNS timestamptz AS $$
+BEGIN
+  RETURN value::timestamptz;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Feeds without an explicit zone were stored as-is; read them as UTC
+SET LOCAL TIME ZONE 'UTC';
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS published_at_estimated boolean NOT NULL DEFAULT false;
+
+UPDATE articles
+SET published_at_estimated = true
+WHERE pg_temp.try_timestamptz(published_at) IS NULL;
+
+ALTER TABLE articles
+  ALTER COLUMN published_at TYPE timestamptz
+  USING LEAST(COALESCE(pg_temp.try_timestamptz(published_at), 'epoch'::timestamptz), now());
+
+ALTER TABLE podcasts
+  ALTER COLUMN created_at TYPE timestamptz
+  USING COALESCE(pg_temp.try_timestamptz(created_at), now());
+
+CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles (published_at);
+CREATE INDEX IF NOT EXISTS idx_podcasts_created_at ON podcasts (created_at);
+
+COMMIT;
@@ -0,0 +1,24 @@
+-- Move article deduplication from articles.url to the new articles.canonical_url.
+--
+-- drizzle-kit push can't add a NOT NULL column to a populated table, so run
+-- this once with psql before `npm run db:push`:
+--
+--   psql "$DATABASE_URL" -f migrations/manual/0002_canonical_urls.sql
+--
+-- Stored URLs were already normalized on insert, so they become the
+-- canonical URL of existing rows as-is; url keeps the same value and from
+-- now on holds the link as the provider gave it.
+
+BEGIN;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS canonical_url text;
+
+UPDATE articles SET canonical_url = url WHERE canonical_url IS NULL;
+
+ALTER TABLE articles ALTER COLUMN canonical_url SET NOT NULL;
+ALTER TABLE articles ADD CONSTRAINT articles_canonical_url_unique UNIQUE (canonical_url);
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_url_unique;
+
+CREATE INDEX IF NOT EXISTS idx_articles_url ON articles (url);
+
+COMMIT;
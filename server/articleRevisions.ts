@@ -0,0 +1,56 @@
+import { createHash } from "crypto";
+import type { Article, InsertArticle } from "@shared/schema";
+
+/**
+ * Change detection for articles whose URL is already stored. Feeds re-publish
+ * items with corrected headlines, rewritten summaries and late-arriving
+ * images; only those material fields are compared, so re-fetching an
+ * unchanged item doesn't bump its revision.
+ */
+
+const MIN_CONTENT_RATIO = 0.5;
+
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? "").replace(/\s+/g, " ").trim();
+}
+
+export function hashContent(content: string | null | undefined): string {
+  return createHash("sha256").update(normalizeText(content)).digest("hex");
+}
+
+/**
+ * Fields to write when incoming differs materially from existing, or null
+ * when nothing changed. A feed that drops its content, image or author never
+ * clears the stored one.
+ */
+export function diffArticle(existing: Article, incoming: InsertArticle): Partial<Article> | null {
+  const existingHash = existing.contentHash ?? hashContent(existing.content);
+  // A much shorter body is usually the feed teaser standing in for full text
+  // extracted on an earlier run (e.g. this run's extraction budget ran out)
+  const incomingContent =
+    incoming.content && incoming.content.length >= (existing.content?.length ?? 0) * MIN_CONTENT_RATIO
+      ? incoming.content
+      : null;
+  const contentHash = incomingContent ? hashContent(incomingContent) : existingHash;
+  const imageUrl = incoming.imageUrl || existing.imageUrl;
+
+  const changed =
+    normalizeText(incoming.title) !== normalizeText(existing.title) ||
+    normalizeText(incoming.summary) !== normalizeText(existing.summary) ||
+    contentHash !== existingHash ||
+    imageUrl !== existing.imageUrl;
+
+  if (!changed) return null;
+
+  return {
+    title: incoming.title,
+    summary: incoming.summary,
+    content: incomingContent ?? existing.content,
+    contentHash,
+    imageUrl,
+    author: incoming.author || existing.author,
+    readTime: incoming.readTime,
+    revision: existing.revision + 1,
+    updatedAt: new Date(),
+  };
+}
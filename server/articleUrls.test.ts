@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findCanonicalLink, normalizeUrl, pickCanonicalUrl } from "./articleUrls";
+
+describe("normalizeUrl", () => {
+  it("drops tracking parameters and keeps the rest, sorted", () => {
+    assert.equal(
+      normalizeUrl("https://example.com/story?utm_source=rss&b=2&fbclid=x&a=1&ref=home"),
+      "https://example.com/story?a=1&b=2"
+    );
+  });
+
+  it("drops fragments and trailing slashes and lowercases the host", () => {
+    assert.equal(normalizeUrl("https://News.Example.COM/2024/story/#comments"), "https://news.example.com/2024/story");
+  });
+
+  it("drops AMP query markers but keeps other outputType values", () => {
+    assert.equal(normalizeUrl("https://example.com/story?amp=1"), "https://example.com/story");
+    assert.equal(normalizeUrl("https://example.com/story?outputType=amp"), "https://example.com/story");
+    assert.equal(normalizeUrl("https://example.com/story?outputType=print"), "https://example.com/story?outputType=print");
+  });
+
+  it("strips AMP path variants", () => {
+    assert.equal(normalizeUrl("https://example.com/story.amp.html"), "https://example.com/story.html");
+    assert.equal(normalizeUrl("https://example.com/story.amp"), "https://example.com/story");
+    assert.equal(normalizeUrl("https://example.com/story/amp/"), "https://example.com/story");
+  });
+
+  it("unwraps AMP cache and Google AMP viewer URLs", () => {
+    assert.equal(
+      normalizeUrl("https://example-com.cdn.ampproject.org/c/s/example.com/story/amp"),
+      "https://example.com/story"
+    );
+    assert.equal(
+      normalizeUrl("https://example-com.cdn.ampproject.org/v/example.com/story.amp.html"),
+      "http://example.com/story.html"
+    );
+    assert.equal(normalizeUrl("https://www.google.com/amp/s/example.com/story"), "https://example.com/story");
+  });
+
+  it("treats URL variants of one article as equal", () => {
+    const variants = [
+      "https://example.com/story",
+      "https://EXAMPLE.com/story/",
+      "https://example.com/story?utm_campaign=feed#top",
+      "https://example.com/story/amp",
+      "https://www.google.com/amp/s/example.com/story",
+    ];
+    assert.deepEqual(new Set(variants.map(normalizeUrl)), new Set(["https://example.com/story"]));
+  });
+
+  it("falls back to lowercasing strings that aren't URLs", () => {
+    assert.equal(normalizeUrl("Not A URL/"), "not a url");
+  });
+});
+
+describe("pickCanonicalUrl", () => {
+  const page = "https://www.example.com/2024/story?utm_source=rss";
+
+  it("resolves relative canonicals against the page", () => {
+    assert.equal(pickCanonicalUrl("/2024/story", page), "https://www.example.com/2024/story");
+  });
+
+  it("ignores missing, non-http and site-root canonicals", () => {
+    assert.equal(pickCanonicalUrl(null, page), null);
+    assert.equal(pickCanonicalUrl("javascript:alert(1)", page), null);
+    assert.equal(pickCanonicalUrl("https://www.example.com/", page), null);
+  });
+
+  it("accepts the same site with or without www", () => {
+    assert.equal(pickCanonicalUrl("https://example.com/2024/story", page), "https://example.com/2024/story");
+  });
+
+  it("ignores a canonical on another host", () => {
+    assert.equal(pickCanonicalUrl("https://other.example.org/their-story", page), null);
+  });
+
+  it("accepts another host the redirect chain passed through", () => {
+    assert.equal(
+      pickCanonicalUrl("https://publisher.example.org/story", page, ["https://publisher.example.org/s/123"]),
+      "https://publisher.example.org/story"
+    );
+  });
+});
+
+describe("findCanonicalLink", () => {
+  it("reads the href of a canonical link in any attribute order and quoting", () => {
+    assert.equal(findCanonicalLink('<link rel="canonical" href="https://a.example/x">'), "https://a.example/x");
+    assert.equal(findCanonicalLink("<link href='/x' rel='canonical'>"), "/x");
+    assert.equal(findCanonicalLink("<link rel=canonical href=/y>"), "/y");
+  });
+
+  it("skips other link tags", () => {
+    assert.equal(findCanonicalLink('<link rel="stylesheet" href="/a.css"><link rel="alternate" href="/feed">'), null);
+  });
+});
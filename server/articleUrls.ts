@@ -0,0 +1,98 @@
+/**
+ * Article URL normalization. The canonical URL articles are deduplicated on
+ * is normalized here: tracking parameters, AMP variants, fragments and
+ * trailing slashes don't make a different story.
+ */
+
+const TRACKING_PARAMS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_content",
+  "utm_term",
+  "utm_name",
+  "ref",
+  "fbclid",
+  "gclid",
+  "mc_cid",
+  "mc_eid",
+  "cmpid",
+  "ncid",
+];
+const AMP_PARAMS = ["amp", "outputType", "amp_js_v"]; // outputType=amp
+
+// AMP cache and viewer URLs wrap the publisher URL in their path
+function unwrapAmpCache(url: URL): URL {
+  const wrapped =
+    (url.hostname.endsWith(".cdn.ampproject.org") && url.pathname.match(/^\/[a-z]+\/(s\/)?(.+)$/)) ||
+    (/^(www\.)?google\.[a-z.]+$/.test(url.hostname) && url.pathname.match(/^\/amp\/(s\/)?(.+)$/));
+  if (!wrapped) return url;
+
+  try {
+    return new URL(`${wrapped[1] ? "https" : "http"}://${wrapped[2]}${url.search}`);
+  } catch {
+    return url;
+  }
+}
+
+export function normalizeUrl(url: string): string {
+  try {
+    const urlObj = unwrapAmpCache(new URL(url));
+    TRACKING_PARAMS.forEach((param) => urlObj.searchParams.delete(param));
+    AMP_PARAMS.forEach((param) => {
+      const value = urlObj.searchParams.get(param);
+      if (value !== null && (param !== "outputType" || value === "amp")) urlObj.searchParams.delete(param);
+    });
+    urlObj.hostname = urlObj.hostname.toLowerCase();
+    urlObj.hash = "";
+    urlObj.pathname = urlObj.pathname
+      .replace(/\.amp(\.html?)?$/, "$1")
+      .replace(/\/amp\/?$/, "")
+      .replace(/\/$/, "");
+    urlObj.searchParams.sort();
+    return urlObj.toString();
+  } catch {
+    return url.toLowerCase().replace(/\/$/, "");
+  }
+}
+
+// example.com and www.example.com are one site
+function siteHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * A page's declared canonical URL, resolved against the page URL. Canonicals
+ * pointing at the site root from an article page are a common
+ * misconfiguration and are ignored, as are canonicals on another host unless
+ * the redirects that led to the page (redirectChain) passed through it;
+ * otherwise any page could claim another site's article URL.
+ */
+export function pickCanonicalUrl(
+  href: string | null | undefined,
+  pageUrl: string,
+  redirectChain: string[] = []
+): string | null {
+  if (!href) return null;
+  try {
+    const page = new URL(pageUrl);
+    const canonical = new URL(href.trim(), page);
+    if (canonical.protocol !== "http:" && canonical.protocol !== "https:") return null;
+    if (canonical.pathname === "/" && page.pathname !== "/") return null;
+
+    const reachedHosts = new Set([page, ...redirectChain.map((url) => new URL(url))].map(siteHost));
+    if (!reachedHosts.has(siteHost(canonical))) return null;
+    return canonical.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function findCanonicalLink(html: string): string | null {
+  for (const [tag] of Array.from(html.matchAll(/<link\b[^>]*>/gi))) {
+    if (!/\brel\s*=\s*["']?canonical\b/i.test(tag)) continue;
+    const href = tag.match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    if (href) return href[1] ?? href[2] ?? href[3];
+  }
+  return null;
+}
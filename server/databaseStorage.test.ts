@@ -0,0 +1,66 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { UserPreferences } from "@shared/schema";
+import { db } from "./db";
+import { DatabaseStorage } from "./databaseStorage";
+
+const storedPreferences: UserPreferences = {
+  id: "prefs-1",
+  userId: "user-1",
+  sentimentThreshold: 0.5,
+  realTimeFiltering: false,
+  languages: ["en", "de"],
+  anxietyThresholds: {},
+  followedTopics: ["science"],
+};
+
+// Stands in for db.insert(...): records the builder calls and resolves returning() with rows
+function fakeInsert(rows: UserPreferences[]) {
+  const calls: Array<{ method: string; arg: unknown }> = [];
+  const record = (method: string) => (arg: unknown) => {
+    calls.push({ method, arg });
+    return builder;
+  };
+  const builder = {
+    values: record("values"),
+    onConflictDoUpdate: record("onConflictDoUpdate"),
+    onConflictDoNothing: record("onConflictDoNothing"),
+    returning: async () => rows,
+  };
+  mock.method(db, "insert", () => builder as unknown as ReturnType<typeof db.insert>);
+  return calls;
+}
+
+// Stands in for db.select().from(...).where(...)
+function fakeSelect(rows: UserPreferences[]) {
+  const builder = { from: () => ({ where: async () => rows }) };
+  mock.method(db, "select", () => builder as unknown as ReturnType<typeof db.select>);
+}
+
+afterEach(() => mock.restoreAll());
+
+describe("DatabaseStorage.updateUserPreferences", () => {
+  it("upserts the given fields", async () => {
+    const calls = fakeInsert([{ ...storedPreferences, sentimentThreshold: 0.9 }]);
+    const updated = await new DatabaseStorage().updateUserPreferences({ sentimentThreshold: 0.9 }, "user-1");
+
+    assert.equal(updated.sentimentThreshold, 0.9);
+    const conflict = calls.find((call) => call.method === "onConflictDoUpdate");
+    assert.deepEqual((conflict?.arg as { set: unknown }).set, { sentimentThreshold: 0.9 });
+  });
+
+  it("returns the stored row for an empty patch instead of updating nothing", async () => {
+    const calls = fakeInsert([]); // the row exists, so nothing is inserted
+    fakeSelect([storedPreferences]);
+
+    const updated = await new DatabaseStorage().updateUserPreferences({}, "user-1");
+    assert.deepEqual(updated, storedPreferences);
+    assert.deepEqual(calls.map((call) => call.method), ["values", "onConflictDoNothing"]);
+  });
+
+  it("creates the row for an empty patch from a user without one", async () => {
+    fakeInsert([{ ...storedPreferences, languages: ["en"], followedTopics: [] }]);
+    const updated = await new DatabaseStorage().updateUserPreferences({ sentimentThreshold: undefined }, "user-1");
+    assert.deepEqual(updated.languages, ["en"]);
+  });
+});
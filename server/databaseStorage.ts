@@ -8,6 +8,18 @@ import {
   userArticleLikes,
   userSavedArticles,
   articleFeedback,
+  newsSources,
+  userSourceSubscriptions,
+  jobRuns,
+  jobLocks,
+  ingestionReports,
+  archivedArticles,
+  apiUsage,
+  aiAnalysisCache,
+  aiUsageLedger,
+  articleEntities,
+  userEntityPreferences,
+  stories,
   type User,
   type UpsertUser,
   type Article,
@@ -19,9 +31,32 @@ import {
   type UserPreferences,
   type Podcast,
   type InsertPodcast,
+  type NewsSource,
+  type InsertNewsSource,
+  type UserSourceSubscription,
+  type JobRun,
+  type InsertJobRun,
+  type JobRunStatus,
+  type IngestionReport,
+  type InsertIngestionReport,
+  type ArticleUpsertStatus,
+  type AiAnalysis,
+  type InsertAiAnalysis,
+  type InsertAiUsage,
+  type AiUsageTotals,
+  type ArticleEntity,
+  type InsertArticleEntity,
+  type EntityType,
+  type TrendingEntity,
+  type UserEntityPreference,
+  type InsertUserEntityPreference,
+  type Story,
+  type InsertStory,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, inArray, sql } from "drizzle-orm";
+import { diffArticle, hashContent } from "./articleRevisions";
+import { normalizeUrl } from "./articleUrls";
+import { eq, desc, and, inArray, isNull, isNotNull, lt, gte, count, sql } from "drizzle-orm";
 import type { IStorage } from "./storage";
 
 export class DatabaseStorage implements IStorage {
@@ -46,56 +81,111 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  // URL normalization helper
-  private normalizeUrl(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const trackingParams = [
-        "utm_source",
-        "utm_medium",
-        "utm_campaign",
-        "utm_content",
-        "utm_term",
-        "ref",
-        "fbclid",
-        "gclid",
-      ];
-      trackingParams.forEach((param) => urlObj.searchParams.delete(param));
-      urlObj.hostname = urlObj.hostname.toLowerCase();
-      urlObj.pathname = urlObj.pathname.replace(/\/$/, "");
-      urlObj.searchParams.sort();
-      return urlObj.toString();
-    } catch {
-      return url.toLowerCase().replace(/\/$/, "");
-    }
-  }
-
   // Articles
-  async createArticle(insertArticle: InsertArticle): Promise<Article> {
-    const normalizedUrl = this.normalizeUrl(insertArticle.url);
+  async upsertArticle(insertArticle: InsertArticle): Promise<{ article: Article; status: ArticleUpsertStatus }> {
+    const canonicalUrl = normalizeUrl(insertArticle.canonicalUrl);
 
     const [article] = await db
       .insert(articles)
-      .values({ ...insertArticle, url: normalizedUrl })
-      .onConflictDoNothing({ target: articles.url })
+      .values({ ...insertArticle, canonicalUrl, contentHash: hashContent(insertArticle.content) })
+      .onConflictDoNothing({ target: articles.canonicalUrl })
       .returning();
 
-    if (!article) {
-      const [existingArticle] = await db
-        .select()
-        .from(articles)
-        .where(eq(articles.url, normalizedUrl))
-        .limit(1);
-      return existingArticle;
+    if (article) {
+      return { article, status: "created" };
     }
 
-    return article;
+    const [existingArticle] = await db
+      .select()
+      .from(articles)
+      .where(eq(articles.canonicalUrl, canonicalUrl))
+      .limit(1);
+
+    const changes = diffArticle(existingArticle, insertArticle);
+    if (!changes) {
+      return { article: existingArticle, status: "unchanged" };
+    }
+
+    const [updatedArticle] = await db
+      .update(articles)
+      .set({ ...changes, revision: sql`${articles.revision} + 1` })
+      .where(eq(articles.id, existingArticle.id))
+      .returning();
+    return { article: updatedArticle, status: "updated" };
   }
 
   async getArticles(): Promise<Article[]> {
     return await db.select().from(articles);
   }
 
+  async getCanonicalUrls(urls: string[]): Promise<Array<{ url: string; canonicalUrl: string }>> {
+    if (urls.length === 0) return [];
+    return await db
+      .select({ url: articles.url, canonicalUrl: articles.canonicalUrl })
+      .from(articles)
+      .where(inArray(articles.url, urls));
+  }
+
+  async getArticlesPublishedSince(since: Date): Promise<Article[]> {
+    return await db
+      .select()
+      .from(articles)
+      .where(and(gte(articles.publishedAt, since), eq(articles.publishedAtEstimated, false)));
+  }
+
+  async countArticles(): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(articles);
+    return result.count;
+  }
+
+  async getArticlesPublishedBefore(before: Date): Promise<Article[]> {
+    return await db.select().from(articles).where(lt(articles.publishedAt, before));
+  }
+
+  async getReferencedArticleIds(): Promise<{ saved: string[]; liked: string[]; feedback: string[]; podcast: string[] }> {
+    const [saved, liked, feedback, podcastRows] = await Promise.all([
+      db.selectDistinct({ articleId: userSavedArticles.articleId }).from(userSavedArticles),
+      db.selectDistinct({ articleId: userArticleLikes.articleId }).from(userArticleLikes),
+      db.selectDistinct({ articleId: articleFeedback.articleId }).from(articleFeedback),
+      db.select({ articleIds: podcasts.articleIds }).from(podcasts),
+    ]);
+
+    return {
+      saved: saved.map((row) => row.articleId),
+      liked: liked.map((row) => row.articleId),
+      feedback: feedback.map((row) => row.articleId),
+      podcast: Array.from(new Set(podcastRows.flatMap((row) => row.articleIds ?? []))),
+    };
+  }
+
+  async deleteArticles(ids: string[], archive: boolean): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    return await db.transaction(async (tx) => {
+      if (archive) {
+        const rows = await tx.select().from(articles).where(inArray(articles.id, ids));
+        if (rows.length > 0) {
+          await tx
+            .insert(archivedArticles)
+            .values(
+              rows.map((row) => ({
+                id: row.id,
+                url: row.url,
+                title: row.title,
+                source: row.source,
+                publishedAt: row.publishedAt,
+                data: row as unknown as Record<string, unknown>,
+              }))
+            )
+            .onConflictDoNothing({ target: archivedArticles.id });
+        }
+      }
+
+      const result = await tx.delete(articles).where(inArray(articles.id, ids));
+      return result.rowCount ?? 0;
+    });
+  }
+
   async getCuratedArticles(): Promise<Article[]> {
     return await db.select().from(articles).where(eq(articles.isCurated, true));
   }
@@ -381,6 +471,70 @@ export class DatabaseStorage implements IStorage {
     return summary;
   }
 
+  // News Sources
+  async getNewsSources(): Promise<NewsSource[]> {
+    return await db.select().from(newsSources).orderBy(newsSources.name);
+  }
+
+  async getNewsSource(id: string): Promise<NewsSource | undefined> {
+    const [source] = await db.select().from(newsSources).where(eq(newsSources.id, id));
+    return source;
+  }
+
+  async getNewsSourceByUrl(url: string, ownerId: string | null): Promise<NewsSource | undefined> {
+    const [source] = await db
+      .select()
+      .from(newsSources)
+      .where(and(eq(newsSources.url, url), ownerId ? eq(newsSources.ownerId, ownerId) : isNull(newsSources.ownerId)));
+    return source;
+  }
+
+  async createNewsSource(insertSource: InsertNewsSource): Promise<NewsSource> {
+    const [source] = await db.insert(newsSources).values(insertSource).returning();
+    return source;
+  }
+
+  async seedNewsSources(sources: InsertNewsSource[]): Promise<void> {
+    if (sources.length === 0) return;
+    await db.insert(newsSources).values(sources).onConflictDoNothing({ target: [newsSources.ownerId, newsSources.url] });
+  }
+
+  async updateNewsSource(id: string, updates: Partial<NewsSource>): Promise<NewsSource | undefined> {
+    const [source] = await db.update(newsSources).set(updates).where(eq(newsSources.id, id)).returning();
+    return source;
+  }
+
+  async deleteNewsSource(id: string): Promise<boolean> {
+    const result = await db.delete(newsSources).where(eq(newsSources.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getSourceSubscriptions(userId: string): Promise<UserSourceSubscription[]> {
+    return await db
+      .select()
+      .from(userSourceSubscriptions)
+      .where(eq(userSourceSubscriptions.userId, userId));
+  }
+
+  async setSourceSubscription(
+    userId: string,
+    sourceId: string,
+    subscribed: boolean
+  ): Promise<UserSourceSubscription> {
+    const [subscription] = await db
+      .insert(userSourceSubscriptions)
+      .values({ userId, sourceId, subscribed })
+      .onConflictDoUpdate({
+        target: [userSourceSubscriptions.userId, userSourceSubscriptions.sourceId],
+        set: {
+          subscribed,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return subscription;
+  }
+
   // Keywords
   async createKeyword(insertKeyword: InsertKeyword): Promise<Keyword> {
     const [keyword] = await db.insert(keywords).values(insertKeyword).returning();
@@ -434,11 +588,23 @@ export class DatabaseStorage implements IStorage {
         userId: null,
         sentimentThreshold: 0.7,
         realTimeFiltering: true,
+        languages: ["en"],
+        anxietyThresholds: {},
+        followedTopics: [],
       };
     }
   }
 
   async updateUserPreferences(preferences: Partial<UserPreferences>, userId?: string): Promise<UserPreferences> {
+    if (userId && Object.values(preferences).every((value) => value === undefined)) {
+      // Nothing to change (onConflictDoUpdate rejects an empty set): make sure the row exists and return it
+      const [created] = await db
+        .insert(userPreferences)
+        .values({ userId })
+        .onConflictDoNothing({ target: userPreferences.userId })
+        .returning();
+      return created ?? (await this.getUserPreferences(userId))!;
+    }
     if (userId) {
       const [updated] = await db
         .insert(userPreferences)
@@ -455,10 +621,21 @@ export class DatabaseStorage implements IStorage {
         userId: null,
         sentimentThreshold: preferences.sentimentThreshold || 0.7,
         realTimeFiltering: preferences.realTimeFiltering !== undefined ? preferences.realTimeFiltering : true,
+        languages: preferences.languages ?? ["en"],
+        anxietyThresholds: preferences.anxietyThresholds ?? {},
+        followedTopics: preferences.followedTopics ?? [],
       };
     }
   }
 
+  async getFollowedTopics(): Promise<Array<{ userId: string; topicId: string }>> {
+    const rows = await db
+      .select({ userId: userPreferences.userId, followedTopics: userPreferences.followedTopics })
+      .from(userPreferences)
+      .where(isNotNull(userPreferences.userId));
+    return rows.flatMap(({ userId, followedTopics }) => followedTopics.map((topicId) => ({ userId: userId!, topicId })));
+  }
+
   // Podcasts
   async createPodcast(insertPodcast: InsertPodcast): Promise<Podcast> {
     const [podcast] = await db.insert(podcasts).values(insertPodcast).returning();
@@ -474,8 +651,15 @@ export class DatabaseStorage implements IStorage {
     return podcast;
   }
 
+  // date is a UTC calendar day, YYYY-MM-DD
   async getPodcastByDate(date: string): Promise<Podcast | undefined> {
-    const [podcast] = await db.select().from(podcasts).where(eq(podcasts.createdAt, date));
+    const dayStart = new Date(`${date}T00:00:00Z`);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+    const [podcast] = await db
+      .select()
+      .from(podcasts)
+      .where(and(gte(podcasts.createdAt, dayStart), lt(podcasts.createdAt, dayEnd)))
+      .limit(1);
     return podcast;
   }
 
@@ -483,4 +667,266 @@ export class DatabaseStorage implements IStorage {
     const [podcast] = await db.update(podcasts).set(updates).where(eq(podcasts.id, id)).returning();
     return podcast;
   }
+
+  // Jobs
+  async createJobRun(insertRun: InsertJobRun): Promise<JobRun> {
+    const [run] = await db.insert(jobRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async updateJobRun(id: string, updates: Partial<JobRun>): Promise<JobRun | undefined> {
+    const [run] = await db.update(jobRuns).set(updates).where(eq(jobRuns.id, id)).returning();
+    return run;
+  }
+
+  async getJobRuns(limit: number, jobName?: string): Promise<JobRun[]> {
+    return await db
+      .select()
+      .from(jobRuns)
+      .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getLastJobRun(jobName: string, status?: JobRunStatus): Promise<JobRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(jobRuns)
+      .where(
+        status
+          ? and(eq(jobRuns.jobName, jobName), eq(jobRuns.status, status))
+          : eq(jobRuns.jobName, jobName)
+      )
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  async acquireJobLock(jobName: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + ttlMs);
+
+    // Take the lock if nobody holds it or the previous holder's lease expired
+    const [lock] = await db
+      .insert(jobLocks)
+      .values({ jobName, lockedBy: owner, lockedUntil })
+      .onConflictDoUpdate({
+        target: jobLocks.jobName,
+        set: { lockedBy: owner, lockedUntil },
+        setWhere: lt(jobLocks.lockedUntil, now),
+      })
+      .returning();
+    return !!lock;
+  }
+
+  async releaseJobLock(jobName: string, owner: string): Promise<void> {
+    await db
+      .delete(jobLocks)
+      .where(and(eq(jobLocks.jobName, jobName), eq(jobLocks.lockedBy, owner)));
+  }
+
+  // Ingestion Reports
+  async createIngestionReport(insertReport: InsertIngestionReport): Promise<IngestionReport> {
+    const [report] = await db.insert(ingestionReports).values(insertReport).returning();
+    return report;
+  }
+
+  async getIngestionReports(limit: number): Promise<IngestionReport[]> {
+    return await db.select().from(ingestionReports).orderBy(desc(ingestionReports.createdAt)).limit(limit);
+  }
+
+  async getIngestionReport(id: string): Promise<IngestionReport | undefined> {
+    const [report] = await db.select().from(ingestionReports).where(eq(ingestionReports.id, id));
+    return report;
+  }
+
+  // API Usage
+  async getApiUsage(provider: string, day: string): Promise<number> {
+    const [usage] = await db
+      .select()
+      .from(apiUsage)
+      .where(and(eq(apiUsage.provider, provider), eq(apiUsage.day, day)));
+    return usage?.requests ?? 0;
+  }
+
+  async addApiUsage(provider: string, day: string, requests: number): Promise<void> {
+    await db
+      .insert(apiUsage)
+      .values({ provider, day, requests })
+      .onConflictDoUpdate({
+        target: [apiUsage.provider, apiUsage.day],
+        set: { requests: sql`${apiUsage.requests} + ${requests}` },
+      });
+  }
+
+  // AI Analysis Cache
+  async getAiAnalyses(keys: string[]): Promise<AiAnalysis[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(aiAnalysisCache).where(inArray(aiAnalysisCache.key, keys));
+  }
+
+  async saveAiAnalyses(analyses: InsertAiAnalysis[]): Promise<void> {
+    if (analyses.length === 0) return;
+    await db
+      .insert(aiAnalysisCache)
+      .values(analyses)
+      .onConflictDoUpdate({
+        target: aiAnalysisCache.key,
+        set: {
+          provider: sql`excluded.provider`,
+          sentiment: sql`coalesce(excluded.sentiment, ${aiAnalysisCache.sentiment})`,
+          sentimentConfidence: sql`coalesce(excluded.sentiment_confidence, ${aiAnalysisCache.sentimentConfidence})`,
+          anxietyProfile: sql`coalesce(excluded.anxiety_profile, ${aiAnalysisCache.anxietyProfile})`,
+          keywords: sql`coalesce(excluded.keywords, ${aiAnalysisCache.keywords})`,
+          topics: sql`coalesce(excluded.topics, ${aiAnalysisCache.topics})`,
+          entities: sql`coalesce(excluded.entities, ${aiAnalysisCache.entities})`,
+          summary: sql`coalesce(excluded.summary, ${aiAnalysisCache.summary})`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  // AI Usage Ledger
+  async recordAiUsage(entries: InsertAiUsage[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(aiUsageLedger).values(entries);
+  }
+
+  async getAiUsageTotals(since: Date): Promise<AiUsageTotals[]> {
+    return await db
+      .select({
+        capability: aiUsageLedger.capability,
+        requests: sql<number>`count(*)::int`,
+        promptTokens: sql<number>`coalesce(sum(${aiUsageLedger.promptTokens}), 0)::float8`,
+        completionTokens: sql<number>`coalesce(sum(${aiUsageLedger.completionTokens}), 0)::float8`,
+        characters: sql<number>`coalesce(sum(${aiUsageLedger.characters}), 0)::float8`,
+        costUsd: sql<number>`coalesce(sum(${aiUsageLedger.costUsd}), 0)::float8`,
+      })
+      .from(aiUsageLedger)
+      .where(gte(aiUsageLedger.createdAt, since))
+      .groupBy(aiUsageLedger.capability);
+  }
+
+  // Article Entities
+  async replaceArticleEntities(articleId: string, entities: Omit<InsertArticleEntity, "articleId">[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(articleEntities).where(eq(articleEntities.articleId, articleId));
+      if (entities.length > 0) {
+        await tx
+          .insert(articleEntities)
+          .values(entities.map((entity) => ({ ...entity, articleId })))
+          .onConflictDoNothing();
+      }
+    });
+  }
+
+  async getArticleEntities(articleIds: string[]): Promise<ArticleEntity[]> {
+    if (articleIds.length === 0) return [];
+    return await db.select().from(articleEntities).where(inArray(articleEntities.articleId, articleIds));
+  }
+
+  async getTrendingEntities(since: Date, limit: number, type?: EntityType): Promise<TrendingEntity[]> {
+    const articleCount = sql<number>`count(distinct ${articles.id})::int`;
+    const latestAt = sql<Date>`max(${articles.publishedAt})`;
+
+    const rows = await db
+      .select({
+        type: articleEntities.type,
+        key: articleEntities.key,
+        name: sql<string>`(array_agg(${articleEntities.name} order by ${articles.publishedAt} desc))[1]`,
+        articleCount,
+        sourceCount: sql<number>`count(distinct ${articles.source})::int`,
+        latestAt,
+      })
+      .from(articleEntities)
+      .innerJoin(articles, eq(articleEntities.articleId, articles.id))
+      .where(
+        and(
+          gte(articles.publishedAt, since),
+          eq(articles.publishedAtEstimated, false),
+          type ? eq(articleEntities.type, type) : undefined
+        )
+      )
+      .groupBy(articleEntities.type, articleEntities.key)
+      .orderBy(desc(articleCount), desc(latestAt))
+      .limit(limit);
+
+    // max() comes back as a string from the driver
+    return rows.map((row) => ({ ...row, latestAt: new Date(row.latestAt) }));
+  }
+
+  // Entity Follows & Mutes
+  async getEntityPreferences(userId: string): Promise<UserEntityPreference[]> {
+    return await db
+      .select()
+      .from(userEntityPreferences)
+      .where(eq(userEntityPreferences.userId, userId))
+      .orderBy(desc(userEntityPreferences.createdAt));
+  }
+
+  async getEntityFollows(): Promise<UserEntityPreference[]> {
+    return await db.select().from(userEntityPreferences).where(eq(userEntityPreferences.action, "follow"));
+  }
+
+  async setEntityPreference(
+    userId: string,
+    preference: InsertUserEntityPreference & { key: string }
+  ): Promise<UserEntityPreference> {
+    const [saved] = await db
+      .insert(userEntityPreferences)
+      .values({ ...preference, userId })
+      .onConflictDoUpdate({
+        target: [userEntityPreferences.userId, userEntityPreferences.type, userEntityPreferences.key],
+        set: { name: preference.name, action: preference.action, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteEntityPreference(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(userEntityPreferences)
+      .where(and(eq(userEntityPreferences.id, id), eq(userEntityPreferences.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Stories
+  async createStory(story: InsertStory): Promise<Story> {
+    const [created] = await db.insert(stories).values(story).returning();
+    return created;
+  }
+
+  async updateStory(id: string, story: Partial<InsertStory>): Promise<void> {
+    await db
+      .update(stories)
+      .set({ ...story, updatedAt: new Date() })
+      .where(eq(stories.id, id));
+  }
+
+  async setArticleStory(articleIds: string[], storyId: string): Promise<void> {
+    if (articleIds.length === 0) return;
+    await db.update(articles).set({ storyId }).where(inArray(articles.id, articleIds));
+  }
+
+  async getStory(id: string): Promise<Story | undefined> {
+    const [story] = await db.select().from(stories).where(eq(stories.id, id));
+    return story;
+  }
+
+  async getStories(ids: string[]): Promise<Story[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(stories).where(inArray(stories.id, ids));
+  }
+
+  async getStoryArticles(storyIds: string[]): Promise<Article[]> {
+    if (storyIds.length === 0) return [];
+    return await db.select().from(articles).where(inArray(articles.storyId, storyIds));
+  }
+
+  async deleteEmptyStories(): Promise<number> {
+    const result = await db
+      .delete(stories)
+      .where(sql`not exists (select 1 from ${articles} where ${articles.storyId} = ${stories.id})`);
+    return result.rowCount ?? 0;
+  }
 }
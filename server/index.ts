@@ -1,7 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
-import { newsService } from "./services/newsService";
+import { scheduler } from "./services/scheduler";
+import { registerJobs } from "./services/jobs";
 
 const log = console.log;
 const app = express();
@@ -19,7 +20,9 @@ app.use(
 // ✅ Explicitly handle preflight requests
 app.options("*", cors());
 
-app.use(express.json());
+// WebSub pushes are signed over the exact bytes, so keep them raw; the parsers below skip already-read bodies
+app.use("/api/websub", express.raw({ type: () => true, limit: "5mb" }));
+app.use(express.json({ limit: "2mb" })); // OPML imports arrive as JSON-wrapped XML
 app.use(express.urlencoded({ extended: false }));
 
 // ✅ Request logger (API only)
@@ -59,14 +62,19 @@ app.use((req, res, next) => {
 app.post("/api/fetch-news", async (req, res) => {
   try {
     const forceRefresh = Boolean(req.body?.force);
-    await newsService.fetchLatestNews(forceRefresh);
-    res.json({ success: true });
+    const outcome = await scheduler.runJob("fetch-news", { force: forceRefresh });
+    if (outcome.status === "completed" && outcome.run.status === "failed") {
+      return res.status(500).json({ error: "Failed to fetch news" });
+    }
+    res.json({ success: true, skipped: outcome.status === "skipped" ? outcome.reason : undefined });
   } catch (error) {
     console.error("Error fetching news:", error);
     res.status(500).json({ error: "Failed to fetch news" });
   }
 });
 
+registerJobs();
+
 (async () => {
   // ✅ REGISTER ALL API ROUTES FIRST
   const server = await registerRoutes(app);
@@ -103,6 +111,11 @@ app.post("/api/fetch-news", async (req, res) => {
     },
     () => {
       log(`serving on port ${port}`);
+
+      // Set SCHEDULER_ENABLED=false on instances that should only serve requests
+      if (process.env.SCHEDULER_ENABLED !== "false") {
+        scheduler.start();
+      }
     }
   );
 })();
@@ -2,16 +2,48 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { podcastService } from "./services/podcastService";
+import { newsService } from "./services/newsService";
 import {
   insertKeywordSchema,
   insertReplacementPatternSchema,
+  insertNewsSourceSchema,
+  updateNewsSourceSchema,
+  updateUserPreferencesSchema,
+  insertUserEntityPreferenceSchema,
+  ENTITY_TYPES,
 } from "@shared/schema";
 import type { FilterPreview } from "@shared/schema";
 import { applyFilters } from "./services/filteringService";
+import { getSourcesForUser, detectSourceType, findVisibleSourceByUrl } from "./services/sourceService";
+import { getFeedHealthReport, resetFeedHealth } from "./services/feedHealthService";
+import { importOpml, exportOpml } from "./services/opmlService";
+import { cancelSubscription, hasSubscription, isWebSubEnabled, verifyIntent, verifyPushSignature } from "./services/websubService";
+import { getAiUsageReport } from "./services/aiService";
+import { assertPublicUrl } from "./services/safeFetch";
+import { entityKey, getTrendingEntities } from "./services/entityService";
+import { collapseStories, getStoryTimeline } from "./services/storyService";
 
 // Clerk
 import { clerkMiddleware, requireAuth, getAuth } from "@clerk/express";
 
+/**
+ * Admin access is granted by listing Clerk user IDs in ADMIN_USER_IDS
+ * (comma-separated). Must run after requireAuth().
+ */
+const ADMIN_USER_IDS = new Set(
+  (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+);
+
+function requireAdmin(req: any, res: any, next: any) {
+  if (!ADMIN_USER_IDS.has(req.auth?.userId)) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Clerk middleware (adds req.auth)
   app.use(clerkMiddleware());
@@ -61,7 +93,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { userId } = getAuth(req);
       const articles = await storage.getCuratedArticles();
       const filtered = await applyFilters(articles, userId || undefined);
-      res.json(filtered);
+      res.json(await collapseStories(filtered));
     } catch {
       res.status(500).json({ message: "Failed to fetch curated articles" });
     }
@@ -72,7 +104,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { userId } = getAuth(req);
       const articles = await storage.getCuratedArticles();
       const filtered = await applyFilters(articles, userId || undefined);
-      res.json(filtered);
+      res.json(await collapseStories(filtered));
     } catch {
       res.status(500).json({ message: "Failed to fetch filtered articles" });
     }
@@ -89,6 +121,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ======================
+  // STORIES (PUBLIC + OPTIONAL AUTH)
+  // ======================
+  // Every outlet's coverage of one story, oldest first, through the user's filters
+  app.get("/api/stories/:id", async (req: any, res) => {
+    try {
+      const { userId } = getAuth(req);
+      const timeline = await getStoryTimeline(req.params.id, userId || undefined);
+      if (!timeline) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+      res.json(timeline);
+    } catch (error) {
+      console.error("Error fetching story:", error);
+      res.status(500).json({ message: "Failed to fetch story" });
+    }
+  });
+
   // ======================
   // LIKES / SAVED (PROTECTED)
   // ======================
@@ -210,17 +260,353 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // ======================
+  // NEWS SOURCES
+  // ======================
+  app.get("/api/sources", async (req: any, res) => {
+    try {
+      const { userId } = getAuth(req);
+      res.json(await getSourcesForUser(userId || undefined));
+    } catch (error) {
+      console.error("Error fetching sources:", error);
+      res.status(500).json({ message: "Failed to fetch sources" });
+    }
+  });
+
+  app.post("/api/sources", requireAuth(), async (req: any, res) => {
+    try {
+      const parsed = insertNewsSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid source", errors: parsed.error.flatten() });
+      }
+
+      // The poller would otherwise keep requesting internal addresses until the source auto-disables
+      try {
+        await assertPublicUrl(parsed.data.url);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return res.status(400).json({ message: `Invalid source URL: ${message}` });
+      }
+
+      // Only the global source or the user's own is reported; another user's private copy doesn't conflict
+      const existing = await findVisibleSourceByUrl(parsed.data.url, req.auth.userId);
+      if (existing) {
+        return res.status(409).json({ message: "A source with this URL already exists", source: existing });
+      }
+
+      const source = await storage.createNewsSource({
+        ...parsed.data,
+        type: parsed.data.type ?? detectSourceType(parsed.data.url),
+        ownerId: req.auth.userId,
+      });
+      res.json(source);
+    } catch (error) {
+      console.error("Error creating source:", error);
+      res.status(500).json({ message: "Failed to create source" });
+    }
+  });
+
+  app.get("/api/sources/opml", async (req: any, res) => {
+    try {
+      const { userId } = getAuth(req);
+      const opml = await exportOpml(userId || undefined);
+      res.setHeader("Content-Type", "text/x-opml; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="brightbuzz-subscriptions.opml"');
+      res.send(opml);
+    } catch (error) {
+      console.error("Error exporting OPML:", error);
+      res.status(500).json({ message: "Failed to export OPML" });
+    }
+  });
+
+  // Body: { opml: "<opml ...>" } - the client reads the uploaded file as text
+  app.post("/api/sources/opml", requireAuth(), async (req: any, res) => {
+    const opml = req.body?.opml;
+    if (typeof opml !== "string" || !opml.trim()) {
+      return res.status(400).json({ message: "Missing OPML document" });
+    }
+
+    try {
+      res.json(await importOpml(opml, req.auth.userId));
+    } catch (error) {
+      console.error("Error importing OPML:", error);
+      const message = error instanceof Error ? error.message : "Failed to import OPML";
+      res.status(400).json({ message });
+    }
+  });
+
+  // Only the owner can edit or delete a source; global sources are read-only here
+  app.patch("/api/sources/:id", requireAuth(), async (req: any, res) => {
+    try {
+      const source = await storage.getNewsSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Source not found" });
+      }
+      if (source.ownerId !== req.auth.userId) {
+        return res.status(403).json({ message: "You can only edit your own sources" });
+      }
+
+      const parsed = updateNewsSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid source", errors: parsed.error.flatten() });
+      }
+
+      if (parsed.data.enabled === false) await cancelSubscription(source);
+      res.json(await storage.updateNewsSource(source.id, parsed.data));
+    } catch (error) {
+      console.error("Error updating source:", error);
+      res.status(500).json({ message: "Failed to update source" });
+    }
+  });
+
+  app.delete("/api/sources/:id", requireAuth(), async (req: any, res) => {
+    try {
+      const source = await storage.getNewsSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Source not found" });
+      }
+      if (source.ownerId !== req.auth.userId) {
+        return res.status(403).json({ message: "You can only delete your own sources" });
+      }
+
+      await cancelSubscription(source);
+      await storage.deleteNewsSource(source.id);
+      res.json({ success: true, id: source.id });
+    } catch (error) {
+      console.error("Error deleting source:", error);
+      res.status(500).json({ message: "Failed to delete source" });
+    }
+  });
+
+  app.post("/api/sources/:id/subscribe", requireAuth(), async (req: any, res) => {
+    try {
+      const source = await storage.getNewsSource(req.params.id);
+      if (!source || (source.ownerId && source.ownerId !== req.auth.userId)) {
+        return res.status(404).json({ message: "Source not found" });
+      }
+      res.json(await storage.setSourceSubscription(req.auth.userId, source.id, true));
+    } catch (error) {
+      console.error("Error subscribing to source:", error);
+      res.status(500).json({ message: "Failed to subscribe to source" });
+    }
+  });
+
+  app.post("/api/sources/:id/unsubscribe", requireAuth(), async (req: any, res) => {
+    try {
+      const source = await storage.getNewsSource(req.params.id);
+      if (!source || (source.ownerId && source.ownerId !== req.auth.userId)) {
+        return res.status(404).json({ message: "Source not found" });
+      }
+      res.json(await storage.setSourceSubscription(req.auth.userId, source.id, false));
+    } catch (error) {
+      console.error("Error unsubscribing from source:", error);
+      res.status(500).json({ message: "Failed to unsubscribe from source" });
+    }
+  });
+
+  // ======================
+  // WEBSUB CALLBACKS
+  // ======================
+  // Hubs confirm subscribe/unsubscribe requests here
+  app.get("/api/websub/:sourceId", async (req, res) => {
+    try {
+      const { status, body } = await verifyIntent(req.params.sourceId, req.query);
+      res.status(status).type("text/plain").send(body);
+    } catch (error) {
+      console.error("Error verifying WebSub intent:", error);
+      res.status(500).type("text/plain").send("Verification failed");
+    }
+  });
+
+  // Pushed feed content; the body arrives raw (see index.ts) so its signature can be checked
+  app.post("/api/websub/:sourceId", async (req, res) => {
+    try {
+      const source = await storage.getNewsSource(req.params.sourceId);
+      // 410 tells the hub to drop the subscription; only feeds we subscribed to accept pushes
+      if (!isWebSubEnabled() || !source || !hasSubscription(source) || source.enabled === false || source.type !== "rss") {
+        return res.sendStatus(410);
+      }
+
+      const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      // Per the spec, content with a bad signature is acknowledged but ignored
+      if (!verifyPushSignature(source, body, req.get("X-Hub-Signature"))) {
+        console.warn(`Ignoring WebSub push for ${source.name} with a missing or invalid signature`);
+        return res.sendStatus(202);
+      }
+
+      // Acknowledge first; hubs time out slow subscribers and retry
+      res.sendStatus(202);
+      newsService.ingestPushedFeed(source, body.toString("utf8"), req.get("Content-Type") ?? null).catch((error) => {
+        console.error(`Failed to ingest WebSub push for ${source.name}:`, error);
+      });
+    } catch (error) {
+      console.error("Error receiving WebSub push:", error);
+      res.sendStatus(500);
+    }
+  });
+
+  // ======================
+  // ADMIN: FEED HEALTH
+  // ======================
+  app.get("/api/admin/feeds/health", requireAuth(), requireAdmin, async (_req, res) => {
+    try {
+      res.json(await getFeedHealthReport());
+    } catch (error) {
+      console.error("Error building feed health report:", error);
+      res.status(500).json({ message: "Failed to build feed health report" });
+    }
+  });
+
+  // Re-enable a source after fixing its URL or waiting out an outage
+  app.post("/api/admin/feeds/:id/reset", requireAuth(), requireAdmin, async (req: any, res) => {
+    try {
+      const source = await resetFeedHealth(req.params.id);
+      if (!source) {
+        return res.status(404).json({ message: "Source not found" });
+      }
+      res.json(source);
+    } catch (error) {
+      console.error("Error resetting feed health:", error);
+      res.status(500).json({ message: "Failed to reset feed health" });
+    }
+  });
+
+  // ======================
+  // ADMIN: JOBS & INGESTION REPORTS
+  // ======================
+  app.get("/api/admin/jobs/runs", requireAuth(), requireAdmin, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 50, 200);
+      const jobName = typeof req.query.job === "string" ? req.query.job : undefined;
+      res.json(await storage.getJobRuns(limit, jobName));
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      res.status(500).json({ message: "Failed to fetch job runs" });
+    }
+  });
+
+  // Per-stage counts from fetch and curation runs, newest first
+  app.get("/api/admin/ingestion/reports", requireAuth(), requireAdmin, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+      res.json(await storage.getIngestionReports(limit));
+    } catch (error) {
+      console.error("Error fetching ingestion reports:", error);
+      res.status(500).json({ message: "Failed to fetch ingestion reports" });
+    }
+  });
+
+  app.get("/api/admin/ingestion/reports/:id", requireAuth(), requireAdmin, async (req: any, res) => {
+    try {
+      const report = await storage.getIngestionReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching ingestion report:", error);
+      res.status(500).json({ message: "Failed to fetch ingestion report" });
+    }
+  });
+
+  // ======================
+  // ADMIN: AI USAGE
+  // ======================
+  // Today's AI spend and remaining budget per capability
+  app.get("/api/admin/ai/usage", requireAuth(), requireAdmin, async (_req, res) => {
+    try {
+      res.json(await getAiUsageReport());
+    } catch (error) {
+      console.error("Error building AI usage report:", error);
+      res.status(500).json({ message: "Failed to build AI usage report" });
+    }
+  });
+
   // ======================
   // PREFERENCES
   // ======================
   app.get("/api/preferences", async (req: any, res) => {
-    const { userId } = getAuth(req);
-    res.json(await storage.getUserPreferences(userId || undefined));
+    try {
+      const { userId } = getAuth(req);
+      res.json(await storage.getUserPreferences(userId || undefined));
+    } catch (error) {
+      console.error("Error fetching preferences:", error);
+      res.status(500).json({ message: "Failed to fetch preferences" });
+    }
   });
 
   app.put("/api/preferences", async (req: any, res) => {
-    const { userId } = getAuth(req);
-    res.json(await storage.updateUserPreferences(req.body, userId || undefined));
+    try {
+      const { userId } = getAuth(req);
+      const parsed = updateUserPreferencesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid preferences", errors: parsed.error.flatten() });
+      }
+      res.json(await storage.updateUserPreferences(parsed.data, userId || undefined));
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
+  // ======================
+  // ENTITIES (follows and mutes are per-user)
+  // ======================
+  // People, organizations, places and products mentioned by the most articles lately
+  app.get("/api/entities/trending", async (req: any, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 7, 1), 30);
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+      const type = ENTITY_TYPES.find((entityType) => entityType === req.query.type);
+      if (req.query.type !== undefined && !type) {
+        return res.status(400).json({ message: `Entity type must be one of: ${ENTITY_TYPES.join(", ")}` });
+      }
+      res.json(await getTrendingEntities(days, limit, type));
+    } catch (error) {
+      console.error("Error fetching trending entities:", error);
+      res.status(500).json({ message: "Failed to fetch trending entities" });
+    }
+  });
+
+  app.get("/api/entities/preferences", requireAuth(), async (req: any, res) => {
+    try {
+      res.json(await storage.getEntityPreferences(req.auth.userId));
+    } catch (error) {
+      console.error("Error fetching entity preferences:", error);
+      res.status(500).json({ message: "Failed to fetch entity preferences" });
+    }
+  });
+
+  // Follow or mute an entity; replaces an earlier follow or mute of the same one
+  app.put("/api/entities/preferences", requireAuth(), async (req: any, res) => {
+    const parsed = insertUserEntityPreferenceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid entity preference", errors: parsed.error.flatten() });
+    }
+    const key = entityKey(parsed.data.name);
+    if (!key) {
+      return res.status(400).json({ message: "Entity name has no letters or digits" });
+    }
+
+    try {
+      res.json(await storage.setEntityPreference(req.auth.userId, { ...parsed.data, key }));
+    } catch (error) {
+      console.error("Error saving entity preference:", error);
+      res.status(500).json({ message: "Failed to save entity preference" });
+    }
+  });
+
+  app.delete("/api/entities/preferences/:id", requireAuth(), async (req: any, res) => {
+    try {
+      const ok = await storage.deleteEntityPreference(req.params.id, req.auth.userId);
+      if (!ok) {
+        return res.status(404).json({ message: "Entity preference not found" });
+      }
+      res.json({ success: true, id: req.params.id });
+    } catch (error) {
+      console.error("Error deleting entity preference:", error);
+      res.status(500).json({ message: "Failed to delete entity preference" });
+    }
   });
 
   // ======================
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import type { NewsSource } from "@shared/schema";
+import type { FeedFetcher } from "../feedFetcher";
+import { HackerNewsAdapter, parseHackerNewsList } from "./hackerNewsAdapter";
+
+const fixture = (name: string) =>
+  readFileSync(path.join(import.meta.dirname, "..", "__fixtures__", "adapters", name), "utf8");
+
+const source = {
+  id: "hn-top",
+  name: "Hacker News",
+  url: "https://hacker-news.firebaseio.com/v0/topstories.json",
+  category: "Technology",
+  fullTextEnabled: true,
+  etag: null,
+  lastModified: null,
+} as NewsSource;
+
+// Serves the recorded list and items by URL
+const recordedFetcher: FeedFetcher = async (url) => {
+  const name = url.endsWith("topstories.json") ? "hn-topstories.json" : `hn-item-${url.match(/item\/(\d+)\.json$/)![1]}.json`;
+  return {
+    status: "ok",
+    body: fixture(name),
+    contentType: "application/json",
+    validators: { etag: null, lastModified: null },
+    linkHeader: null,
+  };
+};
+
+describe("HackerNewsAdapter", () => {
+  it("parses a list endpoint into ids", () => {
+    assert.deepEqual(parseHackerNewsList(fixture("hn-topstories.json")), [40312001, 40312002, 40312003, 40312004]);
+    assert.throws(() => parseHackerNewsList('{"error": "nope"}'), /not an array/);
+  });
+
+  it("keeps live link stories and normalizes them", async () => {
+    const result = await new HackerNewsAdapter(recordedFetcher).fetchStories(source);
+    assert.equal(result.status, "ok");
+    if (result.status !== "ok") return;
+
+    assert.equal(result.itemCount, 4);
+    // Ask HN (no url) and the dead story are dropped
+    assert.deepEqual(result.items.map((item) => item.link), [
+      "https://openinsulin.example.org/news/clinical-milestone",
+      "https://fountains.example.net/",
+    ]);
+
+    const [story] = result.items;
+    assert.equal(story.title, "Open-source insulin project reaches first clinical milestone");
+    assert.equal(story.author, "dang_fan");
+    assert.equal(story.pubDate.toISOString(), "2024-05-14T08:50:00.000Z");
+    assert.equal(story.pubDateEstimated, false);
+    assert.equal(story.description, "");
+    assert.equal(story.source, "Hacker News");
+    assert.equal(story.sourceId, "hn-top");
+    assert.equal(story.category, "Technology");
+    assert.equal(story.extractFullText, true);
+  });
+
+  it("passes a not-modified list through without fetching items", async () => {
+    const requested: string[] = [];
+    const adapter = new HackerNewsAdapter(async (url) => {
+      requested.push(url);
+      return { status: "not_modified" };
+    });
+    assert.deepEqual(await adapter.fetchStories(source), { status: "not_modified" });
+    assert.deepEqual(requested, [source.url]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { NewsSource } from "@shared/schema";
+import { getAllSources } from "../sourceService";
+import { fetchFeed, type FeedFetcher } from "../feedFetcher";
+import { parsePublishedDate } from "../dateParser";
+import type { ParsedSourceItem, SourceAdapter, SourceFetchResult } from "./types";
+import {
+  pollSources,
+  selectRecentItems,
+  enrichWithFullText,
+  toSourceItem,
+  ITEMS_PER_SOURCE,
+  type SourcePollResult,
+} from "./sourcePolling";
+
+/**
+ * Hacker News via the Firebase API. A source URL is a story list such as
+ * https://hacker-news.firebaseio.com/v0/topstories.json; the top
+ * ITEMS_PER_SOURCE ids are fetched one item at a time. Only link stories are
+ * kept, and since HN has no text for them, summary and body come from full-text
+ * extraction of the linked page (items it can't extract are dropped later).
+ */
+
+export interface HackerNewsItem {
+  id: number;
+  type?: string;
+  by?: string;
+  time?: number; // unix seconds
+  title?: string;
+  url?: string;
+  score?: number;
+  dead?: boolean;
+  deleted?: boolean;
+}
+
+// Story ids from a list endpoint, in rank order
+export function parseHackerNewsList(body: string): number[] {
+  const ids: unknown = JSON.parse(body);
+  if (!Array.isArray(ids)) throw new Error("Hacker News list is not an array of ids");
+  return ids.filter((id): id is number => typeof id === "number");
+}
+
+// null for anything but a live story that links out (Ask HN, jobs, polls, deleted items)
+export function parseHackerNewsItem(
+  item: HackerNewsItem | null,
+  source: NewsSource,
+  fetchedAt: Date = new Date()
+): ParsedSourceItem | null {
+  if (!item || item.type !== "story" || item.dead || item.deleted || !item.title || !item.url) {
+    return null;
+  }
+
+  const published = parsePublishedDate(item.time ? String(item.time) : null, fetchedAt);
+  return {
+    title: item.title,
+    description: "",
+    content: "",
+    link: item.url,
+    canonicalUrl: null,
+    pubDate: published.date,
+    pubDateEstimated: published.estimated,
+    author: item.by ?? null,
+    imageUrl: null,
+    source: source.name,
+    sourceId: source.id,
+    category: source.category,
+    extractFullText: source.fullTextEnabled !== false,
+  };
+}
+
+export class HackerNewsAdapter implements SourceAdapter {
+  readonly name = "hackernews";
+  readonly role = "primary";
+  readonly analyzeWithAI = false;
+
+  constructor(private readonly fetcher: FeedFetcher = fetchFeed) {}
+
+  async fetch(): Promise<SourceFetchResult> {
+    const sources = (await getAllSources()).filter(
+      (source) => source.type === "hackernews" && source.enabled !== false
+    );
+    if (sources.length === 0) return { items: [], sources: [], fetched: 0 };
+
+    const polled = await pollSources(sources, "Hacker News list", (source) => this.fetchStories(source));
+    const recentItems = selectRecentItems(
+      polled.items.filter((item) => item.title.length > 10),
+      polled.sources
+    );
+    const enrichedItems = await enrichWithFullText(recentItems);
+
+    return {
+      items: enrichedItems.map(toSourceItem),
+      sources: polled.sources,
+      fetched: polled.items.length,
+    };
+  }
+
+  // One list source: the list, then each of its top stories
+  async fetchStories(source: NewsSource): Promise<SourcePollResult> {
+    const list = await this.fetcher(source.url, { etag: source.etag, lastModified: source.lastModified });
+    if (list.status === "not_modified") return list;
+
+    const ids = parseHackerNewsList(list.body).slice(0, ITEMS_PER_SOURCE);
+    const fetchedAt = new Date();
+
+    // A missing item shouldn't fail the whole list
+    const items = await Promise.all(
+      ids.map(async (id) => {
+        try {
+          const result = await this.fetcher(new URL(`item/${id}.json`, source.url).toString(), {
+            etag: null,
+            lastModified: null,
+          });
+          if (result.status === "not_modified") return null;
+          return parseHackerNewsItem(JSON.parse(result.body), source, fetchedAt);
+        } catch (error) {
+          console.log(`Hacker News item ${id} fetch failed, skipping`);
+          return null;
+        }
+      })
+    );
+
+    return {
+      status: "ok",
+      items: items.filter((item): item is ParsedSourceItem => item !== null),
+      itemCount: ids.length,
+      validators: list.validators,
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  NewsAPIAdapter,
+  buildNewsAPIQueries,
+  parseNewsAPIResponse,
+  rankInterestTerms,
+  topicSearchTerms,
+} from "./newsApiAdapter";
+
+const fixture = (name: string) =>
+  readFileSync(path.join(import.meta.dirname, "..", "__fixtures__", "adapters", name), "utf8");
+
+const recordedResponse = (name: string, status = 200) =>
+  new Response(fixture(name), { status, headers: { "Content-Type": "application/json" } });
+
+const noUsage = async () => undefined;
+
+describe("NewsAPIAdapter", () => {
+  it("ranks terms by the number of users asking for them", () => {
+    const ranked = rankInterestTerms([
+      { term: "Solar Power", userId: "a" },
+      { term: "markets", userId: "a" },
+      { term: "solar  power", userId: "b" },
+      { term: "markets", userId: "a" }, // the same user twice counts once
+      { term: "Ada Lovelace", userId: "c" },
+    ]);
+    assert.deepEqual(ranked, ["solar power", "ada lovelace", "markets"]);
+  });
+
+  it("turns followed topics into search terms from their labels", () => {
+    assert.deepEqual(topicSearchTerms("finance/markets"), ["Markets", "Investing"]);
+    assert.deepEqual(topicSearchTerms("science"), ["Science"]);
+    assert.deepEqual(topicSearchTerms("general"), []);
+    assert.deepEqual(topicSearchTerms("not-a-topic"), []);
+  });
+
+  it("builds OR queries with NOT exclusions, dropping blocked interests", () => {
+    assert.deepEqual(buildNewsAPIQueries(["solar power", "science", "war"], ["war", "crime"]), [
+      { label: '"solar power" OR science', q: '("solar power" OR science) NOT war NOT crime' },
+    ]);
+  });
+
+  it("normalizes a recorded page, dropping articles without text", () => {
+    const fetchedAt = new Date("2024-05-14T12:00:00Z");
+    const items = parseNewsAPIResponse(JSON.parse(fixture("newsapi-everything.json")), "science", fetchedAt);
+    assert.equal(items.length, 2);
+
+    const [battery, solar] = items;
+    assert.equal(battery.title, "New battery chemistry doubles the range of electric buses");
+    assert.equal(battery.summary, "Researchers report a sodium-based cell that lasts twice as long.");
+    assert.equal(battery.source, "Example Science Daily");
+    assert.equal(battery.url, "https://sciencedaily.example.com/battery-buses");
+    assert.equal(battery.imageUrl, "https://sciencedaily.example.com/img/bus.jpg");
+    assert.equal(battery.category, null);
+    assert.equal(battery.readTime, 1);
+    assert.equal(battery.publishedAt.toISOString(), "2024-05-14T10:00:00.000Z");
+    assert.equal(battery.publishedAtEstimated, false);
+    assert.equal(battery.sourceQuery, "science");
+
+    // An unparseable date falls back to the fetch time, flagged
+    assert.equal(solar.publishedAt.getTime(), fetchedAt.getTime());
+    assert.equal(solar.publishedAtEstimated, true);
+  });
+
+  it("runs each query through the injected fetch and credits overlapping results once", async () => {
+    const requested: string[] = [];
+    const adapter = new NewsAPIAdapter(async (input) => {
+      requested.push(String(input));
+      return recordedResponse("newsapi-everything.json");
+    });
+    const queries = buildNewsAPIQueries(["science", "solar"], []).concat(buildNewsAPIQueries(["health"], []));
+
+    let recorded = 0;
+    const { items, fetched } = await adapter.runQueries(queries, 10, async (requests) => {
+      recorded = requests;
+    });
+    assert.equal(requested.length, 2);
+    assert.match(requested[0], /[?&]q=\(science%20OR%20solar\)&/);
+    assert.equal(recorded, 2);
+    assert.equal(fetched, 6);
+    assert.deepEqual(items.map((item) => item.sourceQuery), ["science OR solar", "science OR solar"]);
+  });
+
+  it("stops at the budget and on a rate limit", async () => {
+    const twoQueries = [...buildNewsAPIQueries(["science"], []), ...buildNewsAPIQueries(["health"], [])];
+
+    let calls = 0;
+    const limited = new NewsAPIAdapter(async () => {
+      calls++;
+      return recordedResponse("newsapi-rate-limited.json", 429);
+    });
+    assert.deepEqual(await limited.runQueries(twoQueries, 10, noUsage), { items: [], fetched: 0 });
+    assert.equal(calls, 1);
+
+    calls = 0;
+    const ok = new NewsAPIAdapter(async () => {
+      calls++;
+      return recordedResponse("newsapi-everything.json");
+    });
+    await ok.runQueries(twoQueries, 1, noUsage);
+    assert.equal(calls, 1);
+  });
+
+  it("records the requests spent when a request throws", async () => {
+    let recorded = 0;
+    const adapter = new NewsAPIAdapter(async () => {
+      throw new Error("network down");
+    });
+    await assert.rejects(
+      adapter.runQueries(buildNewsAPIQueries(["science"], []), 5, async (requests) => {
+        recorded = requests;
+      }),
+      /network down/
+    );
+    assert.equal(recorded, 1);
+  });
+});
@@ -0,0 +1,268 @@
+import { storage } from "../../storage";
+import type { Keyword } from "@shared/schema";
+import { GENERAL_TOPIC, getTopic } from "@shared/topics";
+import { parsePublishedDate } from "../dateParser";
+import type { SourceAdapter, SourceFetchResult, SourceItem } from "./types";
+
+/**
+ * NewsAPI /v2/everything search, used as a supplement when the primary
+ * adapters stored too few articles. Queries are built from what users asked
+ * for more of: prioritized keywords, followed topics and followed entities,
+ * most widely shared first. Blocked keywords are sent as NOT exclusions, and
+ * queries are paged round-robin until the run's request budget is spent.
+ * Without an API key the adapter is skipped. Results carry no category, so
+ * NewsService uses the label of the primary topic's root in the taxonomy.
+ */
+
+const NEWS_API_KEY = process.env.NEWS_API_KEY || process.env.VITE_NEWS_API_KEY;
+const NEWS_API_REQUESTS_PER_RUN = parseInt(process.env.NEWS_API_REQUESTS_PER_RUN || "12", 10);
+const NEWS_API_DAILY_REQUESTS = parseInt(process.env.NEWS_API_DAILY_REQUESTS || "100", 10); // developer plan quota
+const NEWS_API_PAGE_SIZE = parseInt(process.env.NEWS_API_PAGE_SIZE || "20", 10); // at most 100
+
+const USAGE_PROVIDER = "newsapi";
+const MAX_RESULTS_PER_QUERY = 100; // developer plan: later pages fail with maximumResultsReached
+const MAX_QUERY_LENGTH = 500; // NewsAPI's limit for q
+const MAX_EXCLUSIONS_LENGTH = 200; // leaves the rest of q for interests
+const TERMS_PER_QUERY = 5;
+
+// Used until someone prioritizes a keyword or follows a topic or entity; deliberately not "breaking news"
+const DEFAULT_INTERESTS = ["science", "innovation", "technology", "space", "renewable energy", "health research", "travel", "food"];
+
+export interface NewsAPIQuery {
+  label: string; // the interest terms, recorded as each article's sourceQuery
+  q: string; // label plus exclusions, as sent
+}
+
+// A search term one user asked for
+export interface InterestVote {
+  term: string;
+  userId: string;
+}
+
+// Distinct terms, most users first
+export function rankInterestTerms(votes: InterestVote[]): string[] {
+  const users = new Map<string, Set<string>>();
+  for (const vote of votes) {
+    const term = vote.term.toLowerCase().replace(/\s+/g, " ").trim();
+    if (!term) continue;
+    const termUsers = users.get(term) ?? new Set<string>();
+    termUsers.add(vote.userId);
+    users.set(term, termUsers);
+  }
+
+  return Array.from(users.entries())
+    .sort(([termA, a], [termB, b]) => b.size - a.size || termA.localeCompare(termB))
+    .map(([term]) => term);
+}
+
+export function rankKeywordTerms(keywords: Keyword[]): string[] {
+  return rankInterestTerms(keywords.map((keyword) => ({ term: keyword.keyword, userId: keyword.userId })));
+}
+
+// Search terms for a taxonomy topic, from its label ("Markets & Investing" -> markets, investing)
+export function topicSearchTerms(topicId: string): string[] {
+  const topic = getTopic(topicId);
+  if (!topic || topic.id === GENERAL_TOPIC) return [];
+  return topic.label.split("&").map((term) => term.trim()).filter(Boolean);
+}
+
+// Phrases are quoted; characters NewsAPI reads as operators are dropped
+function formatTerm(term: string): string {
+  const cleaned = term.replace(/["()+\-]/g, " ").replace(/\s+/g, " ").trim();
+  return cleaned.includes(" ") ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Group interests into OR queries of up to TERMS_PER_QUERY terms, each
+ * carrying the highest-ranked exclusions that fit. Interests that are also
+ * blocked are dropped.
+ */
+export function buildNewsAPIQueries(interests: string[], blocked: string[]): NewsAPIQuery[] {
+  const blockedTerms = new Set(blocked);
+
+  let exclusions = "";
+  for (const term of blocked) {
+    const formatted = formatTerm(term);
+    if (!formatted) continue;
+    const next = `${exclusions} NOT ${formatted}`;
+    if (next.length > MAX_EXCLUSIONS_LENGTH) break;
+    exclusions = next;
+  }
+
+  const queries: NewsAPIQuery[] = [];
+  let group: string[] = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    const label = group.join(" OR ");
+    queries.push({ label, q: `(${label})${exclusions}` });
+    group = [];
+  };
+
+  for (const term of interests) {
+    const formatted = formatTerm(term);
+    if (!formatted || blockedTerms.has(term)) continue;
+
+    const candidate = [...group, formatted];
+    if (candidate.length > TERMS_PER_QUERY || `(${candidate.join(" OR ")})${exclusions}`.length > MAX_QUERY_LENGTH) {
+      flush();
+      group = [formatted];
+    } else {
+      group = candidate;
+    }
+  }
+  flush();
+
+  return queries;
+}
+
+export interface NewsAPIArticle {
+  title: string;
+  description: string;
+  content: string;
+  source: { name: string };
+  url: string;
+  urlToImage: string;
+  publishedAt: string;
+}
+
+export interface NewsAPIResponse {
+  status: string; // "ok" or "error"
+  code?: string; // on errors, e.g. "rateLimited", "maximumResultsReached"
+  message?: string;
+  totalResults?: number;
+  articles?: NewsAPIArticle[];
+}
+
+// Map one /v2/everything page; articles missing a title, description or content are dropped
+export function parseNewsAPIResponse(
+  data: NewsAPIResponse,
+  query: string,
+  fetchedAt: Date = new Date()
+): SourceItem[] {
+  return (data.articles ?? [])
+    .filter((article) => article.title && article.description && article.content)
+    .map((article) => {
+      const wordCount = article.content.split(" ").length;
+      const published = parsePublishedDate(article.publishedAt, fetchedAt);
+
+      return {
+        title: article.title,
+        summary: article.description,
+        content: article.content,
+        source: article.source.name,
+        url: article.url,
+        imageUrl: article.urlToImage,
+        category: null,
+        readTime: Math.ceil(wordCount / 200),
+        publishedAt: published.date,
+        publishedAtEstimated: published.estimated,
+        sourceQuery: query,
+      };
+    });
+}
+
+export interface NewsAPIRunResult {
+  items: SourceItem[];
+  fetched: number;
+}
+
+export class NewsAPIAdapter implements SourceAdapter {
+  readonly name = "newsapi";
+  readonly role = "supplement";
+  readonly analyzeWithAI = true;
+
+  constructor(private readonly fetcher: typeof fetch = fetch) {}
+
+  async fetch(): Promise<SourceFetchResult> {
+    if (!NEWS_API_KEY) {
+      console.log("NEWS_API_KEY is not set, skipping NewsAPI");
+      return { items: [], sources: [], fetched: 0 };
+    }
+
+    const day = new Date().toISOString().slice(0, 10);
+    const usedToday = await storage.getApiUsage(USAGE_PROVIDER, day);
+    const budget = Math.min(NEWS_API_REQUESTS_PER_RUN, NEWS_API_DAILY_REQUESTS - usedToday);
+    if (budget <= 0) {
+      console.log(`NewsAPI daily budget of ${NEWS_API_DAILY_REQUESTS} requests spent, skipping`);
+      return { items: [], sources: [], fetched: 0 };
+    }
+
+    const { items, fetched } = await this.runQueries(await this.buildQueries(), budget, async (requests) => {
+      await storage.addApiUsage(USAGE_PROVIDER, day, requests);
+      console.log(`NewsAPI: ${requests} requests (${usedToday + requests} of ${NEWS_API_DAILY_REQUESTS} today)`);
+    });
+    console.log(`NewsAPI: ${items.length} articles`);
+    return { items, sources: [], fetched };
+  }
+
+  /**
+   * Page through the queries, first pages of every query before anyone's
+   * second page, until budget requests are spent. recordRequests gets the
+   * number sent, even when a request throws.
+   */
+  async runQueries(
+    queries: NewsAPIQuery[],
+    budget: number,
+    recordRequests: (requests: number) => Promise<void>
+  ): Promise<NewsAPIRunResult> {
+    const pending = queries.map((query) => ({ query, page: 1 }));
+    const items: SourceItem[] = [];
+    const seenUrls = new Set<string>();
+    let fetched = 0;
+    let requests = 0;
+
+    try {
+      while (pending.length > 0 && requests < budget) {
+        const { query, page } = pending.shift()!;
+        requests++;
+
+        const response = await this.fetcher(
+          `https://newsapi.org/v2/everything?q=${encodeURIComponent(query.q)}` +
+            `&language=en&sortBy=publishedAt&pageSize=${NEWS_API_PAGE_SIZE}&page=${page}&apiKey=${NEWS_API_KEY}`
+        );
+        const data: NewsAPIResponse | null = await response.json().catch(() => null);
+
+        if (!response.ok || data?.status !== "ok") {
+          console.log(`NewsAPI query "${query.label}" page ${page} failed: ${data?.message ?? `status ${response.status}`}`);
+          // A bad key or exhausted quota fails every remaining request too
+          if (response.status === 401 || response.status === 429) break;
+          continue;
+        }
+
+        const articles = data.articles ?? [];
+        fetched += articles.length;
+        for (const item of parseNewsAPIResponse(data, query.label)) {
+          // Overlapping queries return the same article; credit the first
+          if (seenUrls.has(item.url)) continue;
+          seenUrls.add(item.url);
+          items.push(item);
+        }
+
+        const available = Math.min(data.totalResults ?? 0, MAX_RESULTS_PER_QUERY);
+        if (articles.length === NEWS_API_PAGE_SIZE && page * NEWS_API_PAGE_SIZE < available) {
+          pending.push({ query, page: page + 1 });
+        }
+      }
+    } finally {
+      if (requests > 0) await recordRequests(requests);
+    }
+
+    return { items, fetched };
+  }
+
+  private async buildQueries(): Promise<NewsAPIQuery[]> {
+    const [prioritized, blocked, topicFollows, entityFollows] = await Promise.all([
+      storage.getKeywordsByType("prioritized"),
+      storage.getKeywordsByType("blocked"),
+      storage.getFollowedTopics(),
+      storage.getEntityFollows(),
+    ]);
+
+    const interests = rankInterestTerms([
+      ...prioritized.map((keyword) => ({ term: keyword.keyword, userId: keyword.userId })),
+      ...topicFollows.flatMap(({ userId, topicId }) => topicSearchTerms(topicId).map((term) => ({ term, userId }))),
+      ...entityFollows.map((follow) => ({ term: follow.name, userId: follow.userId })),
+    ]);
+    return buildNewsAPIQueries(interests.length > 0 ? interests : DEFAULT_INTERESTS, rankKeywordTerms(blocked));
+  }
+}
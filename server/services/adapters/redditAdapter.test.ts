@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import type { NewsSource } from "@shared/schema";
+import { RedditAdapter, parseRedditListing, toListingUrl, type RedditListing } from "./redditAdapter";
+
+const fixture = (name: string) =>
+  readFileSync(path.join(import.meta.dirname, "..", "__fixtures__", "adapters", name), "utf8");
+
+const source = {
+  id: "r-uplifting",
+  name: "r/UpliftingNews",
+  url: "https://www.reddit.com/r/UpliftingNews/",
+  category: "Community",
+  fullTextEnabled: true,
+  etag: "\"abc\"",
+  lastModified: null,
+} as NewsSource;
+
+describe("RedditAdapter", () => {
+  it("polls the .json listing for a subreddit URL", () => {
+    assert.equal(toListingUrl("https://www.reddit.com/r/UpliftingNews/"), "https://www.reddit.com/r/UpliftingNews.json");
+    assert.equal(toListingUrl("https://www.reddit.com/r/science/top.json?t=day"), "https://www.reddit.com/r/science/top.json?t=day");
+  });
+
+  it("normalizes link and self posts and skips stickied and removed ones", async () => {
+    let requested: { url: string; etag: string | null } | null = null;
+    const adapter = new RedditAdapter(async (url, validators) => {
+      requested = { url, etag: validators.etag };
+      return {
+        status: "ok",
+        body: fixture("reddit-listing.json"),
+        contentType: "application/json",
+        validators: { etag: "\"def\"", lastModified: null },
+        linkHeader: null,
+      };
+    });
+
+    const result = await adapter.fetchListing(source);
+    assert.deepEqual(requested, { url: "https://www.reddit.com/r/UpliftingNews.json", etag: "\"abc\"" });
+    assert.equal(result.status, "ok");
+    if (result.status !== "ok") return;
+    assert.deepEqual(result.validators, { etag: "\"def\"", lastModified: null });
+    assert.equal(result.items.length, 2);
+
+    const [link, self] = result.items;
+    assert.equal(link.title, "Town turns abandoned rail line into a 20-mile bike path & park");
+    assert.equal(link.link, "https://localnews.example.com/2024/05/rail-trail");
+    assert.equal(link.canonicalUrl, null); // resolved later, like any outside link
+    assert.equal(link.author, "u/trailfan");
+    assert.equal(link.imageUrl, "https://preview.redd.it/railtrail.jpg?width=1200&format=pjpg&s=abc123");
+    assert.equal(link.pubDate.toISOString(), "2024-05-14T08:40:00.000Z");
+    assert.equal(link.extractFullText, true);
+
+    const thread = "https://www.reddit.com/r/UpliftingNews/comments/1cs0003/my_neighbour_fixed_100_bikes/";
+    assert.equal(self.link, thread);
+    assert.equal(self.canonicalUrl, thread);
+    assert.equal(self.content, "He set up a stand in his driveway and asked for nothing in return.");
+    assert.equal(self.description, self.content);
+    assert.equal(self.author, null); // [deleted]
+    assert.equal(self.extractFullText, false);
+  });
+
+  it("rejects a response that isn't a listing", () => {
+    assert.throws(() => parseRedditListing({ kind: "t3" } as unknown as RedditListing, source), /not a listing/);
+  });
+});
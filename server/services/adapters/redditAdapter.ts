@@ -0,0 +1,159 @@
+import type { NewsSource } from "@shared/schema";
+import { getAllSources } from "../sourceService";
+import { fetchFeed, type FeedFetcher } from "../feedFetcher";
+import { parsePublishedDate } from "../dateParser";
+import { pickLeadImage, toDimension, type ImageCandidate } from "../leadImage";
+import type { ParsedSourceItem, SourceAdapter, SourceFetchResult } from "./types";
+import {
+  pollSources,
+  selectRecentItems,
+  enrichWithFullText,
+  truncateSummary,
+  toSourceItem,
+  ITEMS_PER_SOURCE,
+  type SourcePollResult,
+} from "./sourcePolling";
+
+/**
+ * Subreddit listings via Reddit's .json endpoints. A source URL is a
+ * subreddit page (https://www.reddit.com/r/science, or a sorted listing
+ * like /r/science/top); ".json" is appended when polling. Stickied and NSFW
+ * posts are skipped. Link posts point at the linked article, self posts at
+ * their Reddit thread.
+ */
+
+const REDDIT_ORIGIN = "https://www.reddit.com";
+
+interface RedditImageSource {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+export interface RedditPost {
+  title: string;
+  url?: string;
+  permalink: string;
+  is_self?: boolean;
+  selftext?: string;
+  author?: string;
+  created_utc?: number; // unix seconds
+  stickied?: boolean;
+  over_18?: boolean;
+  removed_by_category?: string | null;
+  preview?: { images?: Array<{ source?: RedditImageSource }> };
+}
+
+export interface RedditListing {
+  kind: string;
+  data: { children: Array<{ kind: string; data: RedditPost }> };
+}
+
+// The listing endpoint for a subreddit page URL
+export function toListingUrl(url: string): string {
+  const parsed = new URL(url);
+  if (!parsed.pathname.endsWith(".json")) {
+    parsed.pathname = `${parsed.pathname.replace(/\/+$/, "")}.json`;
+  }
+  return parsed.toString();
+}
+
+// Reddit HTML-escapes preview URLs inside its JSON
+function decodeEntities(value: string): string {
+  return value.replace(/&amp;/g, "&");
+}
+
+function toImageCandidates(post: RedditPost): ImageCandidate[] {
+  return (post.preview?.images ?? [])
+    .map((image) => image.source)
+    .filter((source): source is RedditImageSource => !!source?.url)
+    .map((source) => ({
+      url: decodeEntities(source.url),
+      width: toDimension(source.width),
+      height: toDimension(source.height),
+    }));
+}
+
+export function parseRedditListing(
+  listing: RedditListing,
+  source: NewsSource,
+  fetchedAt: Date = new Date()
+): ParsedSourceItem[] {
+  if (listing?.kind !== "Listing" || !Array.isArray(listing.data?.children)) {
+    throw new Error("Reddit response is not a listing");
+  }
+
+  return listing.data.children
+    .filter((child) => child.kind === "t3")
+    .map((child) => child.data)
+    .filter((post) => post.title && !post.stickied && !post.over_18 && !post.removed_by_category)
+    .map((post) => {
+      const thread = `${REDDIT_ORIGIN}${post.permalink}`;
+      const link = post.is_self || !post.url ? thread : post.url;
+      const selftext = (post.selftext ?? "").replace(/\s+/g, " ").trim();
+      const published = parsePublishedDate(post.created_utc ? String(Math.floor(post.created_utc)) : null, fetchedAt);
+
+      return {
+        title: decodeEntities(post.title),
+        description: truncateSummary(selftext),
+        content: selftext,
+        link,
+        // Self posts need no resolving; the permalink is the canonical thread URL
+        canonicalUrl: link === thread ? thread : null,
+        pubDate: published.date,
+        pubDateEstimated: published.estimated,
+        author: post.author && post.author !== "[deleted]" ? `u/${post.author}` : null,
+        imageUrl: pickLeadImage(toImageCandidates(post), link),
+        source: source.name,
+        sourceId: source.id,
+        category: source.category,
+        // Self posts are already complete; the thread page has nothing more to extract
+        extractFullText: source.fullTextEnabled !== false && link !== thread,
+      };
+    });
+}
+
+export class RedditAdapter implements SourceAdapter {
+  readonly name = "reddit";
+  readonly role = "primary";
+  readonly analyzeWithAI = false;
+
+  constructor(private readonly fetcher: FeedFetcher = fetchFeed) {}
+
+  async fetch(): Promise<SourceFetchResult> {
+    const sources = (await getAllSources()).filter(
+      (source) => source.type === "reddit" && source.enabled !== false
+    );
+    if (sources.length === 0) return { items: [], sources: [], fetched: 0 };
+
+    const polled = await pollSources(sources, "subreddit", (source) => this.fetchListing(source));
+    const recentItems = selectRecentItems(
+      polled.items.filter((item) => item.title.length > 10),
+      polled.sources
+    );
+    const enrichedItems = await enrichWithFullText(recentItems);
+
+    return {
+      items: enrichedItems.map(toSourceItem),
+      sources: polled.sources,
+      fetched: polled.items.length,
+    };
+  }
+
+  // One subreddit source
+  async fetchListing(source: NewsSource): Promise<SourcePollResult> {
+    const result = await this.fetcher(toListingUrl(source.url), {
+      etag: source.etag,
+      lastModified: source.lastModified,
+    });
+    if (result.status === "not_modified") return result;
+
+    const posts = parseRedditListing(JSON.parse(result.body), source);
+    return {
+      status: "ok",
+      items: posts.slice(0, ITEMS_PER_SOURCE),
+      itemCount: posts.length,
+      validators: result.validators,
+    };
+  }
+}
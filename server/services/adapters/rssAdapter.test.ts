@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import type { NewsSource } from "@shared/schema";
+import { RSSAdapter } from "./rssAdapter";
+
+const fixture = (name: string) =>
+  readFileSync(path.join(import.meta.dirname, "..", "__fixtures__", "feeds", name), "utf8");
+
+const feed = {
+  id: "example-good-news",
+  name: "Example Good News",
+  url: "https://news.example.com/feed.xml",
+  type: "rss",
+  category: "Community",
+  fullTextEnabled: false,
+  etag: null,
+  lastModified: "Mon, 13 May 2024 00:00:00 GMT",
+} as NewsSource;
+
+describe("RSSAdapter", () => {
+  it("normalizes feed entries into source items", async () => {
+    const adapter = new RSSAdapter(async () => ({
+      status: "ok",
+      body: fixture("rss2.xml"),
+      contentType: "application/rss+xml; charset=utf-8",
+      validators: { etag: "W/\"42\"", lastModified: null },
+      linkHeader: null,
+    }));
+
+    const result = await adapter.fetchFeedItems(feed);
+    assert.equal(result.status, "ok");
+    if (result.status !== "ok") return;
+    assert.equal(result.itemCount, 2);
+    assert.deepEqual(result.validators, { etag: "W/\"42\"", lastModified: null });
+
+    const [bridge, library] = result.items;
+    assert.equal(bridge.title, "Volunteers restore a century-old footbridge");
+    assert.equal(bridge.link, "https://news.example.com/2024/05/footbridge?utm_source=rss");
+    assert.equal(bridge.description, "A group of neighbours spent a year rebuilding the bridge.");
+    assert.match(bridge.content, /^A group of neighbours spent a year rebuilding the bridge\./);
+    assert.doesNotMatch(bridge.content, /</);
+    assert.equal(bridge.pubDate.toISOString(), "2024-05-14T09:30:00.000Z");
+    assert.equal(bridge.pubDateEstimated, false);
+    assert.equal(bridge.author, "Sam Rivera");
+    assert.equal(bridge.imageUrl, "https://news.example.com/img/bridge.jpg");
+    assert.equal(bridge.canonicalUrl, null);
+    assert.equal(bridge.source, "Example Good News");
+    assert.equal(bridge.sourceId, "example-good-news");
+    assert.equal(bridge.category, "Community");
+    assert.equal(bridge.extractFullText, false); // the source opted out
+
+    assert.equal(library.pubDate.toISOString(), "2024-05-13T18:00:00.000Z");
+    assert.equal(library.imageUrl, "https://news.example.com/img/library.png");
+  });
+
+  it("sends the stored validators and passes a 304 through", async () => {
+    let sent: unknown = null;
+    const adapter = new RSSAdapter(async (_url, validators) => {
+      sent = validators;
+      return { status: "not_modified" };
+    });
+    assert.deepEqual(await adapter.fetchFeedItems(feed), { status: "not_modified" });
+    assert.deepEqual(sent, { etag: null, lastModified: "Mon, 13 May 2024 00:00:00 GMT" });
+  });
+});
@@ -0,0 +1,129 @@
+import type { NewsSource, SourceIngestionStats } from "@shared/schema";
+import { getAllSources } from "../sourceService";
+import { fetchFeed, type FeedFetcher } from "../feedFetcher";
+import { parseFeed, type FeedEntry } from "../feedParser";
+import { pickLeadImage } from "../leadImage";
+import { parsePublishedDate } from "../dateParser";
+import { discoverWebSubLinks, ensureSubscription, isPollDue } from "../websubService";
+import type { ParsedSourceItem, SourceAdapter, SourceFetchResult } from "./types";
+import {
+  pollSources,
+  selectRecentItems,
+  enrichWithFullText,
+  htmlToText,
+  truncateSummary,
+  toSourceItem,
+  ITEMS_PER_SOURCE,
+  type SourcesPollOutcome,
+  type SourcePollResult,
+} from "./sourcePolling";
+
+export class RSSAdapter implements SourceAdapter {
+  readonly name = 'rss';
+  readonly role = 'primary';
+  readonly analyzeWithAI = false;
+
+  constructor(private readonly fetcher: FeedFetcher = fetchFeed) {}
+
+  async fetch(): Promise<SourceFetchResult> {
+    const { items: rssItems, sources } = await this.fetchAllFeeds();
+    return this.finishItems(rssItems, sources);
+  }
+
+  // A WebSub push carries a feed document (usually just the new entries) for one source
+  async parsePushedFeed(feed: NewsSource, body: string, contentType: string | null): Promise<SourceFetchResult> {
+    const { entries } = await parseFeed(body, contentType);
+    const stats: SourceIngestionStats = {
+      sourceId: feed.id,
+      name: feed.name,
+      status: 'ok',
+      error: null,
+      itemCount: entries.length,
+      selected: 0,
+      stored: 0,
+    };
+    return this.finishItems(this.toParsedItems(feed, entries), [stats]);
+  }
+
+  private async finishItems(rssItems: ParsedSourceItem[], sources: SourceIngestionStats[]): Promise<SourceFetchResult> {
+    // Filter out items without essential data, then keep the most recent
+    const recentItems = selectRecentItems(
+      rssItems
+        .filter(item => item.title && item.description && item.link)
+        .filter(item => item.title.length > 10 && item.description.length > 20),
+      sources
+    );
+
+    // Only the items we keep are worth fetching full text for
+    const enrichedItems = await enrichWithFullText(recentItems);
+
+    return {
+      items: enrichedItems.map(toSourceItem),
+      sources,
+      fetched: rssItems.length,
+    };
+  }
+
+  async fetchAllFeeds(): Promise<SourcesPollOutcome> {
+    // Feeds with a live WebSub subscription are pushed to us and only polled occasionally
+    const feeds = (await getAllSources()).filter(
+      source => source.type === 'rss' && source.enabled !== false && isPollDue(source)
+    );
+    return this.fetchFeeds(feeds);
+  }
+
+  fetchFeeds(feeds: NewsSource[]): Promise<SourcesPollOutcome> {
+    return pollSources(feeds, 'RSS feed', feed => this.fetchFeedItems(feed));
+  }
+
+  // One feed source
+  async fetchFeedItems(feed: NewsSource): Promise<SourcePollResult> {
+    const result = await this.fetcher(feed.url, { etag: feed.etag, lastModified: feed.lastModified });
+    if (result.status === 'not_modified') return result;
+
+    const { format, entries } = await parseFeed(result.body, result.contentType);
+    await ensureSubscription(feed, discoverWebSubLinks(result.body, format, result.linkHeader));
+
+    return {
+      status: 'ok',
+      items: this.toParsedItems(feed, entries),
+      itemCount: entries.length,
+      validators: result.validators,
+    };
+  }
+
+  private toParsedItems(feed: NewsSource, entries: FeedEntry[]): ParsedSourceItem[] {
+    const fetchedAt = new Date();
+    return entries.slice(0, ITEMS_PER_SOURCE).map((entry): ParsedSourceItem => {
+      const published = parsePublishedDate(entry.published || entry.updated, fetchedAt);
+      return {
+        title: entry.title,
+        description: truncateSummary(htmlToText(entry.summary)),
+        content: this.extractContent(entry.content),
+        link: entry.link,
+        canonicalUrl: null,
+        pubDate: published.date,
+        pubDateEstimated: published.estimated,
+        author: entry.author,
+        imageUrl: pickLeadImage(entry.images, entry.link),
+        source: feed.name,
+        sourceId: feed.id,
+        category: feed.category,
+        extractFullText: feed.fullTextEnabled !== false,
+      };
+    });
+  }
+
+  private extractContent(content: string): string {
+    // Extract readable content from HTML
+    let extracted = htmlToText(content);
+
+    // If content is too short, duplicate the description to meet minimum requirements
+    if (extracted.length < 100) {
+      const description = truncateSummary(htmlToText(content));
+      extracted = `${description} ${extracted}`.trim();
+    }
+
+    return extracted;
+  }
+}
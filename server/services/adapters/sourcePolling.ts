@@ -0,0 +1,192 @@
+import { parse } from "node-html-parser";
+import type { NewsSource, SourceIngestionStats } from "@shared/schema";
+import { recordFetchSuccess, recordFetchFailure, recordNotModified } from "../feedHealthService";
+import { FetchPool, type FeedValidators } from "../feedFetcher";
+import { extractArticle } from "../articleExtractor";
+import { pickLeadImage } from "../leadImage";
+import type { ParsedSourceItem, SourceItem } from "./types";
+
+/**
+ * Steps shared by the adapters that poll news_sources rows (RSS, Hacker
+ * News, Reddit): polite concurrent polling with feed health recording and
+ * per-source stats, article page enrichment, and conversion to SourceItem.
+ */
+
+const SOURCE_FETCH_CONCURRENCY = parseInt(process.env.RSS_FETCH_CONCURRENCY || "8", 10);
+export const HOST_DELAY_MS = parseInt(process.env.RSS_HOST_DELAY_MS || "500", 10); // between requests to the same host
+export const ITEMS_PER_SOURCE = 10;
+export const MAX_SELECTED_ITEMS = 50; // per adapter, most recent first
+
+// Full-text extraction for thin items; set FULL_TEXT_EXTRACTION=false to turn it off
+const FULL_TEXT_EXTRACTION = process.env.FULL_TEXT_EXTRACTION !== "false";
+const FULL_TEXT_BUDGET_MS = parseInt(process.env.FULL_TEXT_BUDGET_MS || "60000", 10); // per adapter per run
+const FULL_TEXT_TIMEOUT_MS = 8000; // per article page
+const FULL_TEXT_CONCURRENCY = 4;
+const THIN_CONTENT_LENGTH = 1000; // characters of plain text
+// Fetch the article page for og:image when the provider has no usable image; set OG_IMAGE_FALLBACK=false to turn it off
+const OG_IMAGE_FALLBACK = process.env.OG_IMAGE_FALLBACK !== "false";
+
+const SUMMARY_LENGTH = 300;
+
+export type SourcePollResult =
+  | { status: "ok"; items: ParsedSourceItem[]; itemCount: number; validators: FeedValidators }
+  | { status: "not_modified" };
+
+export interface SourcesPollOutcome {
+  items: ParsedSourceItem[];
+  sources: SourceIngestionStats[]; // one per source polled, for ingestion reports
+}
+
+/**
+ * Poll each source through poll(), at most one request in flight per host.
+ * A source that throws is recorded as a failure and contributes no items.
+ */
+export async function pollSources(
+  sources: NewsSource[],
+  label: string,
+  poll: (source: NewsSource) => Promise<SourcePollResult>
+): Promise<SourcesPollOutcome> {
+  const pool = new FetchPool(SOURCE_FETCH_CONCURRENCY, HOST_DELAY_MS);
+
+  const results = await Promise.all(
+    sources.map((source) => pool.run(source.url, () => pollSource(source, label, poll)))
+  );
+  const allItems = results.flatMap((result) => result.items);
+
+  console.log(`Successfully fetched ${allItems.length} articles from ${label}s`);
+  return { items: allItems, sources: results.map((result) => result.stats) };
+}
+
+async function pollSource(
+  source: NewsSource,
+  label: string,
+  poll: (source: NewsSource) => Promise<SourcePollResult>
+): Promise<{ items: ParsedSourceItem[]; stats: SourceIngestionStats }> {
+  const startedAt = Date.now();
+  const stats: SourceIngestionStats = {
+    sourceId: source.id,
+    name: source.name,
+    status: "ok",
+    error: null,
+    itemCount: 0,
+    selected: 0,
+    stored: 0,
+  };
+
+  try {
+    console.log(`Fetching ${label}: ${source.name}`);
+    const result = await poll(source);
+
+    if (result.status === "not_modified") {
+      console.log(`${label} ${source.name} not modified since last fetch`);
+      await recordNotModified(source);
+      return { items: [], stats: { ...stats, status: "not_modified" } };
+    }
+
+    await recordFetchSuccess(source, result.itemCount, Date.now() - startedAt, result.validators);
+    stats.itemCount = result.itemCount;
+    return { items: result.items, stats };
+  } catch (error) {
+    console.error(`Failed to fetch ${label} ${source.name}:`, error);
+    await recordFetchFailure(source, error);
+    const message = error instanceof Error ? error.message : String(error);
+    return { items: [], stats: { ...stats, status: "failed", error: message } };
+  }
+}
+
+// Most recent first, capped at MAX_SELECTED_ITEMS; also fills in each source's selected count
+export function selectRecentItems(items: ParsedSourceItem[], sources: SourceIngestionStats[]): ParsedSourceItem[] {
+  const selected = items
+    .slice()
+    .sort((a, b) => b.pubDate.getTime() - a.pubDate.getTime())
+    .slice(0, MAX_SELECTED_ITEMS);
+
+  for (const stats of sources) {
+    stats.selected = selected.filter((item) => item.sourceId === stats.sourceId).length;
+  }
+  return selected;
+}
+
+/**
+ * Fetch the article page for items whose provider content is thin (to
+ * replace the teaser with body text) or that have no lead image (to fall
+ * back to og:image). Page fetches stop once the time budget is spent; any
+ * item that fails keeps its provider content.
+ */
+export async function enrichWithFullText(items: ParsedSourceItem[]): Promise<ParsedSourceItem[]> {
+  if (!FULL_TEXT_EXTRACTION && !OG_IMAGE_FALLBACK) return items;
+
+  const deadline = Date.now() + FULL_TEXT_BUDGET_MS;
+  const pool = new FetchPool(FULL_TEXT_CONCURRENCY, HOST_DELAY_MS);
+  let extractedCount = 0;
+  let imageCount = 0;
+
+  const enriched = await Promise.all(items.map((item) => {
+    const wantsContent = FULL_TEXT_EXTRACTION && item.content.length < THIN_CONTENT_LENGTH;
+    const wantsImage = OG_IMAGE_FALLBACK && !item.imageUrl;
+    if (!item.extractFullText || (!wantsContent && !wantsImage)) {
+      return item;
+    }
+
+    return pool.run(item.link, async () => {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return item;
+
+      try {
+        const extracted = await extractArticle(item.link, Math.min(FULL_TEXT_TIMEOUT_MS, remaining));
+        if (!extracted) return item;
+
+        const result = { ...item, canonicalUrl: extracted.canonicalUrl };
+        if (wantsContent && extracted.content && extracted.content.length > item.content.length) {
+          result.content = extracted.content;
+          result.author = item.author ?? extracted.byline;
+          extractedCount++;
+        }
+        if (wantsImage && extracted.leadImage) {
+          result.imageUrl = pickLeadImage([extracted.leadImage], item.link);
+          if (result.imageUrl) imageCount++;
+        }
+        return result;
+      } catch (error) {
+        console.log(`Article page fetch failed for ${item.link}, keeping provider content`);
+        return item;
+      }
+    });
+  }));
+
+  console.log(`Full-text extraction enriched ${extractedCount} of ${items.length} articles, og:image found for ${imageCount}`);
+  return enriched;
+}
+
+// Strip markup and collapse whitespace
+export function htmlToText(html: string): string {
+  const root = parse(html);
+  return (root.text || html).replace(/\s+/g, " ").trim();
+}
+
+export function truncateSummary(text: string): string {
+  return text.length > SUMMARY_LENGTH ? text.substring(0, SUMMARY_LENGTH) + "..." : text;
+}
+
+export function toSourceItem(item: ParsedSourceItem): SourceItem {
+  // Estimate read time (average 200 words per minute)
+  const wordCount = item.content.split(/\s+/).length;
+  const readTime = Math.ceil(wordCount / 200);
+
+  return {
+    title: item.title,
+    // Link aggregators have no summary of their own; use the start of the extracted body
+    summary: item.description || truncateSummary(item.content),
+    content: item.content,
+    source: item.source,
+    url: item.link,
+    canonicalUrl: item.canonicalUrl ?? undefined,
+    imageUrl: item.imageUrl,
+    category: item.category,
+    readTime,
+    publishedAt: item.pubDate,
+    publishedAtEstimated: item.pubDateEstimated,
+    author: item.author,
+    sourceId: item.sourceId,
+  };
+}
@@ -0,0 +1,59 @@
+import type { InsertArticle, SourceIngestionStats } from "@shared/schema";
+
+/**
+ * A SourceAdapter turns one provider (RSS feeds, NewsAPI, Hacker News,
+ * Reddit) into normalized SourceItems. NewsService runs every adapter the
+ * same way, so adding a provider means adding an adapter rather than another
+ * branch in fetchLatestNews.
+ */
+
+// An article as the provider described it, before sentiment and keywords
+export type SourceItem = Omit<
+  InsertArticle,
+  | "id"
+  | "views"
+  | "sentiment"
+  | "sentimentSource"
+  | "anxietyProfile"
+  | "keywords"
+  | "primaryTopic"
+  | "secondaryTopics"
+  | "isCurated"
+  | "isTopFive"
+  | "category"
+  | "canonicalUrl"
+> & {
+  category: string | null; // null when the provider has none; NewsService uses the primary topic's label
+  canonicalUrl?: string; // set when the adapter fetched the article page; otherwise resolved by NewsService
+};
+
+export interface SourceFetchResult {
+  items: SourceItem[];
+  sources: SourceIngestionStats[]; // one per news_sources row polled; empty for keyed APIs
+  fetched: number; // items taken from the provider, before selection
+}
+
+export interface SourceAdapter {
+  name: string;
+  // Primaries run on every fetch; supplements only when primaries came up short
+  role: "primary" | "supplement";
+  analyzeWithAI: boolean; // false: basic keywords and lexicon sentiment only
+  fetch(): Promise<SourceFetchResult>;
+}
+
+// Intermediate shape shared by the adapters that poll news_sources rows
+export interface ParsedSourceItem {
+  title: string;
+  description: string; // plain text; may be empty when the provider has no summary
+  content: string;
+  link: string;
+  canonicalUrl: string | null; // from the article page, when enrichment fetched it
+  pubDate: Date;
+  pubDateEstimated: boolean; // provider gave no usable date; pubDate is fetch time
+  author: string | null;
+  imageUrl: string | null;
+  source: string;
+  sourceId: string;
+  category: string;
+  extractFullText: boolean; // false when the source opted out of page fetching
+}
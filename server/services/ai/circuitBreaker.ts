@@ -0,0 +1,49 @@
+/**
+ * Stops calling a provider that keeps failing. After AI_BREAKER_THRESHOLD
+ * consecutive failures the circuit opens and requests are refused for
+ * AI_BREAKER_COOLDOWN_MS; then one trial request is let through (half open),
+ * which closes the circuit on success and reopens it on failure.
+ */
+
+const AI_BREAKER_THRESHOLD = parseInt(process.env.AI_BREAKER_THRESHOLD || "3", 10);
+const AI_BREAKER_COOLDOWN_MS = parseInt(process.env.AI_BREAKER_COOLDOWN_MS || "300000", 10); // 5 minutes
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly name: string) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= AI_BREAKER_COOLDOWN_MS ? "half_open" : "open";
+  }
+
+  canRequest(): boolean {
+    const state = this.state;
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.openedAt !== null) console.log(`AI circuit for ${this.name} closed`);
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    const reopen = this.trialInFlight;
+    this.trialInFlight = false;
+    if (reopen || (this.openedAt === null && this.consecutiveFailures >= AI_BREAKER_THRESHOLD)) {
+      this.openedAt = Date.now();
+      console.warn(`AI circuit for ${this.name} opened after ${this.consecutiveFailures} consecutive failures, using local for ${AI_BREAKER_COOLDOWN_MS / 1000}s`);
+    }
+  }
+}
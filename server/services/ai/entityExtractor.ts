@@ -0,0 +1,254 @@
+import type { EntityType } from "@shared/schema";
+import type { ExtractedEntity } from "./types";
+
+/**
+ * Offline named-entity extraction. Runs of capitalized words are split into
+ * entities by, in order: gazetteers of well-known organizations, places and
+ * products (longest match first), person titles ("President", "CEO") and
+ * common first names, and organization suffixes ("Inc", "University").
+ * Capitalized runs none of these type are dropped, which keeps sentence
+ * starts and Title Case headlines from turning into entities.
+ */
+
+const MAX_ENTITIES = 15;
+const MAX_GAZETTEER_WORDS = 4;
+const MAX_ORG_WORDS = 4; // including the suffix
+
+const ORGANIZATIONS = [
+  "apple", "google", "alphabet", "microsoft", "amazon", "meta", "facebook", "netflix", "nvidia", "intel", "amd",
+  "ibm", "oracle", "salesforce", "adobe", "tesla", "spacex", "openai", "anthropic", "deepmind", "samsung", "sony",
+  "tiktok", "bytedance", "uber", "airbnb", "spotify", "twitter", "x corp", "reddit", "linkedin", "shopify", "stripe",
+  "paypal", "visa", "mastercard", "walmart", "costco", "disney", "warner bros", "boeing", "airbus",
+  "ford", "general motors", "toyota", "volkswagen", "bmw", "pfizer", "moderna", "johnson & johnson",
+  "goldman sachs", "jpmorgan", "morgan stanley", "blackrock", "berkshire hathaway", "coinbase", "binance",
+  "nasa", "fda", "cdc", "nato", "un", "united nations", "european union", "eu", "imf", "world bank",
+  "federal reserve", "fed", "sec", "ftc", "fbi", "cia", "pentagon", "white house", "congress", "senate",
+  "parliament", "supreme court", "european commission", "opec", "wto", "bbc", "cnn", "reuters", "bloomberg",
+  "new york times", "wall street journal", "washington post", "guardian", "associated press",
+  "harvard", "stanford", "mit", "oxford", "cambridge", "nba", "nfl", "fifa", "uefa", "ioc",
+];
+
+const PLACES = [
+  "us", "u.s", "usa", "america", "united states", "uk", "u.k", "britain", "great britain", "england", "scotland",
+  "wales", "ireland", "canada", "mexico", "brazil", "argentina", "chile", "colombia", "peru", "france", "germany",
+  "spain", "italy", "portugal", "netherlands", "belgium", "switzerland", "austria", "sweden", "norway", "denmark",
+  "finland", "poland", "ukraine", "russia", "turkey", "greece", "israel", "gaza", "iran", "iraq", "syria",
+  "lebanon", "saudi arabia", "egypt", "nigeria", "kenya", "south africa", "ethiopia", "india", "pakistan",
+  "bangladesh", "china", "japan", "south korea", "north korea", "korea", "taiwan", "hong kong", "singapore",
+  "indonesia", "vietnam", "thailand", "philippines", "malaysia", "australia", "new zealand", "europe", "asia",
+  "africa", "middle east", "latin america", "silicon valley", "wall street",
+  "new york", "new york city", "london", "paris", "berlin", "madrid", "rome", "tokyo", "beijing", "shanghai",
+  "moscow", "kyiv", "washington", "los angeles", "san francisco", "chicago", "boston", "seattle", "austin",
+  "miami", "toronto", "vancouver", "sydney", "melbourne", "mumbai", "delhi", "new delhi", "dubai", "brussels",
+  "geneva", "amsterdam", "stockholm", "dublin", "jerusalem", "tehran", "seoul", "taipei",
+  "california", "texas", "florida", "new jersey", "illinois", "ohio", "georgia", "michigan", "arizona",
+  "massachusetts", "virginia", "pennsylvania",
+];
+
+const PRODUCTS = [
+  "iphone", "ipad", "mac", "macbook", "apple watch", "vision pro", "airpods", "android", "pixel", "galaxy",
+  "windows", "azure", "aws", "chrome", "gmail", "youtube", "instagram", "whatsapp",
+  "chatgpt", "gpt-4", "gpt-4o", "gpt-5", "claude", "gemini", "copilot", "llama", "siri", "alexa", "bard",
+  "playstation", "xbox", "nintendo switch", "kindle", "model 3", "model y", "cybertruck",
+  "starlink", "starship", "bitcoin", "ethereum", "linux", "github", "slack", "zoom",
+];
+
+const ORG_SUFFIXES = new Set([
+  "inc", "corp", "corporation", "co", "ltd", "llc", "plc", "ag", "gmbh", "sa", "group", "holdings", "partners",
+  "capital", "ventures", "labs", "technologies", "systems", "bank", "university", "college", "institute",
+  "foundation", "association", "agency", "ministry", "department", "council", "commission", "party", "union",
+  "airlines", "motors", "pharmaceuticals", "therapeutics", "fc", "club", "studios", "network", "times", "post",
+]);
+
+// Organizations named "<head> of <place>" ("Bank of England", "University of Tokyo")
+const ORG_HEADS = new Set(["bank", "university", "department", "ministry", "institute", "museum", "church"]);
+
+// Words before a person's name; the name is the next one or two capitalized words
+const TITLES = new Set([
+  "president", "vice", "prime", "minister", "chancellor", "senator", "sen", "rep", "representative", "governor",
+  "gov", "mayor", "secretary", "judge", "justice", "ceo", "cfo", "cto", "coo", "founder", "co-founder", "chairman",
+  "chairwoman", "chief", "executive", "director", "king", "queen", "prince", "princess", "pope", "dr", "mr",
+  "mrs", "ms", "professor", "prof", "coach", "general",
+]);
+
+const FIRST_NAMES = new Set([
+  "james", "john", "robert", "michael", "william", "david", "richard", "joseph", "thomas", "charles", "christopher",
+  "daniel", "matthew", "anthony", "mark", "donald", "steven", "paul", "andrew", "joshua", "kenneth", "kevin",
+  "brian", "george", "timothy", "ronald", "edward", "jason", "jeffrey", "ryan", "jacob", "gary", "nicholas",
+  "eric", "jonathan", "stephen", "larry", "justin", "scott", "brandon", "benjamin", "samuel", "gregory",
+  "alexander", "frank", "patrick", "raymond", "jack", "dennis", "jerry", "tyler", "aaron", "jose", "adam",
+  "nathan", "henry", "peter", "zachary", "kyle", "noah", "ethan", "jeremy", "walter", "christian", "keith",
+  "roger", "terry", "austin", "sean", "gerald", "carl", "harold", "dylan", "arthur", "lawrence", "jordan",
+  "jesse", "bryan", "billy", "bruce", "gabriel", "joe", "logan", "albert", "willie", "alan", "eugene", "russell",
+  "vincent", "philip", "bobby", "johnny", "bradley", "roy", "ralph", "randy", "wayne", "elon", "jeff", "bill",
+  "tim", "sam", "satya", "sundar", "jensen", "dario", "demis", "sergey", "warren", "jamie", "vladimir", "xi",
+  "emmanuel", "olaf", "rishi", "keir", "narendra", "volodymyr", "kamala",
+  "mary", "patricia", "jennifer", "linda", "elizabeth", "barbara", "susan", "jessica", "sarah", "karen", "lisa",
+  "nancy", "betty", "margaret", "sandra", "ashley", "kimberly", "emily", "donna", "michelle", "carol", "amanda",
+  "dorothy", "melissa", "deborah", "stephanie", "rebecca", "sharon", "laura", "cynthia", "kathleen", "amy",
+  "angela", "shirley", "anna", "brenda", "pamela", "emma", "nicole", "helen", "samantha", "katherine",
+  "christine", "debra", "rachel", "carolyn", "janet", "catherine", "maria", "heather", "diane", "ruth", "julie",
+  "olivia", "joyce", "virginia", "victoria", "kelly", "lauren", "christina", "joan", "evelyn", "judith", "megan",
+  "andrea", "cheryl", "hannah", "jacqueline", "martha", "gloria", "teresa", "ann", "sara", "madison", "frances",
+  "kathryn", "janice", "jean", "abigail", "alice", "julia", "judy", "sophia", "grace", "denise", "amber",
+  "doris", "marilyn", "danielle", "beverly", "isabella", "theresa", "diana", "natalie", "brittany", "charlotte",
+  "marie", "kayla", "alexis", "lori", "taylor", "ursula", "giorgia", "hillary", "nikki",
+]);
+
+// Capitalized words that are almost never entities on their own
+const STOP_WORDS = new Set([
+  "the", "a", "an", "this", "that", "these", "those", "it", "its", "he", "she", "they", "we", "i", "you",
+  "his", "her", "their", "our", "my", "in", "on", "at", "for", "with", "by", "from", "as", "but", "and", "or",
+  "if", "when", "after", "before", "why", "how", "what", "who", "where", "new", "more", "most", "monday",
+  "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday", "january", "february", "march", "april",
+  "may", "june", "july", "august", "september", "october", "november", "december",
+]);
+
+// Lowercase words that can sit inside a name ("Bank of England", "Johnson & Johnson")
+const CONNECTORS = new Set(["of", "&", "and", "de", "for", "the"]);
+
+const GAZETTEER = new Map<string, EntityType>([
+  ...PLACES.map((name) => [name, "place"] as const),
+  ...PRODUCTS.map((name) => [name, "product"] as const),
+  ...ORGANIZATIONS.map((name) => [name, "organization"] as const),
+]);
+
+// Lowercase, accents stripped, punctuation dropped, no leading "the": one key per entity across spellings
+export function entityKey(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]s\b/g, "")
+    .replace(/[^a-z0-9&]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+function isCapitalized(word: string): boolean {
+  return /^[A-Z]/.test(word) || /^[ie][A-Z]/.test(word); // iPhone, eBay
+}
+
+function lower(word: string): string {
+  return word.toLowerCase().replace(/\.$/, "");
+}
+
+// Runs of capitalized words, broken at punctuation and possessives; connectors only between capitalized words
+function capitalizedRuns(text: string): string[][] {
+  const runs: string[][] = [];
+  let run: string[] = [];
+  const flush = () => {
+    while (run.length > 0 && CONNECTORS.has(run[run.length - 1])) run.pop();
+    if (run.length > 0) runs.push(run);
+    run = [];
+  };
+
+  for (const raw of text.split(/\s+/)) {
+    const token = raw.replace(/^["'“‘(\[]+/, "");
+    // Initials and abbreviations keep their dots and don't end the run: "J.", "U.S."
+    const [, word, tail] = /^([A-Z]\.)+$/.test(token)
+      ? [token, token, ""]
+      : token.match(/^(.*?)((?:['’]s)?["'”’)\]]*[.,;:!?]*)$/)!;
+
+    if (word && isCapitalized(word)) run.push(word);
+    else if (word && run.length > 0 && CONNECTORS.has(word)) run.push(word);
+    else flush();
+
+    if (tail) flush();
+  }
+  flush();
+  return runs;
+}
+
+function longestGazetteerMatch(words: string[], start: number): { type: EntityType; length: number } | null {
+  for (let length = Math.min(MAX_GAZETTEER_WORDS, words.length - start); length > 0; length--) {
+    const type = GAZETTEER.get(words.slice(start, start + length).map(lower).join(" "));
+    if (type) return { type, length };
+  }
+  return null;
+}
+
+function entitiesInRun(words: string[]): ExtractedEntity[] {
+  const entities: ExtractedEntity[] = [];
+  const emit = (type: EntityType, from: number, to: number) => {
+    entities.push({ type, name: words.slice(from, to).join(" ") });
+  };
+  const isNameWord = (index: number) =>
+    index < words.length && !CONNECTORS.has(words[index]) && !STOP_WORDS.has(lower(words[index]));
+
+  let afterTitle = false;
+  let i = 0;
+  while (i < words.length) {
+    const word = lower(words[i]);
+
+    // "Bank of England" before the gazetteer claims "England"
+    if (ORG_HEADS.has(word) && words[i + 1] === "of" && isNameWord(i + 2)) {
+      const end = isNameWord(i + 3) && !GAZETTEER.has(lower(words[i + 2])) ? i + 4 : i + 3;
+      emit("organization", i, end);
+      i = end;
+      afterTitle = false;
+      continue;
+    }
+
+    const match = longestGazetteerMatch(words, i);
+    if (match) {
+      emit(match.type, i, i + match.length);
+      i += match.length;
+      afterTitle = false;
+      continue;
+    }
+
+    if (TITLES.has(word)) {
+      afterTitle = true;
+      i++;
+      continue;
+    }
+
+    if (FIRST_NAMES.has(word) && isNameWord(i + 1)) {
+      // Skip a middle initial: "Michael J. Fox"
+      const end = /^[A-Z]\.$/.test(words[i + 1]) && isNameWord(i + 2) ? i + 3 : i + 2;
+      emit("person", i, end);
+      i = end;
+      afterTitle = false;
+      continue;
+    }
+
+    if (afterTitle && isNameWord(i)) {
+      const end = isNameWord(i + 1) && !TITLES.has(lower(words[i + 1])) ? i + 2 : i + 1;
+      emit("person", i, end);
+      i = end;
+      afterTitle = false;
+      continue;
+    }
+
+    // "Acme Robotics Inc": up to three words before an organization suffix
+    const suffixAt = words
+      .slice(i + 1, i + MAX_ORG_WORDS)
+      .findIndex((candidate) => ORG_SUFFIXES.has(lower(candidate)));
+    if (suffixAt >= 0 && !STOP_WORDS.has(word) && !CONNECTORS.has(words[i])) {
+      const end = i + suffixAt + 2;
+      emit("organization", i, end);
+      i = end;
+      afterTitle = false;
+      continue;
+    }
+
+    afterTitle = false;
+    i++;
+  }
+  return entities;
+}
+
+export function extractEntities(title: string, summary: string): ExtractedEntity[] {
+  const seen = new Set<string>();
+  const entities: ExtractedEntity[] = [];
+  for (const run of [...capitalizedRuns(title), ...capitalizedRuns(summary)]) {
+    for (const entity of entitiesInRun(run)) {
+      const key = entityKey(entity.name);
+      if (!key || seen.has(`${entity.type}:${key}`)) continue;
+      seen.add(`${entity.type}:${key}`);
+      entities.push(entity);
+    }
+  }
+  return entities.slice(0, MAX_ENTITIES);
+}
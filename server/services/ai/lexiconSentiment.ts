@@ -0,0 +1,229 @@
+/**
+ * Offline sentiment scoring for headlines and short summaries. Two word
+ * lists: valence (-3..3, how positive or negative a word reads) and anxiety
+ * (1..3, how alarming a topic is regardless of tone, e.g. "outbreak" or
+ * "layoffs"). A negator ("no", "not", "without"...) within the three words
+ * before a term flips its valence and cuts its anxiety to a quarter, so "no
+ * sign of recession" reads as far less alarming than "recession".
+ *
+ * Anxiety terms also belong to one dimension of the article's anxiety
+ * profile (violence, health, financial...), each scored on its own.
+ *
+ * Neutral text scores NEUTRAL_RATING, which equals the default sentiment
+ * threshold: headlines with no signal pass by default, negative or alarming
+ * ones fall below it, upbeat ones rise above it.
+ */
+
+import { ANXIETY_DIMENSIONS, type AnxietyDimension, type AnxietyProfile } from "@shared/schema";
+
+export const NEUTRAL_RATING = 0.7;
+
+const NEGATION_WINDOW = 3;
+const NEGATED_ANXIETY = 0.25;
+const ANXIETY_WEIGHT = 1.5; // one point of anxiety counts this much against valence
+const SCALE = 4; // raw score at which the rating is ~76% of the way to 0 or 1
+const CONFIDENCE_PER_HIT = 0.2;
+const MAX_CONFIDENCE = 0.8; // a word list is never as sure as a model
+const DIMENSION_SCALE = 3; // one strongly alarming term puts a dimension at ~0.76
+
+export interface LexiconScore {
+  rating: number; // 0-1, 1 is most positive/least anxiety-inducing
+  confidence: number; // 0-1, grows with the number of matched terms
+  valence: number; // summed valence of matched terms
+  anxiety: number; // summed anxiety of matched terms
+  profile: AnxietyProfile;
+}
+
+const NEGATORS = new Set([
+  "no", "not", "never", "without", "none", "nobody", "nothing", "nor", "neither",
+  "cannot", "cant", "dont", "doesnt", "didnt", "isnt", "arent", "wasnt", "werent",
+  "wont", "hasnt", "havent", "hadnt", "avoids", "avoided", "averts", "averted",
+]);
+
+// Scale the next term's valence and anxiety
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, extremely: 1.8, highly: 1.4, hugely: 1.6, deeply: 1.5, massive: 1.5,
+  major: 1.3, huge: 1.4, severe: 1.6, record: 1.3, historic: 1.3, biggest: 1.4,
+  slightly: 0.5, somewhat: 0.6, mildly: 0.5, minor: 0.6,
+};
+
+// Headline vocabulary: verbs like "soars" and "slams" carry most of the tone
+const VALENCE: Record<string, number> = {
+  // positive
+  win: 2, wins: 2, won: 2, victory: 3, success: 2, successful: 2, succeed: 2, triumph: 3,
+  breakthrough: 3, discovery: 2, discover: 1, cure: 3, cured: 3, heal: 2, recovery: 2, recover: 2, recovers: 2,
+  rescue: 2, rescued: 2, saves: 2, save: 1, saved: 2, hope: 2, hopeful: 2, hopes: 1,
+  celebrate: 3, celebrates: 3, celebration: 3, praise: 2, praised: 2, hails: 2, hailed: 2,
+  award: 2, awarded: 2, honor: 2, honored: 2, milestone: 2, achievement: 2, achieves: 2,
+  growth: 2, grows: 1, boost: 2, boosts: 2, boosted: 2, gain: 1, gains: 1, rise: 1, rises: 1,
+  soar: 2, soars: 2, soared: 2, surge: 1, surges: 1, rally: 2, rallies: 2,
+  improve: 2, improves: 2, improved: 2, improvement: 2, innovation: 2, innovative: 2,
+  launch: 1, launches: 1, opens: 1, expands: 1, expansion: 1, hire: 1, hiring: 1, hires: 1,
+  agreement: 1, deal: 1, peace: 3, ceasefire: 2, truce: 2, reunite: 3, reunited: 3,
+  kindness: 3, generous: 2, donate: 2, donates: 2, donation: 2, volunteer: 2, volunteers: 2,
+  happy: 3, joy: 3, love: 3, loves: 2, beautiful: 3, inspiring: 3, inspire: 2, inspires: 2,
+  best: 2, better: 2, good: 2, great: 3, positive: 2, safe: 1, safer: 2, thrive: 2, thrives: 2,
+  approve: 1, approved: 1, approves: 1, funding: 1, funded: 1, profit: 1, profits: 1,
+  // negative
+  lose: -2, loses: -2, lost: -2, loss: -2, losses: -2, defeat: -2, defeated: -2, fail: -2, failure: -2,
+  decline: -1, declines: -1, fall: -1, falls: -1, drop: -1, drops: -1, slump: -2, slumps: -2,
+  plunge: -2, plunges: -2, plummets: -3, tumble: -2, tumbles: -2, sink: -2, sinks: -2, slide: -1,
+  cut: -1, cuts: -1, slash: -2, slashes: -2, ban: -1, bans: -1, banned: -1,
+  slam: -2, slams: -2, blast: -2, blasts: -2, clash: -2, clashes: -2, feud: -2,
+  criticize: -2, criticized: -2, condemn: -2, condemns: -2, accuse: -2, accused: -2, accuses: -2,
+  scandal: -3, fraud: -3, corruption: -3, lawsuit: -2, sue: -2, sues: -2, sued: -2, probe: -1,
+  arrest: -2, arrested: -2, charged: -2, guilty: -2, convicted: -2, jailed: -2, prison: -2,
+  protest: -1, protests: -1, strike: -1, strikes: -1, riot: -3, riots: -3, unrest: -2,
+  delay: -1, delays: -1, delayed: -1, shortage: -2, shortages: -2, struggle: -2, struggles: -2,
+  problem: -2, problems: -2, trouble: -2, risk: -2, risks: -2, danger: -2, dangerous: -2,
+  bad: -2, worse: -2, worst: -3, poor: -2, sad: -2, angry: -3, anger: -3, outrage: -3, furious: -3,
+  hate: -3, hated: -3, shame: -2, shocking: -2, shock: -2, horrific: -3, tragic: -3, tragedy: -3,
+  warn: -2, warns: -2, warning: -2, concern: -1, concerns: -1, worried: -2, worry: -2, worries: -2,
+  controversy: -2, controversial: -2, dispute: -1, chaos: -3, mess: -2, backlash: -2,
+};
+
+// Alarming terms by the kind of anxiety they provoke; phrases are matched before single words
+const ANXIETY: Record<Exclude<AnxietyDimension, "outrage">, Record<string, number>> = {
+  violence: {
+    war: 3, wars: 3, invasion: 3, bombing: 3, bombings: 3, airstrike: 3, airstrikes: 3, missile: 2, missiles: 2,
+    attack: 2, attacks: 2, attacked: 2, terror: 3, terrorist: 3, terrorism: 3, gunman: 3, shooting: 3, shootings: 3,
+    stabbing: 3, murder: 3, murdered: 3, kill: 3, kills: 3, killed: 3, killing: 3, dead: 3, dies: 2, died: 2,
+    death: 2, deaths: 3, deadly: 3, massacre: 3, hostage: 3, hostages: 3, violence: 2, violent: 2, assault: 2,
+    nuclear: 2, genocide: 3, abuse: 3, abused: 3,
+    "death toll": 3, "mass shooting": 3,
+  },
+  fear: {
+    disaster: 3, earthquake: 3, tsunami: 3, hurricane: 2, wildfire: 2, wildfires: 2, flood: 2, floods: 2,
+    flooding: 2, drought: 2, heatwave: 2, evacuate: 2, evacuated: 2, evacuation: 2, emergency: 2, crash: 2,
+    crashes: 2, explosion: 3, threat: 2, threatens: 2, threatened: 2, fear: 2, fears: 2, feared: 2, panic: 3,
+    alarm: 2, alarming: 2, victims: 2, victim: 2, injured: 2, injuries: 2, wounded: 2, missing: 1,
+    "state of emergency": 3, "cyber attack": 2, "data breach": 2, "power outage": 2,
+  },
+  health: {
+    pandemic: 3, epidemic: 3, outbreak: 3, virus: 2, infection: 1, infections: 2, cancer: 2, disease: 1,
+    overdose: 3, toxic: 2, contaminated: 2, recall: 1,
+    "heart attack": 2, "bird flu": 3, "food poisoning": 2,
+  },
+  financial: {
+    recession: 3, layoffs: 3, layoff: 3, unemployment: 2, bankrupt: 3, bankruptcy: 3, inflation: 2,
+    debt: 1, downturn: 2, selloff: 2, bubble: 1, eviction: 2, foreclosure: 2,
+    "job cuts": 3, "stock market crash": 3, "market crash": 3,
+  },
+  doom: {
+    catastrophe: 3, catastrophic: 3, collapse: 2, collapses: 2, meltdown: 3, crisis: 3, doom: 3, apocalypse: 3,
+    looming: 1, imminent: 2, grim: 2,
+    "climate change": 1,
+  },
+};
+
+/**
+ * Outrage terms already weigh on the rating through their negative valence,
+ * so they only feed the outrage dimension of the profile.
+ */
+const OUTRAGE: Record<string, number> = {
+  outrage: 3, furious: 3, scandal: 3, fraud: 2, corruption: 2, angry: 2, anger: 2, backlash: 2,
+  slam: 2, slams: 2, blast: 1, blasts: 1, condemn: 2, condemns: 2, accuse: 1, accused: 1, accuses: 1,
+  criticize: 1, criticized: 1, controversy: 2, controversial: 1, feud: 1, shame: 2, shocking: 2, hate: 2,
+  "under fire": 2,
+};
+
+interface AnxietyTerm {
+  dimension: AnxietyDimension;
+  weight: number;
+}
+
+const ANXIETY_TERMS = new Map<string, AnxietyTerm>(
+  Object.entries(ANXIETY).flatMap(([dimension, terms]) =>
+    Object.entries(terms).map(([term, weight]): [string, AnxietyTerm] => [
+      term,
+      { dimension: dimension as AnxietyDimension, weight },
+    ])
+  )
+);
+
+const VALENCE_PHRASES: Record<string, number> = {
+  "good news": 3, "record high": 2, "all time high": 2, "step forward": 2, "no injuries": 2,
+  "job cuts": -2, "record low": -2, "falls short": -2, "under fire": -2,
+};
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+interface TermMatch {
+  length: number;
+  valence: number;
+  anxiety: AnxietyTerm | null;
+  outrage: number;
+}
+
+function lookup(term: string, length: number, valence: number | undefined): TermMatch | null {
+  const anxiety = ANXIETY_TERMS.get(term) ?? null;
+  const outrage = OUTRAGE[term];
+  if (valence === undefined && !anxiety && outrage === undefined) return null;
+  return { length, valence: valence ?? 0, anxiety, outrage: outrage ?? 0 };
+}
+
+// Three-, two- and one-word matches at position i, longest first
+function matchAt(tokens: string[], i: number): TermMatch | null {
+  for (const length of [3, 2]) {
+    if (i + length > tokens.length) continue;
+    const phrase = tokens.slice(i, i + length).join(" ");
+    const match = lookup(phrase, length, VALENCE_PHRASES[phrase]);
+    if (match) return match;
+  }
+  return lookup(tokens[i], 1, VALENCE[tokens[i]]);
+}
+
+export function scoreSentiment(text: string): LexiconScore {
+  const tokens = tokenize(text);
+  let valence = 0;
+  let anxiety = 0;
+  let hits = 0;
+  const dimensions = Object.fromEntries(ANXIETY_DIMENSIONS.map((dimension) => [dimension, 0])) as AnxietyProfile;
+  let lastNegator = -Infinity;
+  let intensity = 1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    // Phrases first: some start with a negator ("no injuries")
+    const match = matchAt(tokens, i);
+    if (!match) {
+      if (NEGATORS.has(token)) lastNegator = i;
+      intensity = INTENSIFIERS[token] ?? 1;
+      continue;
+    }
+
+    const negated = i - lastNegator <= NEGATION_WINDOW;
+    const alarm = (negated ? NEGATED_ANXIETY : 1) * intensity;
+    valence += (negated ? -match.valence : match.valence) * intensity;
+    if (match.anxiety) {
+      anxiety += match.anxiety.weight * alarm;
+      dimensions[match.anxiety.dimension] += match.anxiety.weight * alarm;
+    }
+    dimensions.outrage += match.outrage * alarm;
+    hits++;
+    intensity = 1;
+    i += match.length - 1;
+  }
+
+  const raw = valence - anxiety * ANXIETY_WEIGHT;
+  const shift = Math.tanh(raw / SCALE);
+  const rating = shift >= 0
+    ? NEUTRAL_RATING + (1 - NEUTRAL_RATING) * shift
+    : NEUTRAL_RATING + NEUTRAL_RATING * shift;
+
+  return {
+    rating: Math.max(0, Math.min(1, rating)),
+    confidence: Math.min(MAX_CONFIDENCE, hits * CONFIDENCE_PER_HIT),
+    valence,
+    anxiety,
+    profile: Object.fromEntries(
+      ANXIETY_DIMENSIONS.map((dimension) => [dimension, Math.tanh(dimensions[dimension] / DIMENSION_SCALE)])
+    ) as AnxietyProfile,
+  };
+}
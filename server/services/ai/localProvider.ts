@@ -0,0 +1,185 @@
+import type {
+  AiProvider,
+  AnalysisCapability,
+  AnalysisInput,
+  ArticleAnalysis,
+  CurationCandidate,
+  CurationResult,
+  ExtractedEntity,
+  ScriptArticle,
+  SentimentResult,
+  SpeechResult,
+} from "./types";
+import type { TopicAssignment } from "@shared/topics";
+import { scoreSentiment } from "./lexiconSentiment";
+import { classifyTopics } from "./topicClassifier";
+import { extractEntities } from "./entityExtractor";
+
+/**
+ * Deterministic offline provider: word lists, templates and heuristics, no
+ * network. The same input always gives the same output, so it backs tests
+ * and local development, and is the fallback when a remote provider fails.
+ */
+
+const SUMMARY_LENGTH = 150;
+const TOP_FIVE_COUNT = 5;
+const CURATED_COUNT = 15;
+const SILENCE_SECONDS = 1;
+const SAMPLE_RATE = 8000;
+
+const COMMON_WORDS = new Set([
+  "the","a","an","and","or","but","in","on","at","to","for","of","with","by",
+  "is","are","was","were","be","been","have","has","had","do","does","did",
+  "will","would","could","should","may","might","must","can","this","that","these","those",
+]);
+
+const POSITIVE_TERMS = [
+  "growth","innovation","success","breakthrough","launch","funding","profit","advance",
+  "development","opportunity","market","technology","ai","startup",
+];
+
+// First words of the text that aren't too common to be useful for filtering
+export function extractBasicKeywords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 3 && !COMMON_WORDS.has(word))
+    .slice(0, 10);
+}
+
+// The basic curation score: sentiment plus boosts for positive terms, core categories and freshness
+function curationScore(article: CurationCandidate, now: number): number {
+  let score = article.sentiment || 0.7;
+  const titleAndSummary = `${article.title ?? ""} ${article.summary ?? ""}`.toLowerCase();
+  score += POSITIVE_TERMS.filter((term) => titleAndSummary.includes(term)).length * 0.1;
+
+  if (article.category === "Technology" || article.category === "Business") score += 0.2;
+
+  // No freshness boost when the feed gave no usable date
+  const hoursOld = (now - article.publishedAt.getTime()) / (1000 * 60 * 60);
+  if (hoursOld < 24 && !article.publishedAtEstimated) score += 0.1;
+
+  return score;
+}
+
+// A mono 8-bit PCM WAV of silence
+function silentWav(seconds: number): Buffer {
+  const samples = SAMPLE_RATE * seconds;
+  const buffer = Buffer.alloc(44 + samples, 0x80);
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + samples, 4);
+  buffer.write("WAVEfmt ", 8, "ascii");
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE, 28); // byte rate
+  buffer.writeUInt16LE(1, 32); // block align
+  buffer.writeUInt16LE(8, 34); // bits per sample
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(samples, 40);
+  return buffer;
+}
+
+export class LocalProvider implements AiProvider {
+  readonly name = "local";
+  readonly promptVersion = null; // cheaper to recompute than to look up
+
+  async analyze(items: AnalysisInput[], capabilities: AnalysisCapability[]): Promise<ArticleAnalysis[]> {
+    return Promise.all(items.map(async (item) => ({
+      sentiment: capabilities.includes("sentiment") ? await this.analyzeSentiment(`${item.title} ${item.summary}`) : undefined,
+      keywords: capabilities.includes("keywords") ? await this.extractKeywords(`${item.title} ${item.summary}`) : undefined,
+      summary: capabilities.includes("summarize") ? await this.summarize(item.title, item.content) : undefined,
+      topics: capabilities.includes("topics") ? await this.classifyTopics(item.title, item.summary, item.category) : undefined,
+      entities: capabilities.includes("entities") ? await this.extractEntities(item.title, item.summary) : undefined,
+    })));
+  }
+
+  async analyzeSentiment(text: string): Promise<SentimentResult> {
+    const { rating, confidence, profile } = scoreSentiment(text);
+    return { rating, confidence, source: "lexicon", profile };
+  }
+
+  async summarize(title: string, content: string): Promise<string> {
+    const text = content.replace(/\s+/g, " ").trim();
+    if (!text) return title;
+
+    // Whole sentences up to the summary length, else a cut at a word boundary
+    const sentences = text.match(/[^.!?]+[.!?]+/g) ?? [];
+    let summary = "";
+    for (const sentence of sentences) {
+      if ((summary + sentence).trim().length > SUMMARY_LENGTH) break;
+      summary += sentence;
+    }
+    if (summary.trim()) return summary.trim();
+
+    const cut = text.substring(0, SUMMARY_LENGTH);
+    const lastSpace = cut.lastIndexOf(" ");
+    return `${lastSpace > 0 ? cut.substring(0, lastSpace) : cut}...`;
+  }
+
+  async extractKeywords(text: string): Promise<string[]> {
+    return extractBasicKeywords(text);
+  }
+
+  async classifyTopics(title: string, summary: string, category: string | null): Promise<TopicAssignment> {
+    return classifyTopics(title, summary, category);
+  }
+
+  async extractEntities(title: string, summary: string): Promise<ExtractedEntity[]> {
+    return extractEntities(title, summary);
+  }
+
+  async curate(articles: CurationCandidate[]): Promise<CurationResult> {
+    const now = Date.now();
+    const sorted = articles
+      .map((article) => ({ id: article.id, score: curationScore(article, now) }))
+      .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+
+    return {
+      topFive: sorted.slice(0, TOP_FIVE_COUNT).map((a) => a.id),
+      curated: sorted.slice(TOP_FIVE_COUNT, TOP_FIVE_COUNT + CURATED_COUNT).map((a) => a.id),
+    };
+  }
+
+  async generateScript(articles: ScriptArticle[]): Promise<string> {
+    const date = new Date().toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+
+    let script = `[INTRO]
+Good morning, and welcome to your daily BrightBuzz digest for ${date}. I'm here to keep you informed with the latest business and technology news that matters to your career and professional growth. Today, we're covering ${articles.length} carefully curated stories designed to inspire and inform without the anxiety. Let's dive in.
+
+`;
+
+    articles.forEach((article, index) => {
+      const storyNumber = index + 1;
+      script += `[STORY ${storyNumber}]
+Our ${storyNumber === 1 ? 'top' : 'next'} story comes from ${article.source}. ${article.title}.
+
+${article.summary}
+
+This development is particularly relevant for young professionals because it highlights ongoing trends in ${article.category.toLowerCase()} that could create new opportunities and career paths. Whether you're looking to advance in your current role or exploring new industries, staying informed about these changes helps you position yourself for success.
+
+`;
+    });
+
+    script += `[OUTRO]
+That wraps up today's BrightBuzz digest. We've covered ${articles.length} stories spanning business, technology, and career development - all filtered to help you stay informed while maintaining a positive outlook on your professional journey.
+
+Remember, every challenge in the news represents an opportunity for innovation and growth. As a young professional, you're uniquely positioned to adapt, learn, and thrive in our rapidly changing world.
+
+Thanks for tuning in to BrightBuzz. We'll be back tomorrow with more curated news designed specifically for ambitious professionals like you. Until then, stay curious, stay positive, and keep building your future.`;
+
+    return script;
+  }
+
+  // A short silent clip, so podcasts generated offline still have playable audio
+  async synthesizeSpeech(_script: string): Promise<SpeechResult> {
+    return { audio: silentWav(SILENCE_SECONDS), mimeType: "audio/wav" };
+  }
+}
@@ -0,0 +1,292 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { ENTITY_TYPES, anxietyProfileSchema } from "@shared/schema";
+import { MAX_SECONDARY_TOPICS, TOPIC_IDS, isTopicId } from "@shared/topics";
+import type {
+  AiCapability,
+  AiProvider,
+  AiUsageEvent,
+  AnalysisCapability,
+  AnalysisInput,
+  ArticleAnalysis,
+  CurationCandidate,
+  CurationResult,
+  ExtractedEntity,
+  ScriptArticle,
+  SpeechResult,
+} from "./types";
+
+/**
+ * OpenAI's chat and speech APIs. Also serves any OpenAI-compatible endpoint
+ * (Ollama, vLLM, LM Studio, LocalAI) by pointing baseURL at it; such servers
+ * must support JSON mode for the structured capabilities.
+ */
+
+const TTS_MAX_CHARS = 4096;
+const MAX_ENTITIES = 15;
+const ANALYSIS_PROMPT_VERSION = "analysis-v4"; // bump whenever the analysis prompt changes
+
+export interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  model: string;
+  ttsModel: string;
+  ttsVoice: string;
+  onUsage?: (event: AiUsageEvent) => Promise<void>;
+}
+
+const SCRIPT_PROMPT = `You are a professional podcast host creating a daily news digest for young professionals. Create an engaging 5-10 minute podcast script that:
+
+1. Opens with a warm, professional greeting
+2. Introduces the day's top stories briefly
+3. Covers each story with:
+   - Clear, concise explanation
+   - Why it matters to young professionals
+   - Career/business implications when relevant
+   - Positive framing that reduces anxiety
+4. Includes smooth transitions between stories
+5. Ends with an uplifting summary and call to action
+
+Keep the tone conversational, informative, and optimistic. Focus on opportunities, growth, and professional development angles. Each story should be 45-90 seconds when spoken.
+
+Format the script with clear sections: [INTRO], [STORY 1], [STORY 2], etc., [OUTRO]`;
+
+const ANALYSIS_PROMPT = "You are a news analyst for young professionals who want to stay informed without the anxiety. You will receive a JSON array of articles, each with an id.";
+
+const ANALYSIS_FIELDS: Record<AnalysisCapability, string> = {
+  sentiment: "'rating', a sentiment from 0 to 1 (where 1 is most positive/least anxiety-inducing, considering optimism, opportunity, growth and positive career implications), 'confidence', between 0 and 1, and 'anxiety', how strongly the article provokes each kind of anxiety from 0 (not at all) to 1 (intensely), judged on its subject as well as its tone: 'fear' (danger, disasters, threats), 'outrage' (scandal, anger, conflict between people), 'violence' (war, crime, death), 'health' (disease, outbreaks, health scares), 'financial' (job losses, recession, money worries) and 'doom' (catastrophic or hopeless framing)",
+  keywords: "'keywords', up to 10 topics, industries, skills or concepts useful for filtering",
+  summarize: "'summary', a concise, engaging summary under 150 characters that highlights professional insights and positive aspects while staying honest about the content",
+  topics: `'primaryTopic', the one topic the article is mainly about, and 'secondaryTopics', up to ${MAX_SECONDARY_TOPICS} other topics it substantially covers (often none), all chosen from these ids: ${TOPIC_IDS.join(", ")}. Prefer a subtopic id (e.g. technology/ai) over its root when one fits; 'category' is the publisher's own section and only a hint`,
+  entities: `'entities', up to ${MAX_ENTITIES} specific people, organizations, places and products the article names, each with its 'name' as commonly written (full name, no titles) and its 'type', one of ${ENTITY_TYPES.join(", ")}`,
+};
+
+const ANALYSIS_FORMAT: Record<AnalysisCapability, string> = {
+  sentiment: "'rating': number, 'confidence': number, 'anxiety': { 'fear': number, 'outrage': number, 'violence': number, 'health': number, 'financial': number, 'doom': number }",
+  keywords: "'keywords': string[]",
+  summarize: "'summary': string",
+  topics: "'primaryTopic': string, 'secondaryTopics': string[]",
+  entities: `'entities': [{ 'name': string, 'type': string }]`,
+};
+
+// Entries must carry every requested field; an entry that doesn't is dropped, not the batch
+function analysisEntrySchema(capabilities: AnalysisCapability[]) {
+  const optionalUnless = <T extends z.ZodTypeAny>(capability: AnalysisCapability, schema: T) =>
+    capabilities.includes(capability) ? schema : schema.optional();
+
+  return z.object({
+    id: z.number().int().nonnegative(),
+    rating: optionalUnless("sentiment", z.number().min(0).max(1)),
+    confidence: z.number().min(0).max(1).optional(),
+    anxiety: optionalUnless("sentiment", anxietyProfileSchema),
+    keywords: optionalUnless("keywords", z.array(z.string().trim().min(1))),
+    summary: optionalUnless("summarize", z.string().trim().min(1)),
+    primaryTopic: optionalUnless("topics", z.string().refine(isTopicId)),
+    // Unknown secondary ids are dropped rather than failing the entry
+    secondaryTopics: z.array(z.string()).optional(),
+    // Likewise entities of an unknown type
+    entities: optionalUnless("entities", z.array(z.unknown())),
+  });
+}
+
+const entitySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: z.enum(ENTITY_TYPES),
+});
+
+function validEntities(entries: unknown[]): ExtractedEntity[] {
+  return entries
+    .map((entry) => entitySchema.safeParse(entry))
+    .flatMap((parsed) => (parsed.success ? [parsed.data] : []))
+    .slice(0, MAX_ENTITIES);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+export class OpenAIProvider implements AiProvider {
+  readonly name: string;
+  readonly promptVersion = ANALYSIS_PROMPT_VERSION;
+  private client: OpenAI;
+
+  constructor(private options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async analyze(items: AnalysisInput[], capabilities: AnalysisCapability[]): Promise<Array<ArticleAnalysis | null>> {
+    if (items.length === 0) return [];
+
+    const wantsSummary = capabilities.includes("summarize");
+    const wantsTopics = capabilities.includes("topics");
+    const articlesData = items.map((item, id) => ({
+      id,
+      title: item.title,
+      summary: item.summary,
+      ...(wantsSummary ? { content: item.content.substring(0, 1000) } : {}),
+      ...(wantsTopics && item.category ? { category: item.category } : {}),
+    }));
+
+    const result = await this.completeJson(
+      capabilities,
+      `${ANALYSIS_PROMPT}\n\nFor each article return: ${capabilities.map((capability) => ANALYSIS_FIELDS[capability]).join("; ")}. Respond with JSON in this format: { 'results': [{ 'id': number, ${capabilities.map((capability) => ANALYSIS_FORMAT[capability]).join(", ")} }] }, one entry per article.`,
+      `Articles: ${JSON.stringify(articlesData)}`
+    );
+
+    const entrySchema = analysisEntrySchema(capabilities);
+    const analyses: Array<ArticleAnalysis | null> = items.map(() => null);
+    let invalid = 0;
+    for (const entry of Array.isArray(result.results) ? result.results : []) {
+      const parsed = entrySchema.safeParse(entry);
+      if (!parsed.success || parsed.data.id >= items.length) {
+        invalid++;
+        continue;
+      }
+      const { id, rating, confidence, anxiety, keywords, summary, primaryTopic, secondaryTopics, entities } = parsed.data;
+      analyses[id] = {
+        sentiment: rating !== undefined && anxiety !== undefined
+          ? { rating, confidence: confidence ?? 0.5, source: "ai", profile: anxiety }
+          : undefined,
+        keywords: keywords?.slice(0, 10),
+        summary,
+        topics: primaryTopic !== undefined
+          ? {
+              primary: primaryTopic,
+              secondary: (secondaryTopics ?? [])
+                .filter((topic) => isTopicId(topic) && topic !== primaryTopic)
+                .slice(0, MAX_SECONDARY_TOPICS),
+            }
+          : undefined,
+        entities: entities !== undefined ? validEntities(entities) : undefined,
+      };
+    }
+
+    const missing = analyses.filter((analysis) => analysis === null).length;
+    if (invalid > 0 || missing > 0) {
+      console.log(`${this.name} batch analysis: ${invalid} invalid entries, ${missing} of ${items.length} articles without a result`);
+    }
+    return analyses;
+  }
+
+  async curate(articles: CurationCandidate[]): Promise<CurationResult> {
+    const articlesData = articles.map((a) => ({
+      id: a.id,
+      title: a.title,
+      summary: a.summary,
+      sentiment: a.sentiment,
+      keywords: a.keywords,
+      views: a.views,
+    }));
+
+    const result = await this.completeJson(
+      ["curate"],
+      "You are an expert news curator for young professionals. Select articles for: 1) 'curated' - articles that provide value, insights, opportunities, or positive professional content (select up to 10), 2) 'topFive' - the 5 most engaging, trending articles that professionals would want to read. Prioritize content that reduces anxiety while being informative. Return JSON with arrays of article IDs: { 'curated': ['id1', 'id2'], 'topFive': ['id1', 'id2'] }",
+      `Articles to curate: ${JSON.stringify(articlesData)}`
+    );
+
+    // Ignore ids the model made up
+    const known = new Set(articles.map((a) => a.id));
+    return {
+      curated: stringArray(result.curated).filter((id) => known.has(id)),
+      topFive: stringArray(result.topFive).filter((id) => known.has(id)).slice(0, 5),
+    };
+  }
+
+  async generateScript(articles: ScriptArticle[]): Promise<string> {
+    const script = await this.complete(
+      ["script"],
+      SCRIPT_PROMPT,
+      `Create a podcast script for these ${articles.length} stories: ${JSON.stringify(articles, null, 2)}`,
+      2000
+    );
+    if (!script) throw new Error(`${this.name} returned an empty script`);
+    return script;
+  }
+
+  async synthesizeSpeech(script: string): Promise<SpeechResult> {
+    let input = script;
+    if (script.length > TTS_MAX_CHARS) {
+      console.log(`Script too long for TTS (${script.length} chars), truncating`);
+      // Break near 4000 characters to avoid cutting mid-sentence
+      let breakPoint = script.lastIndexOf(".", 4000);
+      if (breakPoint === -1) breakPoint = script.lastIndexOf(" ", 4000);
+      if (breakPoint === -1) breakPoint = 4000;
+
+      input = script.substring(0, breakPoint);
+      if (breakPoint < script.length - 100) {
+        input += "\n\nThat's today's BrightBuzz digest. Thanks for listening, and we'll be back tomorrow with more news designed for professionals like you.";
+      }
+    }
+
+    const speech = await this.client.audio.speech.create({
+      model: this.options.ttsModel,
+      voice: this.options.ttsVoice,
+      input,
+    });
+    await this.reportUsage({
+      capabilities: ["tts"],
+      model: this.options.ttsModel,
+      promptTokens: 0,
+      completionTokens: 0,
+      characters: input.length,
+    });
+    return { audio: Buffer.from(await speech.arrayBuffer()), mimeType: "audio/mpeg" };
+  }
+
+  private async complete(capabilities: AiCapability[], system: string, user: string, maxTokens?: number): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.options.model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+      max_tokens: maxTokens,
+    });
+    await this.reportCompletionUsage(capabilities, response.usage);
+    return response.choices[0]?.message.content?.trim() ?? "";
+  }
+
+  private async completeJson(
+    capabilities: AiCapability[],
+    system: string,
+    user: string
+  ): Promise<Record<string, unknown>> {
+    const response = await this.client.chat.completions.create({
+      model: this.options.model,
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: user },
+      ],
+      response_format: { type: "json_object" },
+    });
+    await this.reportCompletionUsage(capabilities, response.usage);
+
+    const content = response.choices[0]?.message.content;
+    if (!content) throw new Error(`${this.name} returned an empty response`);
+    const result: unknown = JSON.parse(content);
+    if (!result || typeof result !== "object" || Array.isArray(result)) {
+      throw new Error(`${this.name} returned JSON that is not an object`);
+    }
+    return result as Record<string, unknown>;
+  }
+
+  // Servers that omit usage are recorded with zero tokens, so requests are still counted
+  private async reportCompletionUsage(
+    capabilities: AiCapability[],
+    usage: OpenAI.CompletionUsage | undefined
+  ): Promise<void> {
+    await this.reportUsage({
+      capabilities,
+      model: this.options.model,
+      promptTokens: usage?.prompt_tokens ?? 0,
+      completionTokens: usage?.completion_tokens ?? 0,
+      characters: 0,
+    });
+  }
+
+  private async reportUsage(event: AiUsageEvent): Promise<void> {
+    await this.options.onUsage?.(event);
+  }
+}
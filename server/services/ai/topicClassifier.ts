@@ -0,0 +1,166 @@
+import {
+  GENERAL_TOPIC,
+  MAX_SECONDARY_TOPICS,
+  TOPIC_TAXONOMY,
+  getTopic,
+  type TopicAssignment,
+} from "@shared/topics";
+
+/**
+ * Offline topic classification against the shared taxonomy. Each topic has a
+ * list of terms; a term's weight is its inverse topic frequency, so "ai"
+ * (one topic) counts for more than "market" (several). Title terms count
+ * twice. A subtopic's score also counts toward its root; the best root wins
+ * and is narrowed to its best subtopic when that subtopic carries enough of
+ * the score. The feed's own category, when it names a topic, adds a prior.
+ */
+
+const TITLE_WEIGHT = 2;
+const HINT_WEIGHT = 2; // prior for the topic the feed's category names
+const MIN_SCORE = 1.5; // below this the text says too little to classify
+const SUBTOPIC_SHARE = 0.5; // of the root's score a subtopic needs to become the topic
+const SECONDARY_SHARE = 0.5; // of the primary root's score another root needs to be secondary
+
+const TOPIC_TERMS: Record<string, string[]> = {
+  technology: ["tech", "technology", "digital", "device", "devices", "app", "apps", "platform", "silicon valley", "big tech", "computing"],
+  "technology/ai": ["ai", "artificial intelligence", "machine learning", "chatgpt", "openai", "llm", "chatbot", "chatbots", "neural", "generative", "deepmind", "anthropic", "gemini", "copilot", "automation"],
+  "technology/software": ["software", "developer", "developers", "programming", "code", "coding", "open source", "github", "cloud", "api", "linux", "update", "release"],
+  "technology/gadgets": ["iphone", "android", "smartphone", "smartphones", "laptop", "laptops", "chip", "chips", "semiconductor", "gadget", "gadgets", "wearable", "headset", "apple", "samsung", "nvidia", "hardware"],
+  "technology/cybersecurity": ["cybersecurity", "hack", "hacked", "hackers", "ransomware", "breach", "malware", "phishing", "vulnerability", "encryption", "privacy"],
+  "technology/internet": ["social media", "facebook", "instagram", "tiktok", "twitter", "youtube", "meta", "google", "internet", "online", "streaming", "website", "influencer"],
+  business: ["business", "company", "companies", "industry", "corporate", "ceo", "firm", "brand", "retail", "sales", "revenue", "profit", "merger", "acquisition", "deal"],
+  "business/startups": ["startup", "startups", "founder", "founders", "venture capital", "funding round", "seed", "series a", "unicorn", "entrepreneur", "entrepreneurs", "incubator"],
+  "business/companies": ["earnings", "quarterly", "shareholders", "supply chain", "manufacturing", "factory", "layoffs", "expansion", "partnership", "antitrust"],
+  "business/economy": ["economy", "economic", "gdp", "inflation", "recession", "interest rates", "central bank", "federal reserve", "unemployment", "tariff", "tariffs", "trade"],
+  finance: ["finance", "financial", "bank", "banks", "banking", "investment", "investors", "money", "fund", "funds"],
+  "finance/markets": ["stocks", "stock", "shares", "market", "markets", "wall street", "nasdaq", "dow", "bond", "bonds", "ipo", "investors", "trading", "s&p"],
+  "finance/personal": ["savings", "mortgage", "mortgages", "retirement", "budget", "budgeting", "credit card", "credit score", "taxes", "loan", "loans", "debt", "pension", "rent"],
+  "finance/crypto": ["crypto", "cryptocurrency", "bitcoin", "ethereum", "blockchain", "token", "tokens", "stablecoin", "nft", "web3"],
+  career: ["career", "careers", "professional", "professionals", "workplace", "employee", "employees", "employer", "employers", "workers", "office"],
+  "career/jobs": ["job", "jobs", "hiring", "hire", "hires", "recruiting", "recruiter", "salary", "salaries", "wages", "internship", "job market", "applicants", "interview"],
+  "career/remote-work": ["remote", "remote work", "work from home", "hybrid", "return to office", "distributed", "four day week", "flexible working"],
+  "career/skills": ["skills", "upskilling", "reskilling", "training", "learning", "course", "courses", "certification", "degree", "education", "bootcamp", "mentorship"],
+  "career/leadership": ["leadership", "leader", "leaders", "manager", "managers", "management", "executive", "executives", "culture", "productivity", "burnout"],
+  science: ["science", "scientists", "scientific", "study", "researchers", "university", "physics", "biology", "chemistry"],
+  "science/space": ["space", "nasa", "spacex", "rocket", "orbit", "satellite", "mars", "moon", "astronaut", "astronauts", "telescope", "galaxy", "planet", "asteroid"],
+  "science/research": ["research", "discovery", "discovered", "breakthrough", "experiment", "journal", "findings", "laboratory", "fossil", "archaeologists", "genome", "quantum"],
+  environment: ["environment", "environmental", "sustainability", "sustainable", "pollution", "green", "emissions", "carbon"],
+  "environment/climate": ["climate", "climate change", "global warming", "heatwave", "drought", "wildfire", "wildfires", "flooding", "net zero", "cop"],
+  "environment/energy": ["energy", "solar", "wind power", "renewable", "renewables", "oil", "gas", "electric vehicle", "electric vehicles", "ev", "evs", "battery", "batteries", "nuclear power", "grid"],
+  "environment/nature": ["wildlife", "species", "conservation", "forest", "forests", "ocean", "oceans", "biodiversity", "endangered", "habitat", "coral", "animals"],
+  health: ["health", "healthcare", "hospital", "hospitals", "patients", "doctors", "nurses"],
+  "health/medicine": ["medicine", "medical", "drug", "drugs", "vaccine", "vaccines", "treatment", "cancer", "disease", "clinical trial", "fda", "therapy", "surgery", "virus", "outbreak"],
+  "health/wellness": ["fitness", "exercise", "diet", "nutrition", "sleep", "wellness", "workout", "weight loss", "running", "yoga", "healthy"],
+  "health/mental-health": ["mental health", "anxiety", "depression", "stress", "therapist", "mindfulness", "loneliness", "wellbeing"],
+  politics: ["politics", "political", "government", "minister", "president", "congress", "parliament", "senate", "lawmakers", "white house", "prime minister", "democrats", "republicans"],
+  "politics/elections": ["election", "elections", "vote", "voters", "voting", "campaign", "candidate", "candidates", "ballot", "polls", "primary"],
+  "politics/policy": ["policy", "law", "laws", "bill", "legislation", "regulation", "regulators", "court", "supreme court", "ruling", "lawsuit", "ban"],
+  world: ["world", "international", "global", "foreign", "war", "ukraine", "russia", "china", "israel", "gaza", "europe", "european union", "united nations", "nato", "diplomats", "summit", "refugees", "africa", "asia", "middle east"],
+  entertainment: ["entertainment", "celebrity", "celebrities", "star", "stars", "hollywood", "awards", "festival"],
+  "entertainment/film-tv": ["film", "films", "movie", "movies", "box office", "netflix", "series", "episode", "tv", "television", "actor", "actress", "director", "oscars", "emmys", "trailer"],
+  "entertainment/music": ["music", "album", "song", "songs", "singer", "band", "concert", "tour", "grammys", "spotify", "rapper"],
+  "entertainment/gaming": ["game", "games", "gaming", "video game", "playstation", "xbox", "nintendo", "esports", "gamers", "steam"],
+  sports: ["sports", "sport", "football", "soccer", "basketball", "baseball", "tennis", "golf", "cricket", "rugby", "olympics", "nba", "nfl", "fifa", "championship", "tournament", "league", "coach", "players", "match", "season", "world cup"],
+  lifestyle: ["lifestyle", "home", "family", "parenting", "relationships", "shopping"],
+  "lifestyle/food": ["food", "recipe", "recipes", "restaurant", "restaurants", "chef", "cooking", "cuisine", "dining", "coffee", "wine"],
+  "lifestyle/travel": ["travel", "trip", "tourism", "tourists", "flight", "flights", "airline", "airlines", "hotel", "hotels", "vacation", "destination", "airport"],
+  "lifestyle/fashion": ["fashion", "style", "designer", "runway", "clothing", "beauty", "luxury", "collection", "wear", "outfit"],
+};
+
+// Feed categories that don't match a topic label or id
+const CATEGORY_ALIASES: Record<string, string> = {
+  international: "world",
+  "world news": "world",
+  tech: "technology",
+  markets: "finance/markets",
+};
+
+const ROOT_IDS = TOPIC_TAXONOMY.map((root) => root.id);
+
+// Inverse topic frequency: log(topics / topics listing the term) + 1
+const TERM_WEIGHTS = (() => {
+  const topicsPerTerm = new Map<string, number>();
+  for (const terms of Object.values(TOPIC_TERMS)) {
+    for (const term of Array.from(new Set(terms))) {
+      topicsPerTerm.set(term, (topicsPerTerm.get(term) ?? 0) + 1);
+    }
+  }
+  const topicCount = Object.keys(TOPIC_TERMS).length;
+  return new Map(
+    Array.from(topicsPerTerm.entries()).map(([term, count]) => [term, Math.log(topicCount / count) + 1])
+  );
+})();
+
+const TOPICS_BY_TERM = (() => {
+  const byTerm = new Map<string, string[]>();
+  for (const [topic, terms] of Object.entries(TOPIC_TERMS)) {
+    for (const term of Array.from(new Set(terms))) byTerm.set(term, [...(byTerm.get(term) ?? []), topic]);
+  }
+  return byTerm;
+})();
+
+// Single words, pairs and triples, so multi-word terms ("climate change", "series a") match
+function terms(text: string): string[] {
+  const words = text.toLowerCase().replace(/['’]/g, "").split(/[^a-z0-9&]+/).filter(Boolean);
+  const result: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    result.push(words[i]);
+    if (i + 1 < words.length) result.push(`${words[i]} ${words[i + 1]}`);
+    if (i + 2 < words.length) result.push(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  }
+  return result;
+}
+
+export function topicForCategory(category: string | null | undefined): string | null {
+  if (!category) return null;
+  const normalized = category.trim().toLowerCase();
+  if (CATEGORY_ALIASES[normalized]) return CATEGORY_ALIASES[normalized];
+  for (const root of TOPIC_TAXONOMY) {
+    for (const topic of [root, ...(root.children ?? [])]) {
+      if (topic.id === normalized || topic.label.toLowerCase() === normalized) return topic.id;
+    }
+  }
+  return null;
+}
+
+export function classifyTopics(title: string, summary: string, category?: string | null): TopicAssignment {
+  const scores = new Map<string, number>();
+  const add = (topic: string, amount: number) => scores.set(topic, (scores.get(topic) ?? 0) + amount);
+
+  for (const [text, weight] of [[title, TITLE_WEIGHT], [summary, 1]] as const) {
+    for (const term of terms(text)) {
+      for (const topic of TOPICS_BY_TERM.get(term) ?? []) add(topic, weight * TERM_WEIGHTS.get(term)!);
+    }
+  }
+
+  const hint = topicForCategory(category);
+  if (hint) add(hint, HINT_WEIGHT);
+
+  const rootScore = (root: string) =>
+    (scores.get(root) ?? 0) +
+    (getTopic(root)?.children ?? []).reduce((sum, child) => sum + (scores.get(child.id) ?? 0), 0);
+
+  // The root, or its best subtopic when that carries enough of the root's score
+  const narrow = (root: string, total: number) => {
+    const best = (getTopic(root)?.children ?? [])
+      .map((child) => ({ id: child.id, score: scores.get(child.id) ?? 0 }))
+      .sort((a, b) => b.score - a.score)[0];
+    return best && best.score >= total * SUBTOPIC_SHARE ? best.id : root;
+  };
+
+  const ranked = ROOT_IDS
+    .map((root) => ({ root, score: rootScore(root) }))
+    .filter(({ score }) => score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.root.localeCompare(b.root));
+
+  if (ranked.length === 0) return { primary: hint ?? GENERAL_TOPIC, secondary: [] };
+
+  const [best, ...others] = ranked;
+  return {
+    primary: narrow(best.root, best.score),
+    secondary: others
+      .filter(({ score }) => score >= best.score * SECONDARY_SHARE)
+      .slice(0, MAX_SECONDARY_TOPICS)
+      .map(({ root, score }) => narrow(root, score)),
+  };
+}
@@ -0,0 +1,80 @@
+import type { AnxietyProfile, Article, EntityType, SentimentSource } from "@shared/schema";
+import type { TopicAssignment } from "@shared/topics";
+
+/**
+ * An AiProvider implements every AI capability the app uses. aiService picks
+ * a provider per capability from config, so sentiment can run on a local
+ * model while TTS stays on OpenAI, or everything can run offline. Providers
+ * throw on failure; callers decide how to fall back.
+ */
+
+export const AI_CAPABILITIES = ["sentiment", "summarize", "keywords", "topics", "entities", "curate", "script", "tts"] as const;
+export type AiCapability = (typeof AI_CAPABILITIES)[number];
+
+export interface SentimentResult {
+  rating: number; // 0-1, 1 is most positive/least anxiety-inducing
+  confidence: number; // 0-1
+  source: SentimentSource;
+  profile: AnxietyProfile; // 0-1 per dimension, 1 is most anxiety-inducing
+}
+
+export interface CurationResult {
+  curated: string[]; // article ids
+  topFive: string[];
+}
+
+export interface SpeechResult {
+  audio: Buffer;
+  mimeType: string;
+}
+
+export type CurationCandidate = Pick<
+  Article,
+  "id" | "title" | "summary" | "category" | "sentiment" | "keywords" | "views" | "publishedAt" | "publishedAtEstimated"
+>;
+
+export type ScriptArticle = Pick<Article, "title" | "summary" | "source" | "category" | "sentiment">;
+
+// The per-article capabilities, which providers run many articles at a time
+export type AnalysisCapability = Extract<AiCapability, "sentiment" | "summarize" | "keywords" | "topics" | "entities">;
+
+export interface AnalysisInput {
+  title: string;
+  summary: string;
+  content: string; // summaries are written from the body
+  category: string | null; // the feed's own category, a hint for topics
+}
+
+export interface ExtractedEntity {
+  name: string; // as written in the article
+  type: EntityType;
+}
+
+// Only the requested capabilities are set
+export interface ArticleAnalysis {
+  sentiment?: SentimentResult;
+  keywords?: string[];
+  summary?: string;
+  topics?: TopicAssignment;
+  entities?: ExtractedEntity[];
+}
+
+// One remote request, reported by providers for cost accounting
+export interface AiUsageEvent {
+  capabilities: AiCapability[]; // the capabilities the request served
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  characters: number; // speech input, billed per character
+}
+
+export interface AiProvider {
+  name: string;
+  // Identifies the analysis prompt in cache keys; null when results aren't worth caching
+  promptVersion: string | null;
+  // One result per input, in order; null for articles the provider returned nothing valid for
+  analyze(items: AnalysisInput[], capabilities: AnalysisCapability[]): Promise<Array<ArticleAnalysis | null>>;
+  curate(articles: CurationCandidate[]): Promise<CurationResult>;
+  generateScript(articles: ScriptArticle[]): Promise<string>;
+  synthesizeSpeech(script: string): Promise<SpeechResult>;
+}
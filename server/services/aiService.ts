@@ -1,126 +1,365 @@
-import OpenAI from "openai";
+import { createHash } from "crypto";
+import type { AiAnalysis, AiUsageReport } from "@shared/schema";
+import { storage } from "../storage";
+import { OpenAIProvider } from "./ai/openAiProvider";
+import { LocalProvider } from "./ai/localProvider";
+import { CircuitBreaker } from "./ai/circuitBreaker";
+import {
+  getDailyBudget,
+  getExhaustedCapabilities,
+  getUsageToday,
+  recordAiUsage,
+  startOfUtcDay,
+} from "./aiUsageService";
+import {
+  AI_CAPABILITIES,
+  type AiCapability,
+  type AiProvider,
+  type AnalysisCapability,
+  type AnalysisInput,
+  type ArticleAnalysis,
+  type CurationCandidate,
+  type CurationResult,
+  type ScriptArticle,
+  type SpeechResult,
+} from "./ai/types";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+/**
+ * Chooses an AiProvider per capability. Providers:
+ * - "openai": OPENAI_API_KEY, with OPENAI_MODEL (default gpt-4o), OPENAI_TTS_MODEL and OPENAI_TTS_VOICE
+ * - "compatible": an OpenAI-compatible endpoint at AI_COMPATIBLE_BASE_URL
+ *   (e.g. http://localhost:11434/v1), with AI_COMPATIBLE_MODEL, optional
+ *   AI_COMPATIBLE_API_KEY, AI_COMPATIBLE_TTS_MODEL and AI_COMPATIBLE_TTS_VOICE
+ * - "local": deterministic and offline
+ *
+ * AI_PROVIDER sets the provider for every capability; AI_PROVIDER_<CAPABILITY>
+ * (e.g. AI_PROVIDER_TTS=openai) overrides one. Without either, sentiment,
+ * summaries, keywords, topics, entities and TTS use OpenAI when a key is set, and curation and
+ * podcast scripts stay local as they ran before providers were configurable.
+ * A provider that isn't configured falls back to local with a warning.
+ *
+ * Remote calls are guarded: a capability whose daily budget is spent, or
+ * whose provider's circuit breaker is open after repeated errors, runs on
+ * local instead until the budget resets or the breaker closes.
+ */
 
-export async function analyzeSentiment(text: string): Promise<{
-  rating: number,
-  confidence: number
-}> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a sentiment analysis expert focused on reducing anxiety for young professionals. Analyze the sentiment of news content and provide a rating from 0 to 1 (where 1 is most positive/least anxiety-inducing) and a confidence score between 0 and 1. Consider factors like optimism, opportunity, growth, and positive career implications. Respond with JSON in this format: { 'rating': number, 'confidence': number }",
-        },
-        {
-          role: "user",
-          content: text,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
+export type AiProviderName = "openai" | "compatible" | "local";
 
-    const result = JSON.parse(response.choices[0].message.content || '{"rating": 0.5, "confidence": 0.5}');
+const AI_BATCH_SIZE = parseInt(process.env.AI_BATCH_SIZE || "20", 10); // articles per analysis request
+const ANALYSIS_CAPABILITIES: AnalysisCapability[] = ["sentiment", "keywords", "summarize", "topics", "entities"];
 
-    return {
-      rating: Math.max(0, Math.min(1, result.rating)),
-      confidence: Math.max(0, Math.min(1, result.confidence)),
-    };
-  } catch (error) {
-    console.error("Failed to analyze sentiment:", error);
-    return { rating: 0.5, confidence: 0.1 };
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR;
+
+const DEFAULT_PROVIDERS: Record<AiCapability, AiProviderName> = {
+  sentiment: OPENAI_API_KEY ? "openai" : "local",
+  summarize: OPENAI_API_KEY ? "openai" : "local",
+  keywords: OPENAI_API_KEY ? "openai" : "local",
+  topics: OPENAI_API_KEY ? "openai" : "local",
+  entities: OPENAI_API_KEY ? "openai" : "local",
+  curate: "local",
+  script: "local",
+  tts: OPENAI_API_KEY ? "openai" : "local",
+};
+
+export const localProvider = new LocalProvider();
+
+function createProvider(name: AiProviderName): AiProvider | null {
+  switch (name) {
+    case "openai":
+      if (!OPENAI_API_KEY) return null;
+      return new OpenAIProvider({
+        name: "openai",
+        apiKey: OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || "gpt-4o",
+        ttsModel: process.env.OPENAI_TTS_MODEL || "tts-1",
+        ttsVoice: process.env.OPENAI_TTS_VOICE || "nova",
+        onUsage: (event) => recordAiUsage("openai", event),
+      });
+    case "compatible":
+      if (!process.env.AI_COMPATIBLE_BASE_URL || !process.env.AI_COMPATIBLE_MODEL) return null;
+      return new OpenAIProvider({
+        name: "compatible",
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: process.env.AI_COMPATIBLE_API_KEY || "not-needed",
+        baseURL: process.env.AI_COMPATIBLE_BASE_URL,
+        model: process.env.AI_COMPATIBLE_MODEL,
+        ttsModel: process.env.AI_COMPATIBLE_TTS_MODEL || "tts-1",
+        ttsVoice: process.env.AI_COMPATIBLE_TTS_VOICE || "nova",
+        onUsage: (event) => recordAiUsage("compatible", event),
+      });
+    case "local":
+      return localProvider;
   }
 }
 
-export async function summarizeArticle(title: string, content: string): Promise<string> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a professional news curator for young professionals. Create concise, engaging summaries that highlight career opportunities, professional insights, and positive aspects while being honest about the content. Keep summaries under 150 characters.",
-        },
-        {
-          role: "user",
-          content: `Title: ${title}\n\nContent: ${content.substring(0, 1000)}`,
-        },
-      ],
-    });
+function isProviderName(value: string): value is AiProviderName {
+  return value === "openai" || value === "compatible" || value === "local";
+}
 
-    return response.choices[0].message.content || "Summary not available.";
-  } catch (error) {
-    console.error("Failed to summarize article:", error);
-    return "Summary not available.";
+function resolveProviders(): Record<AiCapability, AiProvider> {
+  const instances = new Map<AiProviderName, AiProvider | null>();
+  const resolved = {} as Record<AiCapability, AiProvider>;
+
+  for (const capability of AI_CAPABILITIES) {
+    const configured = process.env[`AI_PROVIDER_${capability.toUpperCase()}`] || process.env.AI_PROVIDER;
+    let name = DEFAULT_PROVIDERS[capability];
+    if (configured) {
+      if (isProviderName(configured)) {
+        name = configured;
+      } else {
+        console.warn(`Unknown AI provider "${configured}" for ${capability}, using ${name}`);
+      }
+    }
+
+    if (!instances.has(name)) instances.set(name, createProvider(name));
+    const provider = instances.get(name);
+    if (!provider) {
+      console.warn(`AI provider "${name}" is not configured, using local for ${capability}`);
+    }
+    resolved[capability] = provider ?? localProvider;
   }
+
+  return resolved;
 }
 
-export async function extractKeywords(text: string): Promise<string[]> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "Extract the most relevant keywords from this news content. Focus on topics, industries, skills, and concepts that would be useful for filtering. Return as a JSON array of strings. Limit to 10 keywords maximum.",
-        },
-        {
-          role: "user",
-          content: text,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
+const providers = resolveProviders();
+
+export function getAiProvider(capability: AiCapability): AiProvider {
+  return providers[capability];
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function breakerFor(provider: AiProvider): CircuitBreaker {
+  let breaker = breakers.get(provider.name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider.name);
+    breakers.set(provider.name, breaker);
+  }
+  return breaker;
+}
+
+// The capabilities a remote provider may be called for right now: those with budget left, none if its circuit is open
+async function allowedCapabilities<C extends AiCapability>(provider: AiProvider, capabilities: C[]): Promise<C[]> {
+  if (provider === localProvider) return capabilities;
 
-    const result = JSON.parse(response.choices[0].message.content || '{"keywords": []}');
-    return Array.isArray(result.keywords) ? result.keywords : [];
+  let allowed = capabilities;
+  try {
+    const exhausted = await getExhaustedCapabilities(capabilities);
+    if (exhausted.length > 0) {
+      console.log(`Daily AI budget spent for ${exhausted.join(", ")}, using local`);
+      allowed = capabilities.filter((capability) => !exhausted.includes(capability));
+    }
   } catch (error) {
-    console.error("Failed to extract keywords:", error);
+    // An unreadable ledger shouldn't take AI down with it; the breaker still applies
+    console.error("Failed to check AI budgets:", error);
+  }
+
+  if (allowed.length > 0 && !breakerFor(provider).canRequest()) {
+    console.log(`AI circuit for ${provider.name} is open, using local for ${allowed.join(", ")}`);
     return [];
   }
+  return allowed;
 }
 
-export async function curateArticles(articles: any[]): Promise<{
-  curated: string[],
-  topFive: string[]
-}> {
+// Run one capability on its provider, or on local when the provider is unavailable
+async function runGuarded<T>(capability: AiCapability, run: (provider: AiProvider) => Promise<T>): Promise<T> {
+  const provider = getAiProvider(capability);
+  if ((await allowedCapabilities(provider, [capability])).length === 0) return run(localProvider);
+  if (provider === localProvider) return run(provider);
+
+  const breaker = breakerFor(provider);
   try {
-    const articlesData = articles.map(a => ({
-      id: a.id,
-      title: a.title,
-      summary: a.summary,
-      sentiment: a.sentiment,
-      keywords: a.keywords,
-      views: a.views
-    }));
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert news curator for young professionals. Select articles for: 1) 'curated' - articles that provide value, insights, opportunities, or positive professional content (select up to 10), 2) 'topFive' - the 5 most engaging, trending articles that professionals would want to read. Prioritize content that reduces anxiety while being informative. Return JSON with arrays of article IDs: { 'curated': ['id1', 'id2'], 'topFive': ['id1', 'id2'] }",
-        },
-        {
-          role: "user",
-          content: `Articles to curate: ${JSON.stringify(articlesData)}`,
-        },
-      ],
-      response_format: { type: "json_object" },
+    const result = await run(provider);
+    breaker.recordSuccess();
+    return result;
+  } catch (error) {
+    breaker.recordFailure();
+    throw error;
+  }
+}
+
+function analysisCacheKey(item: AnalysisInput, promptVersion: string): string {
+  const normalize = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+  return createHash("sha256")
+    .update(`${normalize(item.title)}\n${normalize(item.summary)}\n${promptVersion}`)
+    .digest("hex");
+}
+
+function fromCache(entry: AiAnalysis, capabilities: AnalysisCapability[]): ArticleAnalysis | null {
+  const analysis: ArticleAnalysis = {};
+  for (const capability of capabilities) {
+    if (capability === "sentiment" && entry.sentiment !== null && entry.anxietyProfile !== null) {
+      analysis.sentiment = {
+        rating: entry.sentiment,
+        confidence: entry.sentimentConfidence ?? 0.5,
+        source: "ai",
+        profile: entry.anxietyProfile,
+      };
+    } else if (capability === "keywords" && entry.keywords !== null) {
+      analysis.keywords = entry.keywords;
+    } else if (capability === "summarize" && entry.summary !== null) {
+      analysis.summary = entry.summary;
+    } else if (capability === "topics" && entry.topics !== null) {
+      analysis.topics = entry.topics;
+    } else if (capability === "entities" && entry.entities !== null) {
+      analysis.entities = entry.entities;
+    } else {
+      return null; // a part is missing, so the article goes to the provider
+    }
+  }
+  return analysis;
+}
+
+// Run one provider's capabilities over the items: cache first, then batches for the rest
+async function analyzeWithProvider(
+  provider: AiProvider,
+  capabilities: AnalysisCapability[],
+  items: AnalysisInput[]
+): Promise<Array<ArticleAnalysis | null>> {
+  const { promptVersion } = provider;
+
+  // Identical title and summary (syndicated copies) are analyzed once
+  const keys = items.map((item, index) => (promptVersion ? analysisCacheKey(item, promptVersion) : String(index)));
+  const firstIndexByKey = new Map<string, number>();
+  keys.forEach((key, index) => {
+    if (!firstIndexByKey.has(key)) firstIndexByKey.set(key, index);
+  });
+
+  const cached = new Map<string, ArticleAnalysis>();
+  if (promptVersion) {
+    try {
+      for (const entry of await storage.getAiAnalyses(Array.from(firstIndexByKey.keys()))) {
+        const analysis = fromCache(entry, capabilities);
+        if (analysis) cached.set(entry.key, analysis);
+      }
+    } catch (error) {
+      console.error("Failed to read the AI analysis cache:", error);
+    }
+  }
+
+  const pending = Array.from(firstIndexByKey.entries()).filter(([key]) => !cached.has(key));
+  const analyzed = new Map<string, ArticleAnalysis>(cached);
+  let requests = 0;
+
+  for (let start = 0; start < pending.length; start += AI_BATCH_SIZE) {
+    // Budgets are checked per batch; parts left out fall back to local in the caller
+    const allowed = await allowedCapabilities(provider, capabilities);
+    if (allowed.length === 0) break;
+
+    const batch = pending.slice(start, start + AI_BATCH_SIZE);
+    requests++;
+    try {
+      const analyses = await provider.analyze(batch.map(([, index]) => items[index]), allowed);
+      batch.forEach(([key], position) => {
+        const analysis = analyses[position];
+        if (analysis) analyzed.set(key, analysis);
+      });
+      if (provider !== localProvider) breakerFor(provider).recordSuccess();
+    } catch (error) {
+      console.error(`${provider.name} analysis failed for a batch of ${batch.length} articles:`, error);
+      if (provider !== localProvider) breakerFor(provider).recordFailure();
+    }
+  }
+
+  if (promptVersion) {
+    const entries = pending
+      .filter(([key]) => analyzed.has(key))
+      .map(([key]) => {
+        const analysis = analyzed.get(key)!;
+        return {
+          key,
+          promptVersion,
+          provider: provider.name,
+          sentiment: analysis.sentiment?.rating ?? null,
+          sentimentConfidence: analysis.sentiment?.confidence ?? null,
+          anxietyProfile: analysis.sentiment?.profile ?? null,
+          keywords: analysis.keywords ?? null,
+          summary: analysis.summary ?? null,
+          topics: analysis.topics ?? null,
+          entities: analysis.entities ?? null,
+        };
+      });
+    try {
+      await storage.saveAiAnalyses(entries);
+    } catch (error) {
+      console.error("Failed to write the AI analysis cache:", error);
+    }
+    console.log(`${provider.name} analysis: ${cached.size} cached, ${entries.length} of ${pending.length} analyzed in ${requests} requests`);
+  }
+
+  return keys.map((key) => analyzed.get(key) ?? null);
+}
+
+/**
+ * Sentiment, keywords, summaries, topics and entities for many articles, one batched request
+ * per provider for up to AI_BATCH_SIZE articles. Results the cache already
+ * holds are reused. A part is missing from an article's result when its
+ * provider failed or returned nothing valid for it; callers fall back.
+ */
+export async function analyzeArticles(items: AnalysisInput[]): Promise<ArticleAnalysis[]> {
+  const capabilitiesByProvider = new Map<AiProvider, AnalysisCapability[]>();
+  for (const capability of ANALYSIS_CAPABILITIES) {
+    const provider = getAiProvider(capability);
+    capabilitiesByProvider.set(provider, [...(capabilitiesByProvider.get(provider) ?? []), capability]);
+  }
+
+  const results: ArticleAnalysis[] = items.map(() => ({}));
+  for (const [provider, capabilities] of Array.from(capabilitiesByProvider.entries())) {
+    const analyses = await analyzeWithProvider(provider, capabilities, items);
+    analyses.forEach((analysis, index) => {
+      if (analysis) Object.assign(results[index], analysis);
     });
+  }
+  return results;
+}
+
+export async function curateArticles(articles: CurationCandidate[]): Promise<CurationResult> {
+  return runGuarded("curate", (provider) => provider.curate(articles));
+}
 
-    const result = JSON.parse(response.choices[0].message.content || '{"curated": [], "topFive": []}');
+export async function generatePodcastScript(articles: ScriptArticle[]): Promise<string> {
+  return runGuarded("script", (provider) => {
+    console.log(`Generating podcast script with ${provider.name} provider`);
+    return provider.generateScript(articles);
+  });
+}
+
+export async function synthesizeSpeech(script: string): Promise<SpeechResult> {
+  return runGuarded("tts", (provider) => {
+    console.log(`Generating podcast audio with ${provider.name} provider, script length: ${script.length}`);
+    return provider.synthesizeSpeech(script);
+  });
+}
+
+// Today's spend per capability against its budget, with each provider's circuit state
+export async function getAiUsageReport(): Promise<AiUsageReport> {
+  const usage = await getUsageToday();
+  const capabilities = AI_CAPABILITIES.map((capability) => {
+    const provider = getAiProvider(capability);
+    const totals = usage.get(capability) ?? {
+      capability,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      characters: 0,
+      costUsd: 0,
+    };
+    const budgetUsd = getDailyBudget(capability);
+    const circuit = provider === localProvider ? "closed" : breakerFor(provider).state;
     return {
-      curated: Array.isArray(result.curated) ? result.curated : [],
-      topFive: Array.isArray(result.topFive) ? result.topFive : []
+      ...totals,
+      provider: provider.name,
+      budgetUsd,
+      remainingUsd: Math.max(0, budgetUsd - totals.costUsd),
+      circuit,
+      degraded: provider !== localProvider && (totals.costUsd >= budgetUsd || circuit === "open"),
     };
-  } catch (error) {
-    console.error("Failed to curate articles:", error);
-    return { curated: [], topFive: [] };
-  }
+  });
+
+  return {
+    day: startOfUtcDay().toISOString().slice(0, 10),
+    totalCostUsd: capabilities.reduce((sum, entry) => sum + entry.costUsd, 0),
+    capabilities,
+  };
 }
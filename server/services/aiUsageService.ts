@@ -0,0 +1,93 @@
+import { storage } from "../storage";
+import type { AiUsageTotals } from "@shared/schema";
+import { AI_CAPABILITIES, type AiCapability, type AiUsageEvent } from "./ai/types";
+
+/**
+ * Token and cost accounting for AI requests. Every remote call is written to
+ * the usage ledger with its estimated cost, and each capability has a daily
+ * budget in USD: AI_DAILY_BUDGET_USD for all of them, AI_DAILY_BUDGET_USD_<CAPABILITY>
+ * (e.g. AI_DAILY_BUDGET_USD_TTS=0.5) for one. Days are UTC. Once a
+ * capability's spend reaches its budget, aiService routes it to the local
+ * provider until midnight.
+ */
+
+// USD per million tokens (chat) or per million characters (speech)
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "tts-1": { input: 15, output: 0 },
+  "tts-1-hd": { input: 30, output: 0 },
+};
+
+// Unknown OpenAI models are charged at gpt-4o rates so a budget is never silently unenforced
+const FALLBACK_PRICE = MODEL_PRICES["gpt-4o"];
+
+const DEFAULT_DAILY_BUDGET_USD = parseFloat(process.env.AI_DAILY_BUDGET_USD || "1");
+
+export function getDailyBudget(capability: AiCapability): number {
+  const override = process.env[`AI_DAILY_BUDGET_USD_${capability.toUpperCase()}`];
+  return override ? parseFloat(override) : DEFAULT_DAILY_BUDGET_USD;
+}
+
+export function startOfUtcDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// OpenAI-compatible servers are self-hosted, so their calls are free
+function estimateCost(provider: string, event: AiUsageEvent): number {
+  if (provider !== "openai") return 0;
+  const price = MODEL_PRICES[event.model] ?? FALLBACK_PRICE;
+  return (
+    (event.promptTokens * price.input + event.completionTokens * price.output + event.characters * price.input) /
+    1_000_000
+  );
+}
+
+/**
+ * Write one request to the ledger. A batched analysis request serves several
+ * capabilities; each gets an equal share of its tokens and cost. Failures are
+ * logged, never thrown: losing a ledger row must not fail the AI call.
+ */
+export async function recordAiUsage(provider: string, event: AiUsageEvent): Promise<void> {
+  const share = 1 / event.capabilities.length;
+  const cost = estimateCost(provider, event);
+  try {
+    await storage.recordAiUsage(
+      event.capabilities.map((capability) => ({
+        capability,
+        provider,
+        model: event.model,
+        promptTokens: event.promptTokens * share,
+        completionTokens: event.completionTokens * share,
+        characters: event.characters * share,
+        costUsd: cost * share,
+      }))
+    );
+  } catch (error) {
+    console.error("Failed to record AI usage:", error);
+  }
+}
+
+export async function getUsageToday(): Promise<Map<AiCapability, AiUsageTotals>> {
+  const totals = await storage.getAiUsageTotals(startOfUtcDay());
+  return new Map(
+    totals
+      .filter((total): total is AiUsageTotals & { capability: AiCapability } =>
+        (AI_CAPABILITIES as readonly string[]).includes(total.capability)
+      )
+      .map((total) => [total.capability, total])
+  );
+}
+
+// The capabilities whose spend today has reached their budget
+export async function getExhaustedCapabilities(capabilities: readonly AiCapability[]): Promise<AiCapability[]> {
+  const usage = await getUsageToday();
+  return capabilities.filter((capability) => (usage.get(capability)?.costUsd ?? 0) >= getDailyBudget(capability));
+}
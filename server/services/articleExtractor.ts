@@ -0,0 +1,146 @@
+import { parse, HTMLElement } from 'node-html-parser';
+import { toDimension, type ImageCandidate } from './leadImage';
+import { pickCanonicalUrl } from '../articleUrls';
+import { fetchPublic, readTextUpTo } from './safeFetch';
+
+/**
+ * Readability-style full-text extraction for RSS items whose feed only
+ * carries a teaser. Fetches the article page, scores block containers by
+ * the paragraph text they hold, and returns the best container's text plus
+ * a byline, og:image and canonical URL when the page exposes them.
+ */
+
+export interface ExtractedArticle {
+  content: string | null; // null when the page has no usable body text
+  byline: string | null;
+  leadImage: ImageCandidate | null;
+  canonicalUrl: string | null; // rel=canonical, else the URL after redirects; null when neither is known
+}
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; BrightBuzz/1.0; +https://brightbuzz.vercel.app)';
+const MIN_CONTENT_LENGTH = 500; // anything shorter is probably a paywall or consent page
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+
+const STRIP_SELECTORS = 'script, style, noscript, template, iframe, svg, form, nav, header, footer, aside, button';
+const NEGATIVE_HINTS = /comment|sidebar|footer|promo|related|share|social|newsletter|subscribe|advert|\bad-|cookie|banner|menu|nav/i;
+const POSITIVE_HINTS = /article|body|content|entry|main|post|story|text/i;
+
+function hintScore(element: HTMLElement): number {
+  const hints = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+  let score = 0;
+  if (NEGATIVE_HINTS.test(hints)) score -= 25;
+  if (POSITIVE_HINTS.test(hints)) score += 25;
+  return score;
+}
+
+/**
+ * Credit each paragraph's text length to its parent and (half) to its
+ * grandparent, then pick the container with the highest total
+ */
+function findMainContainer(root: HTMLElement): HTMLElement | null {
+  const scores = new Map<HTMLElement, number>();
+
+  for (const paragraph of root.querySelectorAll('p')) {
+    const length = paragraph.text.trim().length;
+    if (length < 40) continue;
+
+    const parent = paragraph.parentNode;
+    const grandparent = parent?.parentNode;
+    if (parent) scores.set(parent, (scores.get(parent) ?? hintScore(parent)) + length);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? hintScore(grandparent)) + length / 2);
+  }
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [element, score] of Array.from(scores.entries())) {
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function extractByline(root: HTMLElement): string | null {
+  const metaAuthor =
+    root.querySelector('meta[name="author"]')?.getAttribute('content') ||
+    root.querySelector('meta[property="article:author"]')?.getAttribute('content');
+  // article:author is often a profile URL rather than a name
+  if (metaAuthor && !/^https?:\/\//.test(metaAuthor)) return metaAuthor.trim();
+
+  const bylineElement =
+    root.querySelector('[itemprop="author"]') ||
+    root.querySelector('[rel="author"]') ||
+    root.querySelector('.byline');
+  const byline = bylineElement?.text.replace(/\s+/g, ' ').replace(/^by\s+/i, '').trim();
+
+  return byline && byline.length < 100 ? byline : null;
+}
+
+function extractLeadImage(root: HTMLElement): ImageCandidate | null {
+  const meta = (selector: string) => root.querySelector(selector)?.getAttribute('content')?.trim();
+
+  const url =
+    meta('meta[property="og:image:secure_url"]') ||
+    meta('meta[property="og:image"]') ||
+    meta('meta[name="twitter:image"]') ||
+    meta('meta[property="twitter:image"]');
+  if (!url) return null;
+
+  return {
+    url,
+    width: toDimension(meta('meta[property="og:image:width"]')),
+    height: toDimension(meta('meta[property="og:image:height"]')),
+    type: meta('meta[property="og:image:type"]'),
+  };
+}
+
+function extractContent(root: HTMLElement): string | null {
+  // Trust <article> only when it holds the body, not just a teaser card
+  const article = root.querySelector('article');
+  const container = article && article.text.length >= MIN_CONTENT_LENGTH ? article : findMainContainer(root);
+  if (!container) return null;
+
+  const paragraphs = container
+    .querySelectorAll('p, h2, h3, li, blockquote')
+    .map(element => element.text.replace(/\s+/g, ' ').trim())
+    .filter(text => text.length > 0);
+
+  const content = paragraphs.join('\n\n');
+  return content.length >= MIN_CONTENT_LENGTH ? content : null;
+}
+
+// redirectChain: the URLs redirected through to reach pageUrl (see pickCanonicalUrl)
+export function extractFromHtml(html: string, pageUrl?: string, redirectChain: string[] = []): ExtractedArticle | null {
+  const root = parse(html);
+  const byline = extractByline(root);
+  const leadImage = extractLeadImage(root);
+  const canonicalUrl = pageUrl
+    ? pickCanonicalUrl(root.querySelector('link[rel="canonical"]')?.getAttribute('href'), pageUrl, redirectChain) ?? pageUrl
+    : null;
+
+  root.querySelectorAll(STRIP_SELECTORS).forEach(element => element.remove());
+
+  const content = extractContent(root);
+  if (!content && !leadImage && !canonicalUrl) return null;
+
+  return { content, byline, leadImage, canonicalUrl };
+}
+
+export async function extractArticle(url: string, timeoutMs: number): Promise<ExtractedArticle | null> {
+  const { response, url: pageUrl, redirectChain } = await fetchPublic(url, {
+    headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml' },
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!response.ok || !contentType.includes('html')) {
+    await response.body?.cancel().catch(() => undefined);
+    return null;
+  }
+
+  const html = await readTextUpTo(response, MAX_PAGE_BYTES);
+  if (html === null) return null;
+
+  return extractFromHtml(html, pageUrl, redirectChain);
+}
@@ -0,0 +1,90 @@
+/**
+ * Publication date parsing for feed items. Feeds supply ISO 8601, RFC-822
+ * (often with two-digit years or non-US zone abbreviations) and assorted
+ * local formats; everything is resolved to an absolute instant here so the
+ * database can store timestamptz. Dates that can't be parsed fall back to the
+ * time we first saw the item and are flagged as estimated; future dates are
+ * clamped to now.
+ *
+ * An estimated date only orders articles and ages them out through retention.
+ * It never counts as recent: freshness windows (the feed's date cutoff,
+ * curation, story matching, trending entities) leave estimated articles out,
+ * as they do rows migrated from unparseable text dates (see
+ * migrations/manual/0001_timestamptz_dates.sql).
+ */
+
+export interface ParsedPublishedDate {
+  date: Date;
+  estimated: boolean; // missing or unparseable, so date is when we first saw the item
+}
+
+const MIN_VALID_YEAR = 1995; // earlier than any feed we carry; usually a zeroed field
+
+// Zone abbreviations V8's Date parser doesn't know (it handles UT/GMT/Z and US zones)
+const ZONE_OFFSETS: Record<string, string> = {
+  BST: "+0100",
+  IST: "+0530",
+  CET: "+0100",
+  CEST: "+0200",
+  EET: "+0200",
+  EEST: "+0300",
+  WET: "+0000",
+  WEST: "+0100",
+  MSK: "+0300",
+  JST: "+0900",
+  KST: "+0900",
+  HKT: "+0800",
+  SGT: "+0800",
+  AEST: "+1000",
+  AEDT: "+1100",
+  ACST: "+0930",
+  AWST: "+0800",
+  NZST: "+1200",
+  NZDT: "+1300",
+};
+
+function normalizeDateString(value: string): string {
+  let normalized = value.trim().replace(/\s+/g, " ");
+
+  // RFC-822 two-digit years: "20 Oct 25" -> "20 Oct 2025"
+  normalized = normalized.replace(
+    /\b(\d{1,2} [A-Za-z]{3,}\.?) (\d{2})(?= \d{1,2}:)/,
+    (_match, dayMonth: string, year: string) => `${dayMonth} ${parseInt(year, 10) < 70 ? "20" : "19"}${year}`
+  );
+
+  normalized = normalized.replace(/\b([A-Z]{3,4})$/, (match, zone: string) => ZONE_OFFSETS[zone] ?? match);
+
+  // Dates with a time but no zone are taken as UTC rather than server-local time
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(normalized)) {
+    normalized = `${normalized.replace(" ", "T")}Z`;
+  } else if (/\d{1,2}:\d{2}(:\d{2})?( ?[AP]M)?$/i.test(normalized) && !/[+-]\d{2}:?\d{2}$/.test(normalized)) {
+    normalized = `${normalized} GMT`;
+  }
+
+  return normalized;
+}
+
+function parseDateValue(value: string): Date | null {
+  // Unix timestamps, in seconds or milliseconds
+  if (/^\d{9,13}$/.test(value)) {
+    const timestamp = parseInt(value, 10);
+    return new Date(value.length > 10 ? timestamp : timestamp * 1000);
+  }
+
+  const time = Date.parse(normalizeDateString(value));
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+export function parsePublishedDate(
+  value: string | Date | null | undefined,
+  now: Date = new Date()
+): ParsedPublishedDate {
+  const parsed = value instanceof Date ? value : value ? parseDateValue(value.trim()) : null;
+
+  if (!parsed || Number.isNaN(parsed.getTime()) || parsed.getUTCFullYear() < MIN_VALID_YEAR) {
+    return { date: now, estimated: true };
+  }
+
+  // Feeds with the wrong zone (or scheduled posts) can claim to be from the future
+  return { date: parsed.getTime() > now.getTime() ? now : parsed, estimated: false };
+}
@@ -0,0 +1,56 @@
+import { storage } from "../storage";
+import type { EntityType, InsertArticleEntity, TrendingEntity } from "@shared/schema";
+import { entityKey } from "./ai/entityExtractor";
+import type { ExtractedEntity } from "./ai/types";
+
+/**
+ * Named entities across articles. An entity is identified by its type and a
+ * key normalized from its name, so "OpenAI" and "Openai" in two articles are
+ * one entity while a person and a place sharing a name are two. Users follow
+ * entities to boost articles that mention them and mute them to hide those
+ * articles.
+ */
+
+export { entityKey };
+
+// "organization:openai": how follows and mutes refer to an entity
+export function entityId(entity: { type: EntityType; key: string }): string {
+  return `${entity.type}:${entity.key}`;
+}
+
+// Rows for an article's entities, one per type and key
+export function toEntityRows(entities: ExtractedEntity[]): Omit<InsertArticleEntity, "articleId">[] {
+  const rows = new Map<string, Omit<InsertArticleEntity, "articleId">>();
+  for (const { name, type } of entities) {
+    const key = entityKey(name);
+    if (key && !rows.has(entityId({ type, key }))) rows.set(entityId({ type, key }), { type, name, key });
+  }
+  return Array.from(rows.values());
+}
+
+export async function getTrendingEntities(days: number, limit: number, type?: EntityType): Promise<TrendingEntity[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return await storage.getTrendingEntities(since, limit, type);
+}
+
+/**
+ * A user's follows and mutes as entity ids, for the filtering pipeline
+ */
+export async function getEntityFilter(userId: string): Promise<{ followed: string[]; muted: string[] }> {
+  const preferences = await storage.getEntityPreferences(userId);
+  return {
+    followed: preferences.filter((preference) => preference.action === "follow").map(entityId),
+    muted: preferences.filter((preference) => preference.action === "mute").map(entityId),
+  };
+}
+
+// Entity ids mentioned by each article
+export async function getEntityIdsByArticle(articleIds: string[]): Promise<Map<string, Set<string>>> {
+  const byArticle = new Map<string, Set<string>>();
+  for (const entity of await storage.getArticleEntities(articleIds)) {
+    const ids = byArticle.get(entity.articleId) ?? new Set<string>();
+    ids.add(entityId(entity));
+    byArticle.set(entity.articleId, ids);
+  }
+  return byArticle;
+}
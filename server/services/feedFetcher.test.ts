@@ -0,0 +1,208 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { FetchPool, fetchFeed, type FeedValidators } from "./feedFetcher";
+
+const ETAG = '"feed-v1"';
+const LAST_MODIFIED = "Tue, 14 May 2024 09:30:00 GMT";
+const FEED = '<?xml version="1.0"?><rss version="2.0"><channel><title>Stub</title></channel></rss>';
+const SLOW_MS = 40;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The stub listens on loopback, which the default public-address check refuses
+const fetchStub = (url: string, validators: FeedValidators) =>
+  fetchFeed(url, validators, { checkUrl: async () => undefined });
+
+// A feed that honours validators, plus a slow endpoint that tracks concurrent requests
+let server: Server;
+let baseUrl: string;
+let received: IncomingMessage[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    received.push(req);
+
+    if (req.url === "/feed") {
+      if (req.headers["if-none-match"] === ETAG || req.headers["if-modified-since"] === LAST_MODIFIED) {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, {
+        "Content-Type": "application/rss+xml",
+        ETag: ETAG,
+        "Last-Modified": LAST_MODIFIED,
+        Link: '<https://hub.example/>; rel="hub"',
+      });
+      res.end(FEED);
+      return;
+    }
+
+    if (req.url === "/redirect") {
+      res.writeHead(302, { Location: "/feed" }).end();
+      return;
+    }
+
+    if (req.url === "/huge") {
+      // Chunked, so only counting the bytes catches it
+      res.writeHead(200, { "Content-Type": "application/rss+xml" });
+      const chunk = "x".repeat(64 * 1024);
+      for (let i = 0; i < 64; i++) res.write(chunk);
+      res.end();
+      return;
+    }
+
+    if (req.url === "/slow") {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(SLOW_MS);
+      inFlight--;
+      res.writeHead(200, { "Content-Type": "application/rss+xml" }).end(FEED);
+      return;
+    }
+
+    res.writeHead(500).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const resetCounters = () => {
+  received = [];
+  inFlight = 0;
+  maxInFlight = 0;
+};
+
+describe("fetchFeed", () => {
+  it("returns the body, content type, validators and Link header", async () => {
+    const result = await fetchStub(`${baseUrl}/feed`, { etag: null, lastModified: null });
+    assert.equal(result.status, "ok");
+    if (result.status !== "ok") return;
+    assert.equal(result.body, FEED);
+    assert.equal(result.contentType, "application/rss+xml");
+    assert.deepEqual(result.validators, { etag: ETAG, lastModified: LAST_MODIFIED });
+    assert.equal(result.linkHeader, '<https://hub.example/>; rel="hub"');
+  });
+
+  it("sends stored validators back and reports a 304 as not modified", async () => {
+    const first = await fetchStub(`${baseUrl}/feed`, { etag: null, lastModified: null });
+    assert.equal(first.status, "ok");
+    if (first.status !== "ok") return;
+
+    resetCounters();
+    assert.deepEqual(await fetchStub(`${baseUrl}/feed`, first.validators), { status: "not_modified" });
+    assert.equal(received[0].headers["if-none-match"], ETAG);
+    assert.equal(received[0].headers["if-modified-since"], LAST_MODIFIED);
+
+    // Either validator alone is enough
+    assert.equal((await fetchStub(`${baseUrl}/feed`, { etag: null, lastModified: LAST_MODIFIED })).status, "not_modified");
+    assert.equal((await fetchStub(`${baseUrl}/feed`, { etag: ETAG, lastModified: null })).status, "not_modified");
+  });
+
+  it("sends no conditional headers without validators", async () => {
+    resetCounters();
+    await fetchStub(`${baseUrl}/feed`, { etag: null, lastModified: null });
+    assert.equal(received[0].headers["if-none-match"], undefined);
+    assert.equal(received[0].headers["if-modified-since"], undefined);
+  });
+
+  it("throws on error statuses", async () => {
+    await assert.rejects(fetchStub(`${baseUrl}/missing`, { etag: null, lastModified: null }), /Status code 500/);
+  });
+
+  it("refuses private addresses by default", async () => {
+    resetCounters();
+    await assert.rejects(fetchFeed(`${baseUrl}/feed`, { etag: null, lastModified: null }), /private or reserved address/);
+    assert.equal(received.length, 0);
+  });
+
+  it("checks every redirect target before requesting it", async () => {
+    const checked: string[] = [];
+    const result = await fetchFeed(`${baseUrl}/redirect`, { etag: null, lastModified: null }, {
+      checkUrl: async (url) => {
+        checked.push(url);
+      },
+    });
+    assert.equal(result.status, "ok");
+    assert.deepEqual(checked, [`${baseUrl}/redirect`, `${baseUrl}/feed`]);
+
+    resetCounters();
+    const refuseFeed = async (url: string) => {
+      if (url.endsWith("/feed")) throw new Error("Refusing to fetch");
+    };
+    await assert.rejects(
+      fetchFeed(`${baseUrl}/redirect`, { etag: null, lastModified: null }, { checkUrl: refuseFeed }),
+      /Refusing to fetch/
+    );
+    assert.deepEqual(received.map((req) => req.url), ["/redirect"]);
+  });
+
+  it("rejects bodies over the size cap", async () => {
+    await assert.rejects(fetchStub(`${baseUrl}/huge`, { etag: null, lastModified: null }), /Feed is larger than 3 MB/);
+  });
+});
+
+describe("FetchPool", () => {
+  it("runs one request at a time per host, spaced by the host delay", async () => {
+    resetCounters();
+    const hostDelayMs = 30;
+    const pool = new FetchPool(4, hostDelayMs);
+    const finished: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        pool.run(`${baseUrl}/slow`, async () => {
+          await fetchStub(`${baseUrl}/slow`, { etag: null, lastModified: null });
+          finished.push(Date.now());
+        })
+      )
+    );
+
+    assert.equal(received.length, 3);
+    assert.equal(maxInFlight, 1);
+    for (let i = 1; i < finished.length; i++) {
+      assert.ok(finished[i] - finished[i - 1] >= SLOW_MS + hostDelayMs - 5, "requests to one host are spaced out");
+    }
+  });
+
+  it("caps concurrent requests across hosts at the pool size", async () => {
+    resetCounters();
+    const pool = new FetchPool(2, 0);
+
+    // Six hosts as far as the pool is concerned; every task hits the stub
+    await Promise.all(
+      [1, 2, 3, 4, 5, 6].map((i) =>
+        pool.run(`https://host-${i}.example/feed`, () => fetchStub(`${baseUrl}/slow`, { etag: null, lastModified: null }))
+      )
+    );
+
+    assert.equal(received.length, 6);
+    assert.equal(maxInFlight, 2);
+  });
+
+  it("runs different hosts in parallel up to the limit", async () => {
+    resetCounters();
+    const pool = new FetchPool(8, 0);
+    await Promise.all(
+      [1, 2, 3].map((i) =>
+        pool.run(`https://host-${i}.example/feed`, () => fetchStub(`${baseUrl}/slow`, { etag: null, lastModified: null }))
+      )
+    );
+    assert.equal(maxInFlight, 3);
+  });
+
+  it("releases the host and slot when a task fails", async () => {
+    const pool = new FetchPool(1, 0);
+    await assert.rejects(pool.run(`${baseUrl}/missing`, () => fetchStub(`${baseUrl}/missing`, { etag: null, lastModified: null })));
+    const result = await pool.run(`${baseUrl}/feed`, () => fetchStub(`${baseUrl}/feed`, { etag: null, lastModified: null }));
+    assert.equal(result.status, "ok");
+  });
+});
@@ -0,0 +1,134 @@
+import { assertPublicUrl, fetchPublic, readTextUpTo } from './safeFetch';
+
+/**
+ * HTTP layer for feed polling: conditional GET with ETag / Last-Modified
+ * validators, and a pool that bounds total concurrency while keeping at most
+ * one request in flight per host. Feed URLs come from users, so requests go
+ * through fetchPublic and bodies are capped.
+ */
+
+const USER_AGENT = 'BrightBuzz RSS Reader 1.0';
+const MAX_FEED_BYTES = 3 * 1024 * 1024; // same cap as article pages
+
+export interface FeedValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export type FeedFetchResult =
+  | { status: 'ok'; body: string; contentType: string | null; validators: FeedValidators; linkHeader: string | null }
+  | { status: 'not_modified' };
+
+export interface FeedFetchOptions {
+  timeoutMs?: number;
+  checkUrl?: (url: string) => Promise<void>; // run on the URL and every redirect target
+}
+
+// fetchFeed's shape, so adapters can be handed a recorded one in tests
+export type FeedFetcher = typeof fetchFeed;
+
+export async function fetchFeed(
+  url: string,
+  validators: FeedValidators,
+  { timeoutMs = 10000, checkUrl = assertPublicUrl }: FeedFetchOptions = {}
+): Promise<FeedFetchResult> {
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, text/xml;q=0.9, application/json;q=0.8, */*;q=0.7',
+  };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const { response } = await fetchPublic(
+    url,
+    { headers, signal: AbortSignal.timeout(timeoutMs) },
+    { checkUrl }
+  );
+
+  if (response.status === 304) {
+    return { status: 'not_modified' };
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new Error(`Status code ${response.status}`);
+  }
+
+  const body = await readTextUpTo(response, MAX_FEED_BYTES);
+  if (body === null) {
+    throw new Error(`Feed is larger than ${MAX_FEED_BYTES / (1024 * 1024)} MB`);
+  }
+
+  return {
+    status: 'ok',
+    body,
+    contentType: response.headers.get('content-type'),
+    validators: {
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    },
+    linkHeader: response.headers.get('link'), // may advertise a WebSub hub
+  };
+}
+
+/**
+ * Concurrency-limited task runner with per-host politeness: tasks for the
+ * same host run one at a time with at least hostDelayMs between them, and
+ * only tasks that are clear to run occupy one of the global slots.
+ */
+export class FetchPool {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private hostQueues = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly hostDelayMs: number
+  ) {}
+
+  async run<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = this.getHost(url);
+
+    // Queue behind the previous task for this host
+    const previous = this.hostQueues.get(host) ?? Promise.resolve();
+    let releaseHost!: () => void;
+    const current = new Promise<void>((resolve) => (releaseHost = resolve));
+    this.hostQueues.set(host, previous.then(() => current));
+
+    await previous;
+    await this.acquireSlot();
+
+    try {
+      return await task();
+    } finally {
+      this.releaseSlot();
+      setTimeout(releaseHost, this.hostDelayMs);
+    }
+  }
+
+  private getHost(url: string): string {
+    try {
+      return new URL(url).host.toLowerCase();
+    } catch {
+      return url;
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
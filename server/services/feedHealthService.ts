@@ -0,0 +1,134 @@
+import { storage } from "../storage";
+import type { NewsSource, FeedHealthEntry, FeedHealthReport, FeedHealthStatus } from "@shared/schema";
+import type { FeedValidators } from "./feedFetcher";
+import { cancelSubscription } from "./websubService";
+
+/**
+ * Feed health tracking. Every poll records either a success (item count and
+ * latency folded into running averages) or a failure; a source that fails
+ * FEED_FAILURE_THRESHOLD times in a row is disabled so dead feeds stop
+ * costing a timeout on every refresh.
+ */
+
+export const FEED_FAILURE_THRESHOLD = parseInt(process.env.FEED_FAILURE_THRESHOLD || "5", 10);
+
+const MAX_ERROR_LENGTH = 500;
+
+function runningAverage(previous: number | null, sample: number, count: number): number {
+  if (previous === null || count <= 1) return sample;
+  return previous + (sample - previous) / count;
+}
+
+export async function recordFetchSuccess(
+  source: NewsSource,
+  itemCount: number,
+  latencyMs: number,
+  validators: FeedValidators
+): Promise<void> {
+  const successCount = source.successCount + 1;
+
+  await storage.updateNewsSource(source.id, {
+    lastSuccessAt: new Date(),
+    consecutiveFailures: 0,
+    successCount,
+    avgItemCount: runningAverage(source.avgItemCount, itemCount, successCount),
+    avgLatencyMs: runningAverage(source.avgLatencyMs, latencyMs, successCount),
+    etag: validators.etag,
+    lastModified: validators.lastModified,
+  });
+}
+
+/**
+ * A 304 proves the feed is alive but carries no items, so it resets the
+ * failure streak without touching the item/latency averages
+ */
+export async function recordNotModified(source: NewsSource): Promise<void> {
+  await storage.updateNewsSource(source.id, {
+    lastSuccessAt: new Date(),
+    consecutiveFailures: 0,
+  });
+}
+
+export async function recordFetchFailure(source: NewsSource, error: unknown): Promise<void> {
+  const consecutiveFailures = source.consecutiveFailures + 1;
+  const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+  const shouldDisable = source.enabled !== false && consecutiveFailures >= FEED_FAILURE_THRESHOLD;
+
+  if (shouldDisable) {
+    console.warn(`Disabling RSS feed ${source.name} after ${consecutiveFailures} consecutive failures`);
+    await cancelSubscription(source);
+  }
+
+  await storage.updateNewsSource(source.id, {
+    lastErrorAt: new Date(),
+    lastError: message,
+    consecutiveFailures,
+    ...(shouldDisable ? { enabled: false, autoDisabledAt: new Date() } : {}),
+  });
+}
+
+/**
+ * Re-enable a source (typically one that was auto-disabled) and give it a
+ * clean failure count
+ */
+export async function resetFeedHealth(id: string): Promise<NewsSource | undefined> {
+  return await storage.updateNewsSource(id, {
+    enabled: true,
+    consecutiveFailures: 0,
+    autoDisabledAt: null,
+  });
+}
+
+function getHealthStatus(source: NewsSource): FeedHealthStatus {
+  if (source.enabled === false) return "disabled";
+  if (source.consecutiveFailures > 0) return "failing";
+  if (!source.lastSuccessAt) return "never_fetched";
+  return "healthy";
+}
+
+/**
+ * Build the admin health report, worst sources first
+ */
+export async function getFeedHealthReport(): Promise<FeedHealthReport> {
+  const sources = await storage.getNewsSources();
+
+  const entries: FeedHealthEntry[] = sources.map((source) => ({
+    id: source.id,
+    name: source.name,
+    url: source.url,
+    category: source.category,
+    ownerId: source.ownerId,
+    status: getHealthStatus(source),
+    enabled: source.enabled !== false,
+    lastSuccessAt: source.lastSuccessAt,
+    lastErrorAt: source.lastErrorAt,
+    lastError: source.lastError,
+    consecutiveFailures: source.consecutiveFailures,
+    avgItemCount: source.avgItemCount,
+    avgLatencyMs: source.avgLatencyMs,
+    autoDisabledAt: source.autoDisabledAt,
+  }));
+
+  const statusOrder: Record<FeedHealthStatus, number> = {
+    disabled: 0,
+    failing: 1,
+    never_fetched: 2,
+    healthy: 3,
+  };
+  entries.sort(
+    (a, b) =>
+      statusOrder[a.status] - statusOrder[b.status] ||
+      b.consecutiveFailures - a.consecutiveFailures ||
+      a.name.localeCompare(b.name)
+  );
+
+  const summary = { total: entries.length, healthy: 0, failing: 0, disabled: 0, never_fetched: 0 };
+  for (const entry of entries) summary[entry.status]++;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    failureThreshold: FEED_FAILURE_THRESHOLD,
+    summary,
+    sources: entries,
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import { detectFeedFormat, parseFeed } from "./feedParser";
+
+const fixture = (name: string) => readFileSync(path.join(import.meta.dirname, "__fixtures__", "feeds", name), "utf8");
+
+describe("detectFeedFormat", () => {
+  it("recognizes each format from the body", () => {
+    assert.equal(detectFeedFormat(fixture("rss2.xml")), "rss");
+    assert.equal(detectFeedFormat(fixture("atom.xml")), "atom");
+    assert.equal(detectFeedFormat(fixture("jsonfeed.json")), "json");
+    assert.equal(detectFeedFormat('<?xml version="1.0"?><rdf:RDF xmlns:rdf="x"></rdf:RDF>'), "rss");
+  });
+
+  it("uses the content type when the body doesn't say", () => {
+    assert.equal(detectFeedFormat("<?xml version=\"1.0\"?>", "application/atom+xml"), "atom");
+    assert.equal(detectFeedFormat("  [", "application/feed+json"), "json");
+  });
+
+  it("trusts an <rss> root over an Atom content type", () => {
+    assert.equal(detectFeedFormat(fixture("rss2.xml"), "application/atom+xml"), "rss");
+  });
+});
+
+describe("parseFeed", () => {
+  it("maps RSS 2.0 items, preferring content:encoded for the body", async () => {
+    const { format, entries } = await parseFeed(fixture("rss2.xml"), "application/rss+xml");
+    assert.equal(format, "rss");
+    assert.equal(entries.length, 2);
+
+    const [bridge, library] = entries;
+    assert.equal(bridge.title, "Volunteers restore a century-old footbridge");
+    assert.equal(bridge.link, "https://news.example.com/2024/05/footbridge?utm_source=rss");
+    assert.equal(bridge.summary, "A group of neighbours spent a year rebuilding the bridge.");
+    assert.match(bridge.content, /bridge-inline\.jpg/);
+    assert.equal(bridge.published, "Tue, 14 May 2024 09:30:00 +0000");
+    assert.equal(bridge.updated, null);
+    assert.equal(bridge.author, "Sam Rivera");
+    assert.deepEqual(bridge.images.map((image) => image.url), [
+      "https://news.example.com/img/bridge.jpg",
+      "https://news.example.com/img/bridge-inline.jpg",
+    ]);
+    assert.deepEqual(bridge.images[0], {
+      url: "https://news.example.com/img/bridge.jpg",
+      width: 1200,
+      height: 675,
+      type: "image/jpeg",
+    });
+
+    // No content:encoded: the description is the body too
+    assert.equal(library.content, "Readers asked, and the council listened.");
+    assert.equal(library.author, "editor@news.example.com (Alex Kim)");
+    assert.deepEqual(library.images, [{ url: "https://news.example.com/img/library.png", type: "image/png" }]);
+  });
+
+  it("maps Atom entries, keeping published and updated apart", async () => {
+    const { format, entries } = await parseFeed(fixture("atom.xml"), "application/atom+xml");
+    assert.equal(format, "atom");
+
+    const [coral, solar] = entries;
+    assert.equal(coral.title, "Coral reefs show record recovery"); // type="html" title decoded
+    assert.equal(coral.link, "https://science.example.org/posts/coral-recovery");
+    assert.equal(coral.published, "2024-05-12T08:00:00Z");
+    assert.equal(coral.updated, "2024-05-13T10:15:00Z");
+    assert.equal(coral.author, "Dr. Priya Nair");
+    assert.deepEqual(coral.images, [{ url: "https://science.example.org/img/coral.jpg", type: "image/jpeg" }]);
+
+    // <summary> is the summary and <content> the body
+    assert.equal(coral.summary, "Surveys found new growth on half of the monitored reefs.");
+    assert.match(coral.content, /best result in a decade/);
+
+    // Without <published> only updated is known; without <content> the summary is the body
+    assert.equal(solar.published, null);
+    assert.equal(solar.updated, "2024-05-11T07:45:00Z");
+    assert.equal(solar.author, "Jordan Lee");
+    assert.equal(solar.summary, "The site now powers 4,000 homes.");
+    assert.equal(solar.content, "The site now powers 4,000 homes.");
+  });
+
+  it("maps JSON Feed 1.1 and 1.0 items", async () => {
+    const { format, entries } = await parseFeed(fixture("jsonfeed.json"), "application/feed+json");
+    assert.equal(format, "json");
+
+    const [hats, bakery] = entries;
+    assert.equal(hats.link, "https://kind.example.net/p/1");
+    assert.equal(hats.summary, "A school project grew into a city-wide effort.");
+    assert.match(hats.content, /^<p>/);
+    assert.equal(hats.published, "2024-05-10T15:00:00-04:00");
+    assert.equal(hats.updated, "2024-05-11T09:00:00-04:00");
+    assert.equal(hats.author, "Maria Lopez, Chen Wei");
+    assert.deepEqual(hats.images.map((image) => image.url), [
+      "https://kind.example.net/img/hats.jpg",
+      "https://kind.example.net/img/hats-inline.jpg",
+    ]);
+
+    // external_url, content_text and the 1.0 author object
+    assert.equal(bakery.link, "https://other.example.com/story");
+    assert.equal(bakery.summary, "Nothing goes to waste at the corner bakery.");
+    assert.equal(bakery.content, "Nothing goes to waste at the corner bakery.");
+    assert.equal(bakery.published, null);
+    assert.equal(bakery.author, "Ola Nordmann");
+  });
+
+  it("rejects JSON that isn't a JSON Feed", async () => {
+    await assert.rejects(parseFeed('{"items": []}'), /Not a JSON Feed/);
+  });
+});
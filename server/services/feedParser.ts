@@ -0,0 +1,189 @@
+import Parser from 'rss-parser';
+import { parse } from 'node-html-parser';
+import { findInlineImages, toDimension, type ImageCandidate } from './leadImage';
+
+/**
+ * Format-detecting feed parser. RSS 2.0 / RDF and Atom go through
+ * rss-parser (with the Atom fields it drops added back as custom fields);
+ * JSON Feed 1.0/1.1 is parsed directly. Every format is normalized into
+ * FeedEntry so RSSAdapter maps one shape into ParsedSourceItem.
+ */
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  summary: string; // short description, HTML or text
+  content: string; // full body when the feed carries one, HTML or text
+  published: string | null;
+  updated: string | null;
+  author: string | null;
+  images: ImageCandidate[]; // lead image candidates in priority order
+}
+
+// xml2js attribute bag, e.g. <media:content url="..." width="..."/>
+type XmlAttributes = { $?: Record<string, string> };
+
+type XmlItem = Parser.Item & {
+  summary?: string;
+  author?: string;
+  published?: string; // Atom; rss-parser's pubDate falls back to <updated>
+  updated?: string;
+  'content:encoded'?: string; // RSS full body; rss-parser's content is the <description>
+  description?: string;
+  mediaContent?: XmlAttributes[];
+  mediaThumbnail?: XmlAttributes[];
+  links?: Array<XmlAttributes | string>; // Atom <link> elements
+};
+
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+interface JsonFeedItem {
+  id?: string;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  image?: string;
+  banner_image?: string;
+  author?: JsonFeedAuthor; // JSON Feed 1.0
+  authors?: JsonFeedAuthor[]; // JSON Feed 1.1
+}
+
+const xmlParser = new Parser<Record<string, unknown>, XmlItem>({
+  customFields: {
+    item: [
+      ['published', 'published'],
+      ['updated', 'updated'],
+      ['media:content', 'mediaContent', { keepArray: true }],
+      ['media:thumbnail', 'mediaThumbnail', { keepArray: true }],
+      ['link', 'links', { keepArray: true }],
+    ],
+  },
+});
+
+export function detectFeedFormat(body: string, contentType?: string | null): FeedFormat {
+  const type = (contentType || '').toLowerCase();
+  const head = body.trimStart().slice(0, 2048);
+
+  if (type.includes('json') || head.startsWith('{')) return 'json';
+  if (/<rss[\s>]|<rdf:RDF[\s>]/i.test(head)) return 'rss';
+  if (type.includes('atom') || /<feed[\s>]/i.test(head)) return 'atom';
+  return 'rss';
+}
+
+// Atom titles with type="html" arrive entity-encoded
+function decodeText(value: string | undefined): string {
+  if (!value) return '';
+  return parse(value).text.trim();
+}
+
+function fromMediaElement(element: XmlAttributes): ImageCandidate | null {
+  const attrs = element.$;
+  if (!attrs?.url) return null;
+  if (attrs.medium && attrs.medium !== 'image') return null;
+
+  return {
+    url: attrs.url,
+    width: toDimension(attrs.width),
+    height: toDimension(attrs.height),
+    type: attrs.type,
+  };
+}
+
+function collectXmlImages(item: XmlItem, content: string): ImageCandidate[] {
+  const images: ImageCandidate[] = [];
+
+  if (item.enclosure?.url) {
+    images.push({ url: item.enclosure.url, type: item.enclosure.type });
+  }
+  for (const link of item.links ?? []) {
+    if (typeof link !== 'string' && link.$?.rel === 'enclosure' && link.$.href) {
+      images.push({ url: link.$.href, type: link.$.type });
+    }
+  }
+  for (const element of [...(item.mediaContent ?? []), ...(item.mediaThumbnail ?? [])]) {
+    const candidate = fromMediaElement(element);
+    if (candidate) images.push(candidate);
+  }
+
+  return [...images, ...findInlineImages(content)];
+}
+
+function fromXmlItem(item: XmlItem, format: FeedFormat): FeedEntry {
+  if (format === 'atom') {
+    const content = item.content || item.summary || '';
+    return {
+      title: decodeText(item.title),
+      link: item.link || '',
+      summary: item.summary || item.contentSnippet || '',
+      content,
+      published: item.published || null,
+      updated: item.updated || null,
+      author: item.author || null,
+      images: collectXmlImages(item, content),
+    };
+  }
+
+  const content = item['content:encoded'] || item.content || item.description || '';
+  return {
+    title: item.title || '',
+    link: item.link || '',
+    summary: item.contentSnippet || item.description || '',
+    content,
+    published: item.pubDate || item.isoDate || null,
+    updated: item.updated || null,
+    author: item.creator || item.author || null,
+    images: collectXmlImages(item, content),
+  };
+}
+
+function fromJsonFeedItem(item: JsonFeedItem): FeedEntry {
+  const authors = item.authors ?? (item.author ? [item.author] : []);
+  const author = authors.map(a => a.name).filter(Boolean).join(', ');
+  const images: ImageCandidate[] = [item.image, item.banner_image]
+    .filter((url): url is string => !!url)
+    .map(url => ({ url }));
+
+  return {
+    title: item.title || '',
+    link: item.url || item.external_url || '',
+    summary: item.summary || item.content_text || item.content_html || '',
+    content: item.content_html || item.content_text || item.summary || '',
+    published: item.date_published || null,
+    updated: item.date_modified || null,
+    author: author || null,
+    images: [...images, ...findInlineImages(item.content_html || '')],
+  };
+}
+
+function parseJsonFeed(body: string): FeedEntry[] {
+  const feed = JSON.parse(body);
+  if (typeof feed?.version !== 'string' || !feed.version.startsWith('https://jsonfeed.org/version/')) {
+    throw new Error('Not a JSON Feed document');
+  }
+  if (!Array.isArray(feed.items)) return [];
+
+  return feed.items.map(fromJsonFeedItem);
+}
+
+export async function parseFeed(
+  body: string,
+  contentType?: string | null
+): Promise<{ format: FeedFormat; entries: FeedEntry[] }> {
+  const format = detectFeedFormat(body, contentType);
+
+  if (format === 'json') {
+    return { format, entries: parseJsonFeed(body) };
+  }
+
+  const parsed = await xmlParser.parseString(body);
+  return { format, entries: parsed.items.map(item => fromXmlItem(item, format)) };
+}
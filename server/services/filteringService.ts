@@ -1,5 +1,17 @@
 import { storage } from "../storage";
-import type { Article, UserPreferences, Keyword, ReplacementPattern } from "@shared/schema";
+import type {
+  Article,
+  UserPreferences,
+  Keyword,
+  ReplacementPattern,
+  DuplicateCounts,
+  AnxietyDimension,
+  AnxietyThresholds,
+} from "@shared/schema";
+import { getHiddenSourceIds } from "./sourceService";
+import { getEntityFilter, getEntityIdsByArticle } from "./entityService";
+
+const FOLLOW_BOOST = 2; // priority added per followed entity an article mentions
 
 /**
  * Centralized filtering service for applying all user filters consistently
@@ -12,11 +24,16 @@ export interface FilterConfig {
   prioritizedKeywords: string[];
   replacementPatterns: ReplacementPattern[];
   sentimentThreshold: number;
+  anxietyThresholds: AnxietyThresholds; // per-dimension limits on the article's anxiety profile
   dateCutoffDays: number; // Number of days to look back for fresh articles
+  hiddenSourceIds: string[]; // Unsubscribed or other users' private sources
+  languages: string[]; // Languages the user reads
+  followedEntities: string[]; // Entity ids ("organization:openai") that boost an article
+  mutedEntities: string[]; // Entity ids that exclude an article
 }
 
 export interface FilteredArticle extends Article {
-  priorityScore?: number; // Boost score from prioritized keywords
+  priorityScore?: number; // Boost score from prioritized keywords and followed entities
 }
 
 /**
@@ -28,12 +45,16 @@ export async function fetchUserFilterConfig(userId?: string): Promise<FilterConf
     blockedKeywordsList,
     prioritizedKeywordsList,
     replacementPatternsList,
-    preferences
+    preferences,
+    hiddenSourceIds,
+    entityFilter
   ] = await Promise.all([
     storage.getKeywordsByType('blocked', userId),
     storage.getKeywordsByType('prioritized', userId),
     userId ? storage.getReplacementPatterns(userId) : Promise.resolve([]),
-    storage.getUserPreferences(userId)
+    storage.getUserPreferences(userId),
+    getHiddenSourceIds(userId),
+    userId ? getEntityFilter(userId) : Promise.resolve({ followed: [], muted: [] })
   ]);
 
   return {
@@ -42,7 +63,12 @@ export async function fetchUserFilterConfig(userId?: string): Promise<FilterConf
     prioritizedKeywords: prioritizedKeywordsList.map(kw => kw.keyword.toLowerCase()),
     replacementPatterns: replacementPatternsList,
     sentimentThreshold: preferences?.sentimentThreshold || 0.7,
-    dateCutoffDays: 30 // Default 30-day freshness window
+    anxietyThresholds: preferences?.anxietyThresholds ?? {},
+    dateCutoffDays: 30, // Default 30-day freshness window
+    hiddenSourceIds,
+    languages: preferences?.languages?.length ? preferences.languages : ["en"],
+    followedEntities: entityFilter.followed,
+    mutedEntities: entityFilter.muted
   };
 }
 
@@ -65,6 +91,19 @@ export function applyReplacementPatterns(text: string, patterns: ReplacementPatt
   return transformedText;
 }
 
+/**
+ * Whether any dimension of the article's anxiety profile is above the user's
+ * limit for it. Articles scored before profiles existed have none and pass.
+ */
+function exceedsAnxietyThresholds(article: Article, thresholds: AnxietyThresholds): boolean {
+  const profile = article.anxietyProfile;
+  if (!profile) return false;
+
+  return (Object.entries(thresholds) as Array<[AnxietyDimension, number | undefined]>).some(
+    ([dimension, limit]) => limit !== undefined && (profile[dimension] ?? 0) > limit
+  );
+}
+
 /**
  * Calculate similarity between two strings (0 to 1)
  * Uses simple word overlap heuristic for content similarity detection
@@ -87,11 +126,16 @@ function calculateTextSimilarity(text1: string, text2: string): number {
   return intersection.size / union.size;
 }
 
+// What deduplication reads: stored articles and freshly processed ones both qualify
+export type DedupCandidate = Pick<Article, "title" | "summary" | "canonicalUrl" | "sentiment" | "publishedAt"> & {
+  publishedAtEstimated?: boolean | null;
+};
+
 /**
  * Quality score for selecting the best article among duplicates
- * Higher score = better quality article to keep
+ * Higher score = better quality article to keep (also picks a story's representative)
  */
-function calculateArticleQuality(article: Article): number {
+export function calculateArticleQuality(article: DedupCandidate): number {
   let quality = 0;
   
   // Sentiment score (0-1)
@@ -100,9 +144,11 @@ function calculateArticleQuality(article: Article): number {
   // Summary length (longer = more detailed, max 50 points)
   quality += Math.min(50, (article.summary?.length || 0) / 20);
   
-  // Recency (newer articles get boost, max 30 points)
-  const ageInDays = (Date.now() - new Date(article.publishedAt).getTime()) / (1000 * 60 * 60 * 24);
-  quality += Math.max(0, 30 - ageInDays);
+  // Recency (newer articles get boost, max 30 points); estimated dates are only first-seen times
+  if (!article.publishedAtEstimated) {
+    const ageInDays = (Date.now() - article.publishedAt.getTime()) / (1000 * 60 * 60 * 24);
+    quality += Math.max(0, 30 - ageInDays);
+  }
   
   return quality;
 }
@@ -117,21 +163,44 @@ function calculateArticleQuality(article: Article): number {
  * 3. High content similarity (>80% word overlap in summary)
  */
 export function deduplicateArticles(articles: Article[]): Article[] {
-  const uniqueArticles: Article[] = [];
+  return deduplicateArticlesWithCounts(articles).articles;
+}
+
+/**
+ * deduplicateArticles, also reporting how many articles each criterion
+ * dropped (for ingestion reports). With keepNearDuplicates only exact URL
+ * duplicates are dropped; title and similarity matches are kept, so ingest
+ * stores every outlet's take for story clustering, and counted as grouped
+ * rather than as duplicates.
+ */
+export function deduplicateArticlesWithCounts<T extends DedupCandidate>(
+  articles: T[],
+  { keepNearDuplicates = false }: { keepNearDuplicates?: boolean } = {}
+): { articles: T[]; duplicates: DuplicateCounts; grouped: number } {
+  const duplicates: DuplicateCounts = { url: 0, title: 0, similarity: 0 };
+  let grouped = 0;
+  const uniqueArticles: T[] = [];
   const seenUrls = new Set<string>();
-  const seenTitles = new Map<string, Article>(); // normalized title -> best article
+  const seenTitles = new Map<string, T>(); // normalized title -> best article
   
   for (const article of articles) {
     const normalizedTitle = article.title.toLowerCase().trim();
-    const articleUrl = article.url.toLowerCase().trim();
+    const articleUrl = article.canonicalUrl.toLowerCase().trim();
     
     // Skip if exact URL duplicate
     if (seenUrls.has(articleUrl)) {
+      duplicates.url++;
       continue;
     }
     
     // Check for title duplicates
     const existingByTitle = seenTitles.get(normalizedTitle);
+    if (existingByTitle && keepNearDuplicates) {
+      grouped++;
+      uniqueArticles.push(article);
+      seenUrls.add(articleUrl);
+      continue;
+    }
     if (existingByTitle) {
       // Keep the higher quality version
       if (calculateArticleQuality(article) > calculateArticleQuality(existingByTitle)) {
@@ -141,9 +210,10 @@ export function deduplicateArticles(articles: Article[]): Article[] {
           uniqueArticles[index] = article;
         }
         seenTitles.set(normalizedTitle, article);
-        seenUrls.delete(existingByTitle.url.toLowerCase().trim());
+        seenUrls.delete(existingByTitle.canonicalUrl.toLowerCase().trim());
         seenUrls.add(articleUrl);
       }
+      duplicates.title++;
       continue;
     }
     
@@ -151,6 +221,10 @@ export function deduplicateArticles(articles: Article[]): Article[] {
     let isDuplicate = false;
     for (const existing of uniqueArticles) {
       const similarity = calculateTextSimilarity(article.summary, existing.summary);
+      if (similarity > 0.8 && keepNearDuplicates) {
+        grouped++;
+        break;
+      }
       if (similarity > 0.8) {
         // High similarity - treat as duplicate
         if (calculateArticleQuality(article) > calculateArticleQuality(existing)) {
@@ -158,7 +232,7 @@ export function deduplicateArticles(articles: Article[]): Article[] {
           const index = uniqueArticles.indexOf(existing);
           if (index !== -1) {
             uniqueArticles[index] = article;
-            seenUrls.delete(existing.url.toLowerCase().trim());
+            seenUrls.delete(existing.canonicalUrl.toLowerCase().trim());
             seenUrls.add(articleUrl);
             // Update title map
             const existingNormalizedTitle = existing.title.toLowerCase().trim();
@@ -166,6 +240,7 @@ export function deduplicateArticles(articles: Article[]): Article[] {
             seenTitles.set(normalizedTitle, article);
           }
         }
+        duplicates.similarity++;
         isDuplicate = true;
         break;
       }
@@ -180,7 +255,7 @@ export function deduplicateArticles(articles: Article[]): Article[] {
   
   console.log(`Deduplication: ${articles.length} articles -> ${uniqueArticles.length} unique articles (removed ${articles.length - uniqueArticles.length} duplicates)`);
   
-  return uniqueArticles;
+  return { articles: uniqueArticles, duplicates, grouped };
 }
 
 /**
@@ -215,8 +290,11 @@ export function computePriorityScore(article: Article, prioritizedKeywords: stri
 /**
  * Main filtering pipeline - applies all filters in the correct order:
  * 1. Date Freshness Filter (exclude old articles)
+ * 1b. Source Subscriptions Filter (exclude unsubscribed sources)
+ * 1c. Language Filter (exclude languages the user doesn't read)
  * 2. Blocked Keywords Filter (exclude)
- * 3. Prioritized Keywords Scoring (rank/boost)
+ * 2b. Muted Entities Filter (exclude articles mentioning a muted entity)
+ * 3. Prioritized Keywords and Followed Entities Scoring (rank/boost)
  * 4. Word Replacements (transform text)
  * 5. Sentiment Filter (exclude low sentiment)
  * 
@@ -240,12 +318,20 @@ export async function applyFilters(
   // By default, skip this step as deduplication happens once before curation
   let filtered = skipDeduplication ? articles : deduplicateArticles(articles);
   
-  // STEP 1: Date Freshness Filter - only articles within cutoff window
+  // STEP 1: Date Freshness Filter - only articles within cutoff window; an estimated date is never fresh
   const dateCutoff = Date.now() - (config.dateCutoffDays * 24 * 60 * 60 * 1000);
-  filtered = filtered.filter(article => {
-    const publishedDate = new Date(article.publishedAt).getTime();
-    return publishedDate >= dateCutoff;
-  });
+  filtered = filtered.filter(article => !article.publishedAtEstimated && article.publishedAt.getTime() >= dateCutoff);
+  
+  // STEP 1b: Source Subscriptions Filter - exclude unsubscribed and other users' private sources
+  if (config.hiddenSourceIds.length > 0) {
+    const hiddenSources = new Set(config.hiddenSourceIds);
+    filtered = filtered.filter(article => !article.sourceId || !hiddenSources.has(article.sourceId));
+  }
+  
+  // STEP 1c: Language Filter - exclude articles in languages the user doesn't read
+  // Articles with no detected language (too short to call, or stored before detection) are kept
+  const languages = new Set(config.languages);
+  filtered = filtered.filter(article => !article.language || languages.has(article.language));
   
   // STEP 2: Blocked Keywords Filter - exclude articles with blocked terms
   filtered = filtered.filter(article => {
@@ -257,11 +343,24 @@ export async function applyFilters(
     return !hasBlockedKeyword;
   });
   
-  // STEP 3: Prioritized Keywords Scoring - boost articles with prioritized terms
+  // Entities are only looked up for users who follow or mute any
+  const entityIdsByArticle = config.followedEntities.length > 0 || config.mutedEntities.length > 0
+    ? await getEntityIdsByArticle(filtered.map(article => article.id))
+    : new Map<string, Set<string>>();
+  const mentions = (article: Article, ids: string[]) =>
+    ids.filter(id => entityIdsByArticle.get(article.id)?.has(id)).length;
+  
+  // STEP 2b: Muted Entities Filter - exclude articles mentioning a muted person, organization, place or product
+  if (config.mutedEntities.length > 0) {
+    filtered = filtered.filter(article => mentions(article, config.mutedEntities) === 0);
+  }
+  
+  // STEP 3: Prioritized Keywords and Followed Entities Scoring - boost articles with prioritized terms or followed entities
   // Add priority scores to each article
   const scoredArticles: FilteredArticle[] = filtered.map(article => ({
     ...article,
-    priorityScore: computePriorityScore(article, config.prioritizedKeywords)
+    priorityScore: computePriorityScore(article, config.prioritizedKeywords) +
+      mentions(article, config.followedEntities) * FOLLOW_BOOST
   }));
   
   // STEP 4: Word Replacements - transform text after filtering (avoid wasted work)
@@ -271,9 +370,10 @@ export async function applyFilters(
     summary: applyReplacementPatterns(article.summary, config.replacementPatterns)
   }));
   
-  // STEP 5: Sentiment Filter - exclude articles below sentiment threshold
+  // STEP 5: Sentiment Filter - exclude articles below sentiment threshold or above any anxiety limit
   const finalFiltered = transformedArticles.filter(article => 
-    article.sentiment >= config.sentimentThreshold
+    article.sentiment >= config.sentimentThreshold &&
+    !exceedsAnxietyThresholds(article, config.anxietyThresholds)
   );
   
   // Sort by priority score (highest first) and then by sentiment
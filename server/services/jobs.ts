@@ -0,0 +1,47 @@
+import { scheduler } from "./scheduler";
+import { newsService } from "./newsService";
+import { podcastService } from "./podcastService";
+import { pruneArticles } from "./retentionService";
+
+/**
+ * Background jobs and their default schedules (UTC cron). Each schedule can
+ * be overridden with the matching *_SCHEDULE environment variable.
+ */
+
+const FETCH_NEWS_SCHEDULE = process.env.FETCH_NEWS_SCHEDULE || "*/15 * * * *";
+const CURATION_SCHEDULE = process.env.CURATION_SCHEDULE || "5 * * * *";
+const DAILY_PODCAST_SCHEDULE = process.env.DAILY_PODCAST_SCHEDULE || "0 6 * * *";
+const RETENTION_SCHEDULE = process.env.RETENTION_SCHEDULE || "30 3 * * *";
+
+export function registerJobs(): void {
+  scheduler.register({
+    name: "fetch-news",
+    schedule: FETCH_NEWS_SCHEDULE,
+    minIntervalMs: 15 * 60 * 1000, // throttle for POST /api/fetch-news without force
+    lockTtlMs: 20 * 60 * 1000,
+    run: (jobRunId) => newsService.fetchLatestNews(jobRunId),
+  });
+
+  // Re-curate between fetches so the 3-day window and recency boosts stay current
+  scheduler.register({
+    name: "curation",
+    schedule: CURATION_SCHEDULE,
+    run: (jobRunId) => newsService.runCuration(jobRunId),
+  });
+
+  scheduler.register({
+    name: "daily-podcast",
+    schedule: DAILY_PODCAST_SCHEDULE,
+    run: async () => {
+      await podcastService.generateDailyPodcast();
+    },
+  });
+
+  scheduler.register({
+    name: "retention",
+    schedule: RETENTION_SCHEDULE,
+    run: async (jobRunId) => {
+      await pruneArticles(jobRunId);
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import type { ArticleLanguage } from "@shared/schema";
+
+/**
+ * Article language detection at ingest. Non-Latin scripts are recognized by
+ * their Unicode blocks; Latin-script languages by counting common function
+ * words, which is reliable on a title plus a summary without a model or a
+ * dictionary. Returns null when the text is too short or too mixed to call.
+ */
+
+const MIN_SCRIPT_CHARS = 10; // letters of one script before it decides the language
+const MIN_STOPWORD_HITS = 3;
+const MIN_LEAD = 1.5; // the best language must outscore the runner-up by this factor
+
+// Checked in order: kana before Han, since Japanese text mixes both
+const SCRIPTS: Array<{ language: ArticleLanguage; pattern: RegExp }> = [
+  { language: "ja", pattern: /[\u3040-\u30ff]/g },
+  { language: "ko", pattern: /[\uac00-\ud7af\u1100-\u11ff]/g },
+  { language: "zh", pattern: /[\u4e00-\u9fff]/g },
+  { language: "ru", pattern: /[\u0400-\u04ff]/g },
+  { language: "ar", pattern: /[\u0600-\u06ff]/g },
+];
+
+const LATIN_LETTERS = /[a-z\u00c0-\u024f]/gi;
+const LATIN_WORD = /[a-z\u00c0-\u024f]+/g;
+
+// Frequent words that are rare in the other listed languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "in", "that", "for", "with", "was", "on", "are", "by", "this", "from", "it", "has", "have", "will", "after", "new"],
+  fr: ["le", "la", "les", "des", "et", "est", "du", "une", "pour", "dans", "qui", "que", "sur", "pas", "au", "aux", "avec", "sont", "plus", "ce", "été"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "mit", "ein", "eine", "den", "dem", "für", "auf", "sich", "auch", "wird", "von", "zu", "im", "nach", "bei"],
+  es: ["el", "los", "las", "del", "y", "por", "una", "con", "para", "es", "se", "que", "al", "su", "como", "más", "fue", "sus", "pero", "ha", "han"],
+  it: ["il", "della", "di", "che", "è", "per", "gli", "nel", "una", "sono", "con", "non", "alla", "anche", "dei", "delle", "più", "ha", "lo", "nella", "degli"],
+  pt: ["o", "os", "da", "do", "das", "dos", "em", "uma", "para", "com", "não", "no", "na", "ao", "que", "é", "foi", "mais", "pelo", "pela", "são"],
+  nl: ["het", "een", "van", "en", "is", "niet", "op", "voor", "met", "zijn", "dat", "die", "ook", "bij", "naar", "wordt", "heeft", "door", "er", "maar", "worden"],
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(
+  ([language, words]) => ({ language: language as ArticleLanguage, words: new Set(words) })
+);
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+export function detectLanguage(text: string): ArticleLanguage | null {
+  // A quoted name or phrase in another script shouldn't decide; the script must be the text's main one
+  const scriptCounts = SCRIPTS.map(({ language, pattern }) => ({ language, count: countMatches(text, pattern) }));
+  const nonLatinLetters = scriptCounts.reduce((sum, { count }) => sum + count, 0);
+  if (nonLatinLetters > countMatches(text, LATIN_LETTERS)) {
+    return scriptCounts.find(({ count }) => count >= MIN_SCRIPT_CHARS)?.language ?? null;
+  }
+
+  const words = text.toLowerCase().match(LATIN_WORD) || [];
+  const scores = STOPWORD_SETS
+    .map(({ language, words: stopwords }) => ({
+      language,
+      hits: words.filter((word) => stopwords.has(word)).length,
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_STOPWORD_HITS || best.hits < runnerUp.hits * MIN_LEAD) return null;
+  return best.language;
+}
@@ -0,0 +1,92 @@
+import { parse } from 'node-html-parser';
+
+/**
+ * Lead image selection for feed items. Candidates are gathered from the
+ * feed (enclosures, media:content / media:thumbnail, JSON Feed image),
+ * inline <img> tags in the item content, and the article page's og:image;
+ * the first one that passes basic size/aspect validation wins, preferring
+ * the largest when dimensions are known.
+ */
+
+export interface ImageCandidate {
+  url: string;
+  width?: number;
+  height?: number;
+  type?: string; // MIME type when the feed declares one
+}
+
+const MIN_DIMENSION = 200; // px; smaller is a thumbnail, icon or tracking pixel
+const MAX_ASPECT_RATIO = 3; // wider than 3:1 (or taller than 1:3) is a banner or spacer
+const PREFERRED_AREA = 400 * 300; // a sized image this large beats an unsized higher-priority one
+const JUNK_URL_PATTERN = /pixel|spacer|blank\.gif|1x1|feedburner|doubleclick|gravatar|emoji|favicon|\/icons?\//i;
+
+export function toDimension(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function resolveUrl(url: string, baseUrl?: string): string | null {
+  try {
+    const resolved = new URL(url.trim(), baseUrl);
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null;
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+function isAcceptable(candidate: ImageCandidate): boolean {
+  if (candidate.type && !candidate.type.startsWith('image/')) return false;
+  if (JUNK_URL_PATTERN.test(candidate.url)) return false;
+
+  const { width, height } = candidate;
+  if (width !== undefined && width < MIN_DIMENSION) return false;
+  if (height !== undefined && height < MIN_DIMENSION) return false;
+  if (width !== undefined && height !== undefined) {
+    const ratio = width / height;
+    if (ratio > MAX_ASPECT_RATIO || ratio < 1 / MAX_ASPECT_RATIO) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Collect <img> tags from item content HTML. Lazy-loaded images keep the
+ * real URL in data-src.
+ */
+export function findInlineImages(html: string): ImageCandidate[] {
+  if (!html || !html.includes('<img')) return [];
+
+  return parse(html)
+    .querySelectorAll('img')
+    .map(img => ({
+      url: img.getAttribute('data-src') || img.getAttribute('src') || '',
+      width: toDimension(img.getAttribute('width')),
+      height: toDimension(img.getAttribute('height')),
+    }))
+    .filter(candidate => candidate.url);
+}
+
+/**
+ * Pick the lead image from candidates listed in priority order. Relative
+ * URLs are resolved against the article link.
+ */
+export function pickLeadImage(candidates: ImageCandidate[], baseUrl?: string): string | null {
+  const valid: ImageCandidate[] = [];
+
+  for (const candidate of candidates) {
+    const url = resolveUrl(candidate.url, baseUrl);
+    if (url && isAcceptable({ ...candidate, url })) {
+      valid.push({ ...candidate, url });
+    }
+  }
+
+  if (valid.length === 0) return null;
+
+  // Prefer the largest image with known dimensions if it is reasonably big,
+  // else the highest-priority one
+  const area = (candidate: ImageCandidate) => (candidate.width ?? 0) * (candidate.height ?? 0);
+  const largest = valid.reduce((best, candidate) => (area(candidate) > area(best) ? candidate : best));
+
+  return area(largest) >= PREFERRED_AREA ? largest.url : valid[0].url;
+}
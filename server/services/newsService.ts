@@ -1,336 +1,381 @@
 import { storage } from "../storage";
-import { analyzeSentiment, summarizeArticle, extractKeywords } from "./aiService";
-import { RSSService } from "./rssService";
-import type { InsertArticle } from "@shared/schema";
-import { deduplicateArticles } from "./filteringService";
-
-const NEWS_API_KEY = process.env.NEWS_API_KEY || process.env.VITE_NEWS_API_KEY || "default_key";
-
-interface NewsAPIArticle {
-  title: string;
-  description: string;
-  content: string;
-  source: { name: string };
-  url: string;
-  urlToImage: string;
-  publishedAt: string;
+import { analyzeArticles, curateArticles, getAiProvider, localProvider } from "./aiService";
+import { extractBasicKeywords } from "./ai/localProvider";
+import type { CurationResult, ExtractedEntity } from "./ai/types";
+import type {
+  Article,
+  InsertArticle,
+  CurationStageCounts,
+  NewsSource,
+  SourceIngestionStats,
+  AdapterIngestionStats,
+  DuplicateCounts,
+} from "@shared/schema";
+import { getTopic, rootTopicId, type TopicAssignment } from "@shared/topics";
+import { deduplicateArticlesWithCounts } from "./filteringService";
+import type { SourceAdapter, SourceItem, SourceFetchResult } from "./adapters/types";
+import { RSSAdapter } from "./adapters/rssAdapter";
+import { HackerNewsAdapter } from "./adapters/hackerNewsAdapter";
+import { RedditAdapter } from "./adapters/redditAdapter";
+import { NewsAPIAdapter } from "./adapters/newsApiAdapter";
+import { canonicalizeItems } from "./urlCanonicalizer";
+import { detectLanguage } from "./languageDetector";
+import { toEntityRows } from "./entityService";
+import { assignStories } from "./storyService";
+
+const MIN_PRIMARY_ARTICLES = 10; // supplement adapters run when primaries leave fewer unique articles
+
+type CanonicalSourceItem = SourceItem & { canonicalUrl: string };
+
+// An article ready to store, with the entities found while processing it
+interface ProcessedArticle {
+  article: InsertArticle;
+  entities: ExtractedEntity[];
+}
+
+interface AdapterRun {
+  stats: AdapterIngestionStats;
+  sources: SourceIngestionStats[];
+  articles: ProcessedArticle[];
 }
 
 export class NewsService {
-  private lastFetchTime: number = 0;
-  private readonly FETCH_INTERVAL = 15 * 60 * 1000; // 15 minutes
-  private rssService: RSSService;
+  private rssAdapter: RSSAdapter;
+  private adapters: SourceAdapter[];
 
   constructor() {
-    this.rssService = new RSSService();
+    this.rssAdapter = new RSSAdapter();
+    this.adapters = [this.rssAdapter, new HackerNewsAdapter(), new RedditAdapter(), new NewsAPIAdapter()];
   }
 
-  async fetchLatestNews(forceRefresh: boolean = false): Promise<void> {
-    const now = Date.now();
-    if (!forceRefresh && now - this.lastFetchTime < this.FETCH_INTERVAL) {
-      return; // Too soon to fetch again
-    }
-
+  // Run by the "fetch-news" job, which owns throttling and locking
+  async fetchLatestNews(jobRunId?: string): Promise<void> {
     try {
-      console.log("Fetching latest news from RSS feeds...");
-
-      // Fetch from RSS feeds (primary source)
-      const rssArticles = await this.rssService.getLatestArticles();
-      console.log(`Retrieved ${rssArticles.length} articles from RSS feeds`);
+      const primaries = this.adapters.filter((adapter) => adapter.role === "primary");
+      const supplements = this.adapters.filter((adapter) => adapter.role === "supplement");
 
-      // Process RSS articles with fallback-only processing (skip AI due to quota)
-      let processedArticles = await this.processRSSArticlesWithFallback(rssArticles);
+      const primaryRuns: AdapterRun[] = [];
+      for (const adapter of primaries) {
+        primaryRuns.push(await this.runAdapter(adapter));
+      }
+      if (primaryRuns.every((run) => run.stats.status === "failed")) {
+        throw new Error("Every primary source adapter failed");
+      }
 
-      // Deduplicate articles before storing to prevent database duplicates
-      processedArticles = deduplicateArticles(processedArticles as any[]) as InsertArticle[];
+      const sources = primaryRuns.flatMap((run) => run.sources);
+      const processedArticles = primaryRuns.flatMap((run) => run.articles);
 
-      // Store articles
-      for (const article of processedArticles) {
-        await storage.createArticle(article);
-      }
+      // Drop URL duplicates across adapters; other outlets' takes on the same event are kept for stories
+      const { articles: dedupedArticles, duplicates, grouped } = this.dedupeProcessed(processedArticles);
+      const { stored, updated } = await this.storeArticles(dedupedArticles, primaryRuns);
 
-      // Fallback to NewsAPI if RSS didn't provide enough content
-      if (processedArticles.length < 10) {
-        console.log("RSS feeds provided limited content, supplementing with NewsAPI...");
-        await this.fetchFromNewsAPI();
+      // Supplement if the primaries didn't provide enough content
+      const supplementRuns: AdapterRun[] = [];
+      for (const adapter of supplements) {
+        if (dedupedArticles.length >= MIN_PRIMARY_ARTICLES) {
+          supplementRuns.push({ stats: this.emptyAdapterStats(adapter, "skipped"), sources: [], articles: [] });
+          continue;
+        }
+        console.log(`Primary sources provided limited content, supplementing with ${adapter.name}...`);
+        const run = await this.runAdapter(adapter);
+        await this.storeArticles(run.articles, [run]);
+        supplementRuns.push(run);
       }
 
       // Run curation (with fallback if AI fails)
-      await this.runCurationWithFallback();
-
-      this.lastFetchTime = now;
+      const curation = await this.runCurationWithFallback();
+
+      await storage.createIngestionReport({
+        jobRunId: jobRunId ?? null,
+        kind: "fetch",
+        ingestion: {
+          fetched: primaryRuns.reduce((sum, run) => sum + run.stats.fetched, 0),
+          selected: primaryRuns.reduce((sum, run) => sum + run.stats.selected, 0),
+          processed: processedArticles.length,
+          deduped: dedupedArticles.length,
+          duplicates,
+          grouped,
+          stored,
+          updated,
+          alreadyStored: dedupedArticles.length - stored - updated,
+          supplementStored: supplementRuns.reduce((sum, run) => sum + run.stats.stored, 0),
+          adapters: [...primaryRuns, ...supplementRuns].map((run) => run.stats),
+        },
+        sources,
+        curation,
+      });
     } catch (error) {
       console.error("Failed to fetch news:", error);
+      throw error;
     }
   }
 
-  private async fetchFromNewsAPI(): Promise<void> {
-    try {
-      const queries = [
-        "breaking news",
-        "world news",
-        "politics",
-        "technology",
-        "business",
-        "sports",
-        "entertainment",
-        "health",
-        "science",
-        "travel",
-        "environment",
-        "food",
-      ];
-
-      const allArticles: NewsAPIArticle[] = [];
-
-      for (const query of queries) {
-        const response = await fetch(
-          `https://newsapi.org/v2/everything?q=${encodeURIComponent(
-            query
-          )}&language=en&sortBy=publishedAt&pageSize=20&apiKey=${NEWS_API_KEY}`
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.articles) {
-            allArticles.push(...data.articles);
-          }
-        }
-      }
+  // WebSub pushes go through the same processing, dedup and storage as polled items
+  async ingestPushedFeed(source: NewsSource, body: string, contentType: string | null): Promise<void> {
+    const run = await this.runAdapter(this.rssAdapter, () => this.rssAdapter.parsePushedFeed(source, body, contentType));
+    if (run.stats.status === "failed") throw new Error(run.stats.error ?? "Failed to process pushed feed");
+
+    const { articles: dedupedArticles, duplicates, grouped } = this.dedupeProcessed(run.articles);
+    const { stored, updated } = await this.storeArticles(dedupedArticles, [run]);
+    console.log(`WebSub push for ${source.name}: ${stored} new, ${updated} updated`);
+
+    await storage.createIngestionReport({
+      jobRunId: null,
+      kind: "push",
+      ingestion: {
+        fetched: run.stats.fetched,
+        selected: run.stats.selected,
+        processed: run.articles.length,
+        deduped: dedupedArticles.length,
+        duplicates,
+        grouped,
+        stored,
+        updated,
+        alreadyStored: dedupedArticles.length - stored - updated,
+        supplementStored: 0,
+        adapters: [run.stats],
+      },
+      sources: run.sources,
+    });
+  }
 
-      // Process and store NewsAPI articles
-      const processedArticles = await this.processNewsAPIArticles(allArticles);
+  // Run by the "curation" job; unlike the post-fetch curation, failures propagate
+  async runCuration(jobRunId?: string): Promise<void> {
+    const curation = await this.selectCuratedArticles();
 
-      for (const article of processedArticles) {
-        await storage.createArticle(article);
-      }
-    } catch (error) {
-      console.error("Failed to fetch from NewsAPI:", error);
-    }
+    await storage.createIngestionReport({ jobRunId: jobRunId ?? null, kind: "curation", curation });
   }
 
-  private async processRSSArticles(
-    articles: Omit<
-      InsertArticle,
-      "id" | "views" | "sentiment" | "keywords" | "isCurated" | "isTopFive"
-    >[]
-  ): Promise<InsertArticle[]> {
-    const processed: InsertArticle[] = [];
+  private emptyAdapterStats(adapter: SourceAdapter, status: AdapterIngestionStats["status"]): AdapterIngestionStats {
+    return { name: adapter.name, role: adapter.role, status, error: null, fetched: 0, selected: 0, stored: 0 };
+  }
 
-    for (const article of articles) {
-      if (!article.title || !article.summary || !article.content) continue;
+  // One adapter's failure is recorded in its stats rather than failing the whole fetch
+  private async runAdapter(
+    adapter: SourceAdapter,
+    fetchItems: () => Promise<SourceFetchResult> = () => adapter.fetch()
+  ): Promise<AdapterRun> {
+    const stats = this.emptyAdapterStats(adapter, "ok");
 
-      try {
-        // Use fallback values if AI analysis fails
-        let sentiment = 0.7; // Default neutral-positive sentiment
-        let keywords: string[] = [];
-        let summary = article.summary;
-
-        try {
-          const sentimentResult = await analyzeSentiment(article.title + " " + article.summary);
-          sentiment = sentimentResult.rating;
-        } catch {
-          console.log(`AI sentiment analysis failed for "${article.title}", using default sentiment`);
-          sentiment = 0.7;
-        }
+    try {
+      console.log(`Fetching latest news from ${adapter.name}...`);
+      const { items: fetchedItems, sources, fetched } = await fetchItems();
+      console.log(`Retrieved ${fetchedItems.length} articles from ${adapter.name}`);
+      const items = (await canonicalizeItems(fetchedItems)).map((item) => ({
+        ...item,
+        // Detected from the provider's text, before AI summarization can rewrite it
+        language: detectLanguage(`${item.title} ${item.summary} ${(item.content ?? "").slice(0, 2000)}`),
+      }));
+
+      const articles = adapter.analyzeWithAI
+        ? await this.processWithAI(items)
+        : await this.processWithFallback(items);
+
+      return { stats: { ...stats, fetched, selected: items.length }, sources, articles };
+    } catch (error) {
+      console.error(`Failed to fetch from ${adapter.name}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      return { stats: { ...stats, status: "failed", error: message }, sources: [], articles: [] };
+    }
+  }
 
-        try {
-          keywords = await extractKeywords(article.title + " " + article.summary);
-        } catch {
-          console.log(`AI keyword extraction failed for "${article.title}", using basic keywords`);
-          keywords = this.extractBasicKeywords(article.title + " " + article.summary);
-        }
+  // Dedup on the articles, keeping each survivor's entities with it
+  private dedupeProcessed(
+    processed: ProcessedArticle[]
+  ): { articles: ProcessedArticle[]; duplicates: DuplicateCounts; grouped: number } {
+    const { articles, duplicates, grouped } = deduplicateArticlesWithCounts(
+      processed.map(({ article }) => article),
+      { keepNearDuplicates: true }
+    );
+    const kept = new Set(articles);
+    return { articles: processed.filter(({ article }) => kept.has(article)), duplicates, grouped };
+  }
 
-        try {
-          if (article.summary.length < 100) {
-            summary = await summarizeArticle(article.title, article.content);
-          }
-        } catch {
-          console.log(`AI summarization failed for "${article.title}", using original summary`);
-        }
+  // Store articles, updating known URLs whose content changed; credits new rows to their adapter and source.
+  // New and changed articles are then grouped into stories with matching coverage
+  private async storeArticles(
+    articles: ProcessedArticle[],
+    runs: AdapterRun[]
+  ): Promise<{ stored: number; updated: number }> {
+    const runByArticle = new Map<ProcessedArticle, AdapterRun>();
+    for (const run of runs) {
+      for (const article of run.articles) runByArticle.set(article, run);
+    }
 
-        processed.push({
-          title: article.title,
-          summary,
-          content: article.content,
-          source: article.source,
-          url: article.url,
-          imageUrl: article.imageUrl,
-          category: article.category,
-          readTime: article.readTime,
-          sentiment,
-          keywords,
-          isCurated: false,
-          isTopFive: false,
-          publishedAt: article.publishedAt,
-        });
-      } catch (error) {
-        console.error(`Failed to process RSS article: ${article.title}`, error);
+    const storedBySource = new Map<string, number>();
+    const changed: Article[] = [];
+    let stored = 0;
+    let updated = 0;
+    for (const processed of articles) {
+      const { article, entities } = processed;
+      const { article: saved, status } = await storage.upsertArticle(article);
+      if (status !== "unchanged") {
+        changed.push(saved);
+        await this.storeEntities(saved, entities);
+      }
+      if (status === "updated") updated++;
+      if (status !== "created") continue;
+
+      stored++;
+      const run = runByArticle.get(processed);
+      if (run) run.stats.stored++;
+      if (article.sourceId) {
+        storedBySource.set(article.sourceId, (storedBySource.get(article.sourceId) ?? 0) + 1);
       }
     }
 
-    return processed;
-  }
+    for (const stats of runs.flatMap((run) => run.sources)) {
+      stats.stored = storedBySource.get(stats.sourceId) ?? 0;
+    }
 
-  private async processNewsAPIArticles(articles: NewsAPIArticle[]): Promise<InsertArticle[]> {
-    const processed: InsertArticle[] = [];
+    try {
+      await assignStories(changed);
+    } catch (error) {
+      console.error("Failed to group articles into stories:", error);
+    }
+    return { stored, updated };
+  }
 
-    for (const article of articles) {
-      if (!article.title || !article.description || !article.content) continue;
+  private async storeEntities(article: Article, entities: ExtractedEntity[]): Promise<void> {
+    try {
+      await storage.replaceArticleEntities(article.id, toEntityRows(entities));
+    } catch (error) {
+      console.error(`Failed to store entities for "${article.title}":`, error);
+    }
+  }
 
+  private async processWithAI(items: CanonicalSourceItem[]): Promise<ProcessedArticle[]> {
+    const processed: ProcessedArticle[] = [];
+    const complete = items.filter((item) => item.title && item.summary && item.content);
+    const analyses = await analyzeArticles(
+      complete.map((item) => ({
+        title: item.title,
+        summary: item.summary,
+        content: item.content ?? "",
+        category: item.category,
+      }))
+    );
+
+    for (const [index, item] of Array.from(complete.entries())) {
       try {
-        let sentiment = 0.7;
-        let keywords: string[] = [];
-        let summary = article.description;
-
-        try {
-          const sentimentResult = await analyzeSentiment(article.title + " " + article.description);
-          sentiment = sentimentResult.rating;
-        } catch {
-          console.log(`AI sentiment analysis failed for "${article.title}", using default sentiment`);
-          sentiment = 0.7;
+        const analysis = analyses[index];
+
+        let sentiment = analysis.sentiment;
+        if (!sentiment) {
+          console.log(`AI sentiment analysis failed for "${item.title}", using lexicon sentiment`);
+          sentiment = await localProvider.analyzeSentiment(item.title + " " + item.summary);
         }
 
-        try {
-          summary = await summarizeArticle(article.title, article.content);
-        } catch {
-          console.log(`AI summarization failed for "${article.title}", using original description`);
-          summary = article.description;
+        let summary = analysis.summary;
+        if (!summary) {
+          console.log(`AI summarization failed for "${item.title}", using original description`);
+          summary = item.summary;
         }
 
-        try {
-          keywords = await extractKeywords(article.title + " " + article.description);
-        } catch {
-          console.log(`AI keyword extraction failed for "${article.title}", using basic keywords`);
-          keywords = this.extractBasicKeywords(article.title + " " + article.description);
+        let keywords = analysis.keywords;
+        if (!keywords) {
+          console.log(`AI keyword extraction failed for "${item.title}", using basic keywords`);
+          keywords = extractBasicKeywords(item.title + " " + item.summary);
         }
 
-        const wordCount = article.content.split(" ").length;
-        const readTime = Math.ceil(wordCount / 200);
+        let topics = analysis.topics;
+        if (!topics) {
+          console.log(`AI topic classification failed for "${item.title}", using local classifier`);
+          topics = await localProvider.classifyTopics(item.title, item.summary, item.category);
+        }
 
-        processed.push({
-          title: article.title,
+        let entities = analysis.entities;
+        if (!entities) {
+          console.log(`AI entity extraction failed for "${item.title}", using local extractor`);
+          entities = await localProvider.extractEntities(item.title, item.summary);
+        }
+
+        const article: InsertArticle = {
+          ...item,
           summary,
-          content: article.content,
-          source: article.source.name,
-          url: article.url,
-          imageUrl: article.urlToImage,
-          category: this.categorizeArticle(keywords),
-          readTime,
-          sentiment,
+          category: this.categoryFor(item, topics),
+          primaryTopic: topics.primary,
+          secondaryTopics: topics.secondary,
+          sentiment: sentiment.rating,
+          sentimentSource: sentiment.source,
+          anxietyProfile: sentiment.profile,
           keywords,
           isCurated: false,
           isTopFive: false,
-          publishedAt: article.publishedAt,
-        });
+        };
+        processed.push({ article, entities });
       } catch (error) {
-        console.error("Failed to process NewsAPI article:", article.title, error);
+        console.error("Failed to process article:", item.title, error);
       }
     }
 
     return processed;
   }
 
-  private async processRSSArticlesWithFallback(
-    articles: Omit<
-      InsertArticle,
-      "id" | "views" | "sentiment" | "keywords" | "isCurated" | "isTopFive"
-    >[]
-  ): Promise<InsertArticle[]> {
-    const processed: InsertArticle[] = [];
+  private async processWithFallback(items: CanonicalSourceItem[]): Promise<ProcessedArticle[]> {
+    const processed: ProcessedArticle[] = [];
 
-    for (const article of articles) {
-      if (!article.title || !article.summary || !article.content) continue;
+    for (const item of items) {
+      if (!item.title || !item.summary || !item.content) continue;
 
       try {
-        const sentiment = 0.7;
-        const keywords = this.extractBasicKeywords(article.title + " " + article.summary);
-        const summary = article.summary;
-
-        processed.push({
-          title: article.title,
-          summary,
-          content: article.content,
-          source: article.source,
-          url: article.url,
-          imageUrl: article.imageUrl,
-          category: article.category,
-          readTime: article.readTime,
-          sentiment,
+        const sentiment = await localProvider.analyzeSentiment(item.title + " " + item.summary);
+        const keywords = extractBasicKeywords(item.title + " " + item.summary);
+        const topics = await localProvider.classifyTopics(item.title, item.summary, item.category);
+        const entities = await localProvider.extractEntities(item.title, item.summary);
+
+        const article: InsertArticle = {
+          ...item,
+          category: this.categoryFor(item, topics),
+          primaryTopic: topics.primary,
+          secondaryTopics: topics.secondary,
+          sentiment: sentiment.rating,
+          sentimentSource: sentiment.source,
+          anxietyProfile: sentiment.profile,
           keywords,
           isCurated: false,
           isTopFive: false,
-          publishedAt: article.publishedAt,
-        });
+        };
+        processed.push({ article, entities });
 
-        console.log(`Processed RSS article: "${article.title}" from ${article.source}`);
+        console.log(`Processed article: "${item.title}" from ${item.source}`);
       } catch (error) {
-        console.error(`Failed to process RSS article: ${article.title}`, error);
+        console.error(`Failed to process article: ${item.title}`, error);
       }
     }
 
-    console.log(`Successfully processed ${processed.length} RSS articles with fallback method`);
+    console.log(`Successfully processed ${processed.length} articles with fallback method`);
     return processed;
   }
 
-  private extractBasicKeywords(text: string): string[] {
-    const commonWords = new Set([
-      "the","a","an","and","or","but","in","on","at","to","for","of","with","by",
-      "is","are","was","were","be","been","have","has","had","do","does","did",
-      "will","would","could","should","may","might","must","can","this","that","these","those",
-    ]);
-
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, " ")
-      .split(/\s+/)
-      .filter((word) => word.length > 3 && !commonWords.has(word))
-      .slice(0, 10);
-  }
-
-  private categorizeArticle(keywords: string[]): string {
-    const categories = {
-      Technology: ["tech", "ai", "artificial intelligence", "software", "programming", "digital"],
-      Career: ["career", "job", "employment", "professional", "workplace", "skills"],
-      Business: ["business", "startup", "company", "industry", "market", "economy"],
-      "Remote Work": ["remote", "work from home", "virtual", "distributed"],
-      Innovation: ["innovation", "breakthrough", "development", "research"],
-    };
-
-    for (const [category, categoryKeywords] of Object.entries(categories)) {
-      if (keywords.some((kw) => categoryKeywords.some((ckw) => kw.toLowerCase().includes(ckw)))) {
-        return category;
-      }
-    }
-
-    return "General";
+  // The feed's category when it has one, else the label of the primary topic's root
+  private categoryFor(item: CanonicalSourceItem, topics: TopicAssignment): string {
+    return item.category ?? getTopic(rootTopicId(topics.primary))?.label ?? "General";
   }
 
-  private async runCurationWithFallback(): Promise<void> {
+  // Returns null when curation failed
+  private async runCurationWithFallback(): Promise<CurationStageCounts | null> {
     try {
-      const articles = await storage.getArticles();
-
-      console.log("Using basic curation due to AI quota limits");
-      await this.runBasicCuration(articles);
+      return await this.selectCuratedArticles();
     } catch (error) {
       console.error("Failed to run curation:", error);
+      return null;
     }
   }
 
-  private async runBasicCuration(articles: any[]): Promise<void> {
+  private async selectCuratedArticles(): Promise<CurationStageCounts> {
     try {
-      console.log(`Starting basic curation with ${articles.length} articles`);
-
-      // ✅ Step 1: Only curate from last 3 days
+      // ✅ Step 1: Only curate from last 3 days (window applied in SQL)
       const days = 3;
-      const threeDaysAgo = Date.now() - days * 24 * 60 * 60 * 1000;
+      const threeDaysAgo = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
-      const recentArticles = articles.filter((article: any) => {
-        const publishedDate = new Date(article.publishedAt).getTime();
-        return Number.isFinite(publishedDate) && publishedDate >= threeDaysAgo;
-      });
+      const [total, recentArticles] = await Promise.all([
+        storage.countArticles(),
+        storage.getArticlesPublishedSince(threeDaysAgo),
+      ]);
 
-      console.log(`After date filtering (last ${days} days): ${recentArticles.length} of ${articles.length} remain`);
+      console.log(`Starting curation with ${total} articles (${getAiProvider("curate").name} provider)`);
+      console.log(`After date filtering (last ${days} days): ${recentArticles.length} of ${total} remain`);
 
       // Filter out blocked keywords
       const blockedKeywords = await storage.getKeywords();
@@ -347,51 +392,46 @@ export class NewsService {
       console.log(`After keyword filtering: ${keywordFiltered.length} articles remain`);
 
       // Deduplicate
-      const deduped = deduplicateArticles(keywordFiltered);
+      const { articles: deduped, duplicates } = deduplicateArticlesWithCounts(keywordFiltered);
       console.log(`After deduplication: ${deduped.length} unique articles (removed ${keywordFiltered.length - deduped.length})`);
 
       // ✅ Step 2: Cap curation workload at 500 (choose most recent 500)
       const capped = deduped
         .slice()
-        .sort((a: any, b: any) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+        .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
         .slice(0, 500);
 
       console.log(`After capping: ${capped.length} articles will be scored/selected`);
 
-      // Score
-      const scored = capped.map((article: any) => {
-        let score = article.sentiment || 0.7;
-        const titleAndSummary = `${article.title ?? ""} ${article.summary ?? ""}`.toLowerCase();
-
-        const positiveTerms = [
-          "growth","innovation","success","breakthrough","launch","funding","profit","advance",
-          "development","opportunity","market","technology","ai","startup",
-        ];
-        const positiveMatches = positiveTerms.filter((term) => titleAndSummary.includes(term)).length;
-        score += positiveMatches * 0.1;
-
-        if (article.category === "Technology" || article.category === "Business") score += 0.2;
-
-        const hoursOld = (Date.now() - new Date(article.publishedAt).getTime()) / (1000 * 60 * 60);
-        if (hoursOld < 24) score += 0.1;
-
-        return { ...article, score };
-      });
-
-      const sorted = scored.sort((a: any, b: any) => b.score - a.score);
-
-      // Pick Top Five + Curated
-      const topFiveIds = sorted.slice(0, 5).map((a: any) => a.id).filter(Boolean);
-      const curatedIds = sorted.slice(5, 20).map((a: any) => a.id).filter(Boolean);
+      // Select Top Five + Curated; the local heuristics stand in when the provider fails
+      let selection: CurationResult;
+      try {
+        selection = await curateArticles(capped);
+      } catch (error) {
+        console.error("Curation provider failed, using local curation:", error);
+        selection = await localProvider.curate(capped);
+      }
+      const topFiveIds = selection.topFive;
+      const curatedIds = selection.curated.filter((id) => !topFiveIds.includes(id));
 
       // ✅ BULK DB UPDATE (most important reliability fix)
       console.log("Applying curation flags in bulk (transactional)...");
       await storage.setCurationFlagsBulk(topFiveIds, curatedIds);
       console.log(`Curation flags applied: ${topFiveIds.length} top five, ${curatedIds.length} curated`);
 
-      console.log(`Top article: "${sorted[0]?.title}" (score: ${sorted[0]?.score})`);
+      return {
+        total,
+        dateFiltered: recentArticles.length,
+        keywordFiltered: keywordFiltered.length,
+        deduped: deduped.length,
+        duplicates,
+        capped: capped.length,
+        topFiveIds,
+        curatedIds,
+      };
     } catch (error) {
-      console.error("Failed to run basic curation:", error);
+      console.error("Failed to run curation:", error);
+      throw error;
     }
   }
 
@@ -0,0 +1,173 @@
+import { parse, HTMLElement } from "node-html-parser";
+import { storage } from "../storage";
+import type { NewsSource, OpmlImportResult } from "@shared/schema";
+import { findVisibleSourceByUrl, getSourcesForUser } from "./sourceService";
+import { assertPublicUrl } from "./safeFetch";
+
+/**
+ * OPML import/export of source subscriptions.
+ * Folder outlines (outlines without an xmlUrl) map to the source category,
+ * so a reader's "Tech" folder becomes category "Tech" here and back again.
+ * Imported URLs must resolve to public hosts, like sources added by hand.
+ */
+
+const DEFAULT_CATEGORY = "General";
+const MAX_OUTLINES_PER_IMPORT = 200; // every imported feed is polled from then on
+
+interface OpmlOutline {
+  url: string; // as written in the file, not yet validated
+  name: string;
+  category: string;
+}
+
+function normalizeFeedUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Walk the OPML body collecting feed outlines. The nearest enclosing folder
+ * wins; top-level feeds fall back to OPML 2.0's category attribute.
+ */
+function collectOutlines(element: HTMLElement, folder: string | null, outlines: OpmlOutline[]): void {
+  for (const outline of element.childNodes) {
+    if (!(outline instanceof HTMLElement) || outline.rawTagName.toLowerCase() !== "outline") continue;
+
+    const xmlUrl = outline.getAttribute("xmlUrl") ?? outline.getAttribute("xmlurl");
+    const label = (outline.getAttribute("text") || outline.getAttribute("title") || "").trim();
+
+    if (xmlUrl === undefined) {
+      collectOutlines(outline, label || folder, outlines);
+      continue;
+    }
+
+    const categoryAttr = (outline.getAttribute("category") || "")
+      .split(",")[0]
+      .replace(/^\/+/, "")
+      .trim();
+
+    outlines.push({
+      url: xmlUrl,
+      name: label,
+      category: folder || categoryAttr || DEFAULT_CATEGORY,
+    });
+  }
+}
+
+export async function importOpml(xml: string, userId: string): Promise<OpmlImportResult> {
+  const result: OpmlImportResult = { created: [], subscribed: [], duplicates: [], invalid: [], skipped: 0 };
+
+  const root = parse(xml, { lowerCaseTagName: false });
+  const body = root.querySelector("body");
+  if (!root.querySelector("opml") || !body) {
+    throw new Error("Not an OPML document");
+  }
+
+  const outlines: OpmlOutline[] = [];
+  collectOutlines(body, null, outlines);
+  result.skipped = Math.max(0, outlines.length - MAX_OUTLINES_PER_IMPORT);
+
+  const seenInFile = new Set<string>();
+
+  for (const outline of outlines.slice(0, MAX_OUTLINES_PER_IMPORT)) {
+    const url = normalizeFeedUrl(outline.url);
+    if (!url) {
+      result.invalid.push({ url: outline.url, name: outline.name, reason: "Not a valid http(s) feed URL" });
+      continue;
+    }
+
+    if (seenInFile.has(url)) {
+      result.duplicates.push({ url, name: outline.name, reason: "Listed more than once in the file" });
+      continue;
+    }
+    seenInFile.add(url);
+
+    const existing = await findVisibleSourceByUrl(url, userId);
+    if (existing) {
+      // Already a source the user can see: make sure they follow it
+      await storage.setSourceSubscription(userId, existing.id, true);
+      result.subscribed.push(existing);
+      result.duplicates.push({ url, name: outline.name, reason: "Already in the source list" });
+      continue;
+    }
+
+    try {
+      await assertPublicUrl(url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.invalid.push({ url, name: outline.name, reason: message });
+      continue;
+    }
+
+    const source = await storage.createNewsSource({
+      url,
+      name: outline.name || new URL(url).hostname,
+      category: outline.category,
+      ownerId: userId,
+    });
+    result.created.push(source);
+  }
+
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function renderOutline(source: NewsSource): string {
+  const name = escapeXml(source.name);
+  return `      <outline type="rss" text="${name}" title="${name}" xmlUrl="${escapeXml(source.url)}"/>`;
+}
+
+/**
+ * Export the feeds a user follows as OPML 2.0, one folder per category.
+ * Hacker News and Reddit sources aren't feeds, so they're left out.
+ */
+export async function exportOpml(userId?: string): Promise<string> {
+  const sources = (await getSourcesForUser(userId)).filter(
+    (source) => source.subscribed && source.type === "rss"
+  );
+
+  const byCategory = new Map<string, NewsSource[]>();
+  for (const source of sources) {
+    const group = byCategory.get(source.category) ?? [];
+    group.push(source);
+    byCategory.set(source.category, group);
+  }
+
+  const folders = Array.from(byCategory.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, categorySources]) => {
+      const label = escapeXml(category);
+      return [
+        `    <outline text="${label}" title="${label}">`,
+        ...categorySources.map(renderOutline),
+        `    </outline>`,
+      ].join("\n");
+    });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<opml version="2.0">`,
+    `  <head>`,
+    `    <title>BrightBuzz subscriptions</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    `  </head>`,
+    `  <body>`,
+    ...folders,
+    `  </body>`,
+    `</opml>`,
+    ``,
+  ].join("\n");
+}
@@ -0,0 +1,76 @@
+import { storage } from "../storage";
+import type { RetentionStats } from "@shared/schema";
+import { refreshStories } from "./storyService";
+
+/**
+ * Article retention. Articles published more than ARTICLE_RETENTION_DAYS ago
+ * are deleted (or moved to archived_articles with
+ * ARTICLE_RETENTION_MODE=archive) unless a user saved, liked or gave feedback
+ * on them, a podcast references them, or they are still curated.
+ */
+
+const ARTICLE_RETENTION_DAYS = parseInt(process.env.ARTICLE_RETENTION_DAYS || "30", 10);
+const ARTICLE_RETENTION_MODE: RetentionStats["mode"] =
+  process.env.ARTICLE_RETENTION_MODE === "archive" ? "archive" : "delete";
+const DELETE_BATCH_SIZE = 500;
+
+export async function pruneArticles(jobRunId?: string): Promise<RetentionStats> {
+  const cutoff = new Date(Date.now() - ARTICLE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const [candidates, referenced] = await Promise.all([
+    storage.getArticlesPublishedBefore(cutoff),
+    storage.getReferencedArticleIds(),
+  ]);
+
+  const saved = new Set(referenced.saved);
+  const liked = new Set(referenced.liked);
+  const feedback = new Set(referenced.feedback);
+  const podcast = new Set(referenced.podcast);
+
+  // Count each kept article once, under the first reason that applies
+  const kept = { saved: 0, liked: 0, feedback: 0, podcast: 0, curated: 0 };
+  const removable = candidates.filter((article) => {
+    if (saved.has(article.id)) kept.saved++;
+    else if (liked.has(article.id)) kept.liked++;
+    else if (feedback.has(article.id)) kept.feedback++;
+    else if (podcast.has(article.id)) kept.podcast++;
+    else if (article.isTopFive || article.isCurated) kept.curated++;
+    else return true;
+    return false;
+  });
+
+  let removed = 0;
+  for (let i = 0; i < removable.length; i += DELETE_BATCH_SIZE) {
+    const batch = removable.slice(i, i + DELETE_BATCH_SIZE).map((article) => article.id);
+    removed += await storage.deleteArticles(batch, ARTICLE_RETENTION_MODE === "archive");
+  }
+
+  // Stories that lost articles get fresh counts; those that lost all of them go
+  const prunedStoryIds = Array.from(new Set(removable.flatMap((article) => (article.storyId ? [article.storyId] : []))));
+  await refreshStories(prunedStoryIds);
+
+  const removedBySource: Record<string, number> = {};
+  for (const article of removable) {
+    removedBySource[article.source] = (removedBySource[article.source] ?? 0) + 1;
+  }
+  const removedDates = removable.map((article) => article.publishedAt.getTime()).sort((a, b) => a - b);
+
+  const stats: RetentionStats = {
+    mode: ARTICLE_RETENTION_MODE,
+    retentionDays: ARTICLE_RETENTION_DAYS,
+    cutoff: cutoff.toISOString(),
+    candidates: candidates.length,
+    kept,
+    removed,
+    removedBySource,
+    oldestRemoved: removedDates.length > 0 ? new Date(removedDates[0]).toISOString() : null,
+    newestRemoved: removedDates.length > 0 ? new Date(removedDates[removedDates.length - 1]).toISOString() : null,
+  };
+
+  console.log(
+    `Retention: ${ARTICLE_RETENTION_MODE === "archive" ? "archived" : "deleted"} ${removed} of ${candidates.length} articles older than ${ARTICLE_RETENTION_DAYS} days`
+  );
+  await storage.createIngestionReport({ jobRunId: jobRunId ?? null, kind: "retention", retention: stats });
+
+  return stats;
+}
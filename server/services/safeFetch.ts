@@ -0,0 +1,121 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+/**
+ * Guards for fetching URLs taken from feeds and article pages. Only http(s)
+ * URLs whose host resolves to public addresses are fetched, and redirects
+ * are followed by hand so every hop is checked; otherwise a feed item could
+ * point the server at localhost, the cloud metadata endpoint or the private
+ * network.
+ */
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, "ipv4");
+  if (family !== 6) return true; // not an address at all
+
+  // IPv4-mapped (::ffff:10.0.0.1) reaches the IPv4 host
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+  return BLOCKED_ADDRESSES.check(address, "ipv6");
+}
+
+/**
+ * Throw unless the URL is http(s) and every address its host resolves to
+ * is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Refusing to fetch ${parsed.protocol} URL`);
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${parsed.hostname}: private or reserved address`);
+  }
+}
+
+/**
+ * fetch() that checks the URL and each redirect target with checkUrl
+ * (assertPublicUrl unless a test swaps it). Returns the final response, its
+ * URL and the URLs redirected through; throws after maxRedirects hops.
+ */
+export async function fetchPublic(
+  url: string,
+  init: Omit<RequestInit, "redirect">,
+  {
+    maxRedirects = 5,
+    checkUrl = assertPublicUrl,
+  }: { maxRedirects?: number; checkUrl?: (url: string) => Promise<void> } = {}
+): Promise<{ response: Response; url: string; redirectChain: string[] }> {
+  const redirectChain: string[] = [];
+  let current = url;
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    await checkUrl(current);
+    const response = await fetch(current, { ...init, redirect: "manual" });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current, redirectChain };
+    }
+    await response.body?.cancel().catch(() => undefined);
+    redirectChain.push(current);
+    current = new URL(location, current).toString();
+  }
+  throw new Error(`Too many redirects for ${url}`);
+}
+
+// The body as text, or null once it passes maxBytes (the rest is never downloaded)
+export async function readTextUpTo(response: Response, maxBytes: number): Promise<string | null> {
+  const declaredLength = parseInt(response.headers.get("content-length") || "", 10);
+  if (declaredLength > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    return null;
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes += value.byteLength;
+      if (bytes > maxBytes) return null;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return text + decoder.decode();
+}
@@ -0,0 +1,206 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import type { JobRun, JobTrigger } from "@shared/schema";
+
+/**
+ * Persisted job scheduler. Jobs run on 5-field cron schedules evaluated in
+ * UTC, every run is recorded in job_runs, and a lease in job_locks keeps a
+ * job from running on more than one instance at a time.
+ */
+
+export interface JobDefinition {
+  name: string;
+  schedule: string; // minute hour day-of-month month day-of-week
+  run: (jobRunId: string) => Promise<void>;
+  minIntervalMs?: number; // manual triggers within this long of the last success are skipped unless forced
+  lockTtlMs?: number; // lease length; a crashed instance's lock expires after this
+}
+
+export type JobRunOutcome =
+  | { status: "skipped"; reason: string }
+  | { status: "completed"; run: JobRun };
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+function parseCronField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    const [start, end] =
+      range === "*"
+        ? [min, max]
+        : range.includes("-")
+          ? range.split("-").map(Number)
+          : [Number(range), stepText === undefined ? Number(range) : max];
+
+    if (![start, end, step].every(Number.isInteger) || start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  // Day of week accepts 7 as an alias for Sunday
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== "*",
+    dayOfWeekRestricted: dayOfWeek !== "*",
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes())) return false;
+  if (!schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatches = schedule.daysOfWeek.has(date.getUTCDay());
+
+  // Standard cron: when both day fields are restricted, either one matching is enough
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+export class JobScheduler {
+  private jobs = new Map<string, { definition: JobDefinition; schedule: CronSchedule }>();
+  private timer: NodeJS.Timeout | null = null;
+
+  register(definition: JobDefinition): void {
+    this.jobs.set(definition.name, {
+      definition,
+      schedule: parseCronExpression(definition.schedule),
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`Job scheduler started on ${INSTANCE_ID} with ${this.jobs.size} jobs`);
+    this.scheduleNextTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a job now, recording it in job_runs. Returns "skipped" without
+   * recording anything when another run holds the lock or (for manual
+   * triggers) the job succeeded too recently.
+   */
+  async runJob(
+    name: string,
+    options: { trigger?: JobTrigger; force?: boolean; slot?: Date } = {}
+  ): Promise<JobRunOutcome> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job "${name}"`);
+    }
+
+    const { trigger = "manual", force = false, slot } = options;
+    const { definition } = job;
+
+    if (trigger === "manual" && !force && definition.minIntervalMs) {
+      const lastSuccess = await storage.getLastJobRun(name, "succeeded");
+      if (lastSuccess && Date.now() - lastSuccess.startedAt.getTime() < definition.minIntervalMs) {
+        return { status: "skipped", reason: "ran recently" };
+      }
+    }
+
+    const acquired = await storage.acquireJobLock(name, INSTANCE_ID, definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS);
+    if (!acquired) {
+      return { status: "skipped", reason: "already running" };
+    }
+
+    try {
+      // Another instance may have run this schedule slot and released the lock already
+      if (slot) {
+        const lastRun = await storage.getLastJobRun(name);
+        if (lastRun && lastRun.startedAt.getTime() >= slot.getTime()) {
+          return { status: "skipped", reason: "already ran for this schedule slot" };
+        }
+      }
+
+      const run = await storage.createJobRun({ jobName: name, trigger, status: "running", instanceId: INSTANCE_ID });
+      const startedAt = Date.now();
+      let error: string | null = null;
+
+      try {
+        await definition.run(run.id);
+      } catch (err) {
+        console.error(`Job ${name} failed:`, err);
+        error = err instanceof Error ? err.message : String(err);
+      }
+
+      const finishedRun = await storage.updateJobRun(run.id, {
+        status: error ? "failed" : "succeeded",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+      return { status: "completed", run: finishedRun ?? run };
+    } finally {
+      await storage.releaseJobLock(name, INSTANCE_ID);
+    }
+  }
+
+  // Wake at the top of every minute and start whichever jobs are due
+  private scheduleNextTick(): void {
+    const delay = 60 * 1000 - (Date.now() % (60 * 1000));
+    this.timer = setTimeout(() => {
+      this.tick(new Date());
+      this.scheduleNextTick();
+    }, delay);
+  }
+
+  private tick(now: Date): void {
+    const slot = new Date(Math.floor(now.getTime() / (60 * 1000)) * 60 * 1000);
+
+    for (const [name, job] of Array.from(this.jobs.entries())) {
+      if (!cronMatches(job.schedule, slot)) continue;
+
+      this.runJob(name, { trigger: "schedule", slot }).catch((error) => {
+        console.error(`Failed to start scheduled job ${name}:`, error);
+      });
+    }
+  }
+}
+
+export const scheduler = new JobScheduler();
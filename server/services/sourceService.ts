@@ -0,0 +1,94 @@
+import { storage } from "../storage";
+import type { NewsSource, NewsSourceType, NewsSourceWithSubscription } from "@shared/schema";
+import { DEFAULT_SOURCES } from "./defaultSources";
+
+/**
+ * Source visibility rules shared by the /api/sources routes and the
+ * filtering pipeline:
+ * - Global sources (ownerId = null) are visible to everyone and subscribed
+ *   by default; a user opts out with a subscription override.
+ * - User-owned sources are visible only to their owner.
+ */
+
+/**
+ * Load every source, seeding the global defaults the first time the table
+ * is empty (fresh database or first deploy after the move off the
+ * hardcoded feed list).
+ */
+export async function getAllSources(): Promise<NewsSource[]> {
+  const sources = await storage.getNewsSources();
+  if (sources.length > 0) return sources;
+
+  console.log(`Seeding ${DEFAULT_SOURCES.length} default news sources`);
+  await storage.seedNewsSources(DEFAULT_SOURCES);
+  return await storage.getNewsSources();
+}
+
+/**
+ * Sources a user can see on the Settings page, with their subscription
+ * state resolved
+ */
+export async function getSourcesForUser(userId?: string): Promise<NewsSourceWithSubscription[]> {
+  const [sources, subscriptions] = await Promise.all([
+    getAllSources(),
+    userId ? storage.getSourceSubscriptions(userId) : Promise.resolve([]),
+  ]);
+
+  const overrides = new Map(subscriptions.map((sub) => [sub.sourceId, sub.subscribed]));
+
+  return sources
+    .filter((source) => !source.ownerId || source.ownerId === userId)
+    .map((source) => ({
+      ...source,
+      subscribed: overrides.get(source.id) ?? true,
+      isOwner: !!userId && source.ownerId === userId,
+    }));
+}
+
+/**
+ * The source with this URL that the user can already see: the global one,
+ * else their own. Other users' private sources never match.
+ */
+export async function findVisibleSourceByUrl(url: string, userId: string): Promise<NewsSource | undefined> {
+  return (await storage.getNewsSourceByUrl(url, null)) ?? (await storage.getNewsSourceByUrl(url, userId));
+}
+
+/**
+ * IDs of sources whose articles must not be shown to this user: other
+ * users' private sources plus any global source they unsubscribed from
+ */
+export async function getHiddenSourceIds(userId?: string): Promise<string[]> {
+  const [sources, subscriptions] = await Promise.all([
+    storage.getNewsSources(),
+    userId ? storage.getSourceSubscriptions(userId) : Promise.resolve([]),
+  ]);
+
+  const unsubscribed = new Set(
+    subscriptions.filter((sub) => !sub.subscribed).map((sub) => sub.sourceId)
+  );
+
+  return sources
+    .filter((source) => (source.ownerId && source.ownerId !== userId) || unsubscribed.has(source.id))
+    .map((source) => source.id);
+}
+
+/**
+ * Source type for a URL added without one: subreddit pages and Hacker News
+ * API lists get their own adapters, anything else is treated as a feed.
+ * Reddit's own .rss feeds stay RSS.
+ */
+export function detectSourceType(url: string): NewsSourceType {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "rss";
+  }
+
+  const host = parsed.hostname.replace(/^www\./, "");
+  if (host === "hacker-news.firebaseio.com") return "hackernews";
+  if ((host === "reddit.com" || host.endsWith(".reddit.com")) && /^\/r\/[^/]+/.test(parsed.pathname) && !parsed.pathname.endsWith(".rss")) {
+    return "reddit";
+  }
+  return "rss";
+}
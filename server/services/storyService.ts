@@ -0,0 +1,190 @@
+import { storage } from "../storage";
+import type { Article, InsertStory, StorySummary, StoryTimeline } from "@shared/schema";
+import { applyFilters, calculateArticleQuality } from "./filteringService";
+
+/**
+ * Story clustering. After ingest, each new or changed article is compared
+ * with articles published within STORY_WINDOW_HOURS of it; when one covers
+ * the same event (close headlines or near-identical summaries) the two share
+ * a story. Matching is single-link: an article joins its closest match's
+ * story, or starts one with it. Stories are never merged, and an article no
+ * one else covered has none. Feeds show one card per story, and the other
+ * coverage stays available as the story's timeline instead of being dropped
+ * as duplicates.
+ */
+
+const STORY_WINDOW_HOURS = parseInt(process.env.STORY_WINDOW_HOURS || "72", 10);
+const TITLE_SIMILARITY = 0.5; // Dice overlap of headline terms
+const MIN_SHARED_TITLE_TERMS = 3; // so short headlines don't match on a name and a verb
+const SUMMARY_SIMILARITY = 0.8; // Jaccard overlap of summary terms, as in deduplication
+
+const STOP_WORDS = new Set([
+  "the", "an", "and", "or", "but", "in", "on", "at", "to", "for", "of", "with", "by", "from", "as", "into",
+  "is", "are", "was", "were", "be", "been", "has", "have", "had", "will", "would", "could", "can", "may",
+  "it", "its", "this", "that", "these", "those", "after", "over", "about", "amid", "says", "said", "new",
+  "how", "why", "what", "who", "up", "out", "more", "than",
+]);
+
+interface ArticleTerms {
+  title: Set<string>;
+  summary: Set<string>;
+}
+
+function terms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/['’]s\b/g, "")
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+  );
+}
+
+function shared(a: Set<string>, b: Set<string>): number {
+  return Array.from(a).filter((term) => b.has(term)).length;
+}
+
+// 0 when the articles aren't about the same event, else how closely they match
+function storySimilarity(a: ArticleTerms, b: ArticleTerms): number {
+  const sharedTitle = shared(a.title, b.title);
+  if (sharedTitle > 0 && sharedTitle === a.title.size && sharedTitle === b.title.size) return 1; // same headline
+  const titleScore = sharedTitle >= MIN_SHARED_TITLE_TERMS ? (2 * sharedTitle) / (a.title.size + b.title.size) : 0;
+
+  const sharedSummary = shared(a.summary, b.summary);
+  const unionSize = a.summary.size + b.summary.size - sharedSummary;
+  const summaryScore = unionSize > 0 ? sharedSummary / unionSize : 0;
+
+  return Math.max(
+    titleScore >= TITLE_SIMILARITY ? titleScore : 0,
+    summaryScore > SUMMARY_SIMILARITY ? summaryScore : 0
+  );
+}
+
+// Headline, counts and time span from a story's articles; the best-quality article represents it
+function summarizeStory(members: Article[]): InsertStory {
+  const representative = members.reduce((best, article) =>
+    calculateArticleQuality(article) > calculateArticleQuality(best) ? article : best
+  );
+  const times = members.map((article) => article.publishedAt.getTime());
+  return {
+    headline: representative.title,
+    representativeArticleId: representative.id,
+    articleCount: members.length,
+    sourceCount: new Set(members.map((article) => article.source)).size,
+    firstPublishedAt: new Date(Math.min(...times)),
+    lastPublishedAt: new Date(Math.max(...times)),
+  };
+}
+
+/**
+ * Recompute stories from their current articles; run after articles join
+ * or are pruned. Stories left without articles are deleted.
+ */
+export async function refreshStories(storyIds: string[]): Promise<void> {
+  if (storyIds.length === 0) return;
+
+  const membersByStory = new Map<string, Article[]>();
+  for (const article of await storage.getStoryArticles(storyIds)) {
+    membersByStory.set(article.storyId!, [...(membersByStory.get(article.storyId!) ?? []), article]);
+  }
+  for (const [storyId, members] of Array.from(membersByStory.entries())) {
+    await storage.updateStory(storyId, summarizeStory(members));
+  }
+  if (membersByStory.size < storyIds.length) await storage.deleteEmptyStories();
+}
+
+/**
+ * Put freshly stored articles into stories with the coverage they match.
+ * Returns how many stories were created or grew.
+ */
+export async function assignStories(stored: Article[]): Promise<number> {
+  // Without a real date an article can't be placed in a story's time window
+  const articles = stored.filter((article) => !article.publishedAtEstimated);
+  if (articles.length === 0) return 0;
+
+  const windowMs = STORY_WINDOW_HOURS * 60 * 60 * 1000;
+  const earliest = Math.min(...articles.map((article) => article.publishedAt.getTime()));
+  const candidates = new Map(
+    (await storage.getArticlesPublishedSince(new Date(earliest - windowMs))).map((article) => [article.id, article])
+  );
+  const termsById = new Map<string, ArticleTerms>();
+  const termsFor = (article: Article) => {
+    let articleTerms = termsById.get(article.id);
+    if (!articleTerms) {
+      articleTerms = { title: terms(article.title), summary: terms(article.summary) };
+      termsById.set(article.id, articleTerms);
+    }
+    return articleTerms;
+  };
+
+  const touched = new Set<string>();
+  const ordered = articles.slice().sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  for (const stored of ordered) {
+    const article = candidates.get(stored.id) ?? stored; // picks up a story assigned earlier in this loop
+
+    let match: Article | null = null;
+    let bestScore = 0;
+    for (const candidate of Array.from(candidates.values())) {
+      if (candidate.id === article.id) continue;
+      if (Math.abs(candidate.publishedAt.getTime() - article.publishedAt.getTime()) > windowMs) continue;
+      const score = storySimilarity(termsFor(article), termsFor(candidate));
+      if (score > bestScore) {
+        bestScore = score;
+        match = candidate;
+      }
+    }
+    // Already together, or each in its own story
+    if (!match || (article.storyId && match.storyId)) continue;
+
+    const storyId = match.storyId ?? article.storyId ?? (await storage.createStory(summarizeStory([article, match]))).id;
+    const joining = [article, match].filter((member) => member.storyId !== storyId);
+    await storage.setArticleStory(joining.map((member) => member.id), storyId);
+    for (const member of joining) candidates.set(member.id, { ...member, storyId });
+    touched.add(storyId);
+  }
+
+  await refreshStories(Array.from(touched));
+  if (touched.size > 0) console.log(`Stories: ${touched.size} created or extended from ${articles.length} new and changed articles`);
+  return touched.size;
+}
+
+/**
+ * One card per story: the first (highest-ranked) article of each story
+ * stands for it, with the story's counts attached. Later articles of the
+ * same story are left out; articles without a story pass through.
+ */
+export async function collapseStories<T extends Article>(articles: T[]): Promise<Array<T & { story: StorySummary | null }>> {
+  const storyIds = Array.from(new Set(articles.flatMap((article) => (article.storyId ? [article.storyId] : []))));
+  const stories = new Map((await storage.getStories(storyIds)).map((story) => [story.id, story]));
+
+  const seen = new Set<string>();
+  return articles.flatMap((article) => {
+    if (!article.storyId) return [{ ...article, story: null }];
+    if (seen.has(article.storyId)) return [];
+    seen.add(article.storyId);
+
+    const story = stories.get(article.storyId);
+    return [{
+      ...article,
+      story: story
+        ? { id: story.id, headline: story.headline, articleCount: story.articleCount, sourceCount: story.sourceCount }
+        : null,
+    }];
+  });
+}
+
+/**
+ * A story's coverage, oldest first, through the user's filters
+ */
+export async function getStoryTimeline(storyId: string, userId?: string): Promise<StoryTimeline | null> {
+  const story = await storage.getStory(storyId);
+  if (!story) return null;
+
+  const members = await storage.getStoryArticles([storyId]);
+  const visible = await applyFilters(members, userId);
+  return {
+    story,
+    articles: visible.sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime()),
+    hiddenCount: members.length - visible.length,
+  };
+}
@@ -0,0 +1,133 @@
+import { storage } from "../storage";
+import { normalizeUrl, pickCanonicalUrl, findCanonicalLink } from "../articleUrls";
+import { FetchPool } from "./feedFetcher";
+import { assertPublicUrl } from "./safeFetch";
+import type { SourceItem } from "./adapters/types";
+
+/**
+ * Canonical URL resolution for incoming articles. URLs not seen before are
+ * resolved by following redirects (FeedBurner, Google News and shortener
+ * links) and reading <link rel="canonical"> from the page head, then
+ * normalized (see articleUrls). Set CANONICAL_URL_RESOLUTION=false to
+ * normalize only.
+ */
+
+const CANONICAL_URL_RESOLUTION = process.env.CANONICAL_URL_RESOLUTION !== "false";
+const CANONICAL_BUDGET_MS = parseInt(process.env.CANONICAL_BUDGET_MS || "30000", 10); // per adapter per run
+const CANONICAL_TIMEOUT_MS = 5000; // per URL, across all redirects
+const CANONICAL_CONCURRENCY = 4;
+const HOST_DELAY_MS = 250;
+const MAX_REDIRECTS = 5;
+const MAX_HEAD_BYTES = 256 * 1024; // stop reading once the canonical link should have appeared
+
+const USER_AGENT = "Mozilla/5.0 (compatible; BrightBuzz/1.0; +https://brightbuzz.vercel.app)";
+
+// Read the response until </head> (or MAX_HEAD_BYTES) without downloading the whole page
+async function readHead(response: Response): Promise<string> {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = "";
+  try {
+    while (html.length < MAX_HEAD_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      html += decoder.decode(value, { stream: true });
+      if (/<\/head>/i.test(html)) break;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+  return html;
+}
+
+/**
+ * Follow up to MAX_REDIRECTS redirects, then take the final page's
+ * rel=canonical if it declares one. Returns the normalized result, or null
+ * when the URL couldn't be fetched. Throws for URLs (or redirect targets) on
+ * private addresses.
+ */
+export async function resolveCanonicalUrl(url: string, timeoutMs: number = CANONICAL_TIMEOUT_MS): Promise<string | null> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const redirectChain: string[] = [];
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, {
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel().catch(() => undefined);
+      redirectChain.push(current);
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => undefined);
+      return null;
+    }
+    if (!(response.headers.get("content-type") || "").includes("html")) {
+      await response.body?.cancel().catch(() => undefined);
+      return normalizeUrl(current);
+    }
+
+    const canonical = pickCanonicalUrl(findCanonicalLink(await readHead(response)), current, redirectChain);
+    return normalizeUrl(canonical ?? current);
+  }
+
+  // Too many redirects: the last location is still better than the redirector
+  return normalizeUrl(current);
+}
+
+/**
+ * Give every item a canonicalUrl. Adapters may already have set one (from an
+ * article page they fetched); URLs stored on an earlier run reuse the stored
+ * canonical; the rest are resolved until the time budget runs out, then
+ * normalized only.
+ */
+export async function canonicalizeItems(items: SourceItem[]): Promise<Array<SourceItem & { canonicalUrl: string }>> {
+  const unresolved = items.filter((item) => !item.canonicalUrl).map((item) => item.url);
+  const known = new Map(
+    unresolved.length > 0
+      ? (await storage.getCanonicalUrls(unresolved)).map(({ url, canonicalUrl }) => [url, canonicalUrl])
+      : []
+  );
+
+  const deadline = Date.now() + CANONICAL_BUDGET_MS;
+  const pool = new FetchPool(CANONICAL_CONCURRENCY, HOST_DELAY_MS);
+  let resolvedCount = 0;
+
+  const canonicalized = await Promise.all(
+    items.map(async (item) => {
+      if (item.canonicalUrl) return { ...item, canonicalUrl: normalizeUrl(item.canonicalUrl) };
+
+      const stored = known.get(item.url);
+      if (stored) return { ...item, canonicalUrl: stored };
+
+      if (!CANONICAL_URL_RESOLUTION) return { ...item, canonicalUrl: normalizeUrl(item.url) };
+
+      const canonicalUrl = await pool.run(item.url, async () => {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) return null;
+        try {
+          return await resolveCanonicalUrl(item.url, Math.min(CANONICAL_TIMEOUT_MS, remaining));
+        } catch {
+          return null;
+        }
+      });
+      if (canonicalUrl) resolvedCount++;
+      return { ...item, canonicalUrl: canonicalUrl ?? normalizeUrl(item.url) };
+    })
+  );
+
+  if (unresolved.length > 0) {
+    console.log(`Canonical URLs for ${unresolved.length} links: ${known.size} already stored, ${resolvedCount} resolved`);
+  }
+  return canonicalized;
+}
@@ -0,0 +1,270 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import type { NewsSource } from "@shared/schema";
+import type { FeedFormat } from "./feedParser";
+import { fetchPublic } from "./safeFetch";
+
+/**
+ * WebSub (PubSubHubbub) push subscriptions. Feeds that advertise a hub are
+ * subscribed while they are polled; the hub verifies the subscription with a
+ * GET to /api/websub/:sourceId and then POSTs new content there, signed with
+ * a per-source secret derived from WEBSUB_SECRET. While a subscription is
+ * live the source is only polled every WEBSUB_POLL_INTERVAL_HOURS as a
+ * fallback; once it lapses, normal polling resumes until it is renewed.
+ * Hub URLs come from user-owned feeds, so requests go through fetchPublic,
+ * and only https hubs are subscribed to since the secret travels in the
+ * subscribe request.
+ *
+ * Requires WEBSUB_SECRET and PUBLIC_BASE_URL (the URL hubs can reach this
+ * server at); without them every source is polled and pushes are refused.
+ */
+
+const WEBSUB_SECRET = process.env.WEBSUB_SECRET || "";
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || "").replace(/\/+$/, "");
+const WEBSUB_LEASE_SECONDS = parseInt(process.env.WEBSUB_LEASE_SECONDS || "864000", 10); // 10 days, hubs may shorten it
+const WEBSUB_POLL_INTERVAL_MS = parseInt(process.env.WEBSUB_POLL_INTERVAL_HOURS || "6", 10) * 60 * 60 * 1000;
+
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000; // resubscribe when the lease ends within a day
+const RETRY_AFTER_MS = 60 * 60 * 1000; // resend a request the hub never verified
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface WebSubLinks {
+  hub: string;
+  self: string | null; // topic URL the hub knows the feed by
+}
+
+export type VerificationResult = { status: number; body: string };
+
+// Unsubscribes we sent and the hub has yet to verify, by source id. Kept in
+// memory: one lost to a restart is refused and the hub lets the lease run out.
+const pendingUnsubscribes = new Map<string, { topic: string; requestedAt: number }>();
+
+export function isWebSubEnabled(): boolean {
+  return !!WEBSUB_SECRET && !!PUBLIC_BASE_URL;
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"));
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function hasRel(rel: string | null, value: string): boolean {
+  return !!rel && rel.toLowerCase().split(/\s+/).includes(value);
+}
+
+// HTTP Link header, e.g. <https://hub.example/>; rel="hub", <https://site/feed>; rel="self"
+function parseLinkHeader(header: string): WebSubLinks | null {
+  let hub: string | null = null;
+  let self: string | null = null;
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = part.match(/<([^>]+)>(.*)/);
+    if (!match) continue;
+    const rel = readAttribute(match[2], "rel");
+    if (!hub && hasRel(rel, "hub")) hub = match[1].trim();
+    if (!self && hasRel(rel, "self")) self = match[1].trim();
+  }
+  return hub ? { hub, self } : null;
+}
+
+/**
+ * Hub and self links advertised by a feed: the Link header first (preferred
+ * by the spec), then <link rel="hub"> / <atom:link rel="hub"> in XML feeds or
+ * "hubs" in JSON Feed.
+ */
+export function discoverWebSubLinks(
+  body: string,
+  format: FeedFormat,
+  linkHeader?: string | null
+): WebSubLinks | null {
+  const fromHeader = linkHeader ? parseLinkHeader(linkHeader) : null;
+  if (fromHeader) return fromHeader;
+
+  if (format === "json") {
+    try {
+      const feed = JSON.parse(body);
+      const hub = Array.isArray(feed.hubs) ? feed.hubs.find((entry: any) => typeof entry?.url === "string") : null;
+      return hub ? { hub: hub.url, self: typeof feed.feed_url === "string" ? feed.feed_url : null } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  let hub: string | null = null;
+  let self: string | null = null;
+  for (const [tag] of Array.from(body.matchAll(/<(?:atom:)?link\b[^>]*>/gi))) {
+    const rel = readAttribute(tag, "rel");
+    const href = readAttribute(tag, "href");
+    if (!href) continue;
+    if (!hub && hasRel(rel, "hub")) hub = href;
+    if (!self && hasRel(rel, "self")) self = href;
+    if (hub && self) break;
+  }
+  return hub ? { hub, self } : null;
+}
+
+function callbackUrl(source: NewsSource): string {
+  return `${PUBLIC_BASE_URL}/api/websub/${encodeURIComponent(source.id)}`;
+}
+
+function isHttpsUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Per-source so a leaked secret only lets someone forge pushes for one feed
+function sourceSecret(source: NewsSource): string {
+  if (!WEBSUB_SECRET) throw new Error("WEBSUB_SECRET is not set");
+  return createHmac("sha256", WEBSUB_SECRET).update(source.id).digest("hex");
+}
+
+// Subscribed, or waiting for the hub to verify a subscribe request
+export function hasSubscription(source: NewsSource): boolean {
+  return !!source.websubHub && !!source.websubTopic;
+}
+
+export function hasActiveSubscription(source: NewsSource, now: Date = new Date()): boolean {
+  return !!source.websubExpiresAt && source.websubExpiresAt.getTime() > now.getTime();
+}
+
+// Sources with a live subscription are still polled now and then in case the hub stops delivering
+export function isPollDue(source: NewsSource, now: Date = new Date()): boolean {
+  if (!isWebSubEnabled() || !hasActiveSubscription(source, now)) return true;
+  return !source.lastSuccessAt || now.getTime() - source.lastSuccessAt.getTime() >= WEBSUB_POLL_INTERVAL_MS;
+}
+
+/**
+ * Subscribe (or renew) when the feed advertises a hub we aren't subscribed
+ * to, the lease is about to end, or an earlier request was never verified.
+ * Failures are logged and retried on a later poll.
+ */
+export async function ensureSubscription(source: NewsSource, links: WebSubLinks | null): Promise<void> {
+  if (!isWebSubEnabled() || !links) return;
+
+  if (!isHttpsUrl(links.hub)) {
+    console.log(`Not subscribing ${source.name} to ${links.hub}: WebSub hubs must use https`);
+    // Drop a subscription from before hubs were checked; its secret went out in the clear
+    if (hasSubscription(source)) await cancelSubscription(source);
+    return;
+  }
+
+  const now = Date.now();
+  const topic = links.self || source.url;
+  const sameSubscription = source.websubHub === links.hub && source.websubTopic === topic;
+  const leaseOk = !!source.websubExpiresAt && source.websubExpiresAt.getTime() - now > RENEW_BEFORE_MS;
+  const recentlyRequested = !!source.websubRequestedAt && now - source.websubRequestedAt.getTime() < RETRY_AFTER_MS;
+  if (sameSubscription && (leaseOk || recentlyRequested)) return;
+
+  try {
+    const { response } = await fetchPublic(links.hub, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        "hub.mode": "subscribe",
+        "hub.topic": topic,
+        "hub.callback": callbackUrl(source),
+        "hub.secret": sourceSecret(source),
+        "hub.lease_seconds": String(WEBSUB_LEASE_SECONDS),
+      }).toString(),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Hub responded with status ${response.status}`);
+
+    console.log(`Requested WebSub subscription for ${source.name} at ${links.hub}`);
+    await storage.updateNewsSource(source.id, {
+      websubHub: links.hub,
+      websubTopic: topic,
+      websubRequestedAt: new Date(),
+      // A different hub or topic starts unverified; a renewal keeps its current lease meanwhile
+      websubExpiresAt: sameSubscription ? source.websubExpiresAt : null,
+    });
+  } catch (error) {
+    console.error(`WebSub subscription for ${source.name} failed:`, error);
+    await storage.updateNewsSource(source.id, { websubRequestedAt: new Date() });
+  }
+}
+
+/**
+ * Ask the hub to stop pushing a source that is being disabled or deleted.
+ * The subscription is cleared right away; the hub's verification GET is
+ * confirmed only while the request is pending. Failures are logged and the
+ * lease is left to run out.
+ */
+export async function cancelSubscription(source: NewsSource): Promise<void> {
+  if (!isWebSubEnabled() || !hasSubscription(source)) return;
+
+  pendingUnsubscribes.set(source.id, { topic: source.websubTopic!, requestedAt: Date.now() });
+  try {
+    const { response } = await fetchPublic(source.websubHub!, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        "hub.mode": "unsubscribe",
+        "hub.topic": source.websubTopic!,
+        "hub.callback": callbackUrl(source),
+      }).toString(),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Hub responded with status ${response.status}`);
+    console.log(`Requested WebSub unsubscribe for ${source.name} at ${source.websubHub}`);
+  } catch (error) {
+    pendingUnsubscribes.delete(source.id);
+    console.error(`WebSub unsubscribe for ${source.name} failed:`, error);
+  }
+  await storage.updateNewsSource(source.id, { websubHub: null, websubTopic: null, websubExpiresAt: null });
+}
+
+/**
+ * Answer a hub's verification GET. Subscribes are confirmed only for the
+ * hub topic we asked for on a source that is still enabled, unsubscribes
+ * only when we requested them (see cancelSubscription), and denials clear
+ * the subscription so the source goes back to polling.
+ */
+export async function verifyIntent(sourceId: string, query: Record<string, unknown>): Promise<VerificationResult> {
+  const mode = String(query["hub.mode"] ?? "");
+  const topic = String(query["hub.topic"] ?? "");
+  const challenge = String(query["hub.challenge"] ?? "");
+
+  if (mode === "unsubscribe") {
+    const pending = pendingUnsubscribes.get(sourceId);
+    if (!pending || pending.topic !== topic || !challenge || Date.now() - pending.requestedAt > RETRY_AFTER_MS) {
+      return { status: 404, body: "Unsubscribe not requested" };
+    }
+    pendingUnsubscribes.delete(sourceId);
+    console.log(`WebSub unsubscribe verified for source ${sourceId}`);
+    return { status: 200, body: challenge };
+  }
+
+  const source = await storage.getNewsSource(sourceId);
+  if (!source || !source.websubTopic || topic !== source.websubTopic) {
+    return { status: 404, body: "Unknown subscription" };
+  }
+
+  if (mode === "denied") {
+    console.log(`WebSub denied for ${source.name}: ${String(query["hub.reason"] ?? "no reason given")}`);
+    await storage.updateNewsSource(source.id, { websubHub: null, websubTopic: null, websubExpiresAt: null });
+    return { status: 200, body: challenge };
+  }
+
+  if (mode !== "subscribe" || !challenge || source.enabled === false) {
+    return { status: 404, body: "Subscription not wanted" };
+  }
+
+  const leaseSeconds = parseInt(String(query["hub.lease_seconds"] ?? WEBSUB_LEASE_SECONDS), 10) || WEBSUB_LEASE_SECONDS;
+  await storage.updateNewsSource(source.id, { websubExpiresAt: new Date(Date.now() + leaseSeconds * 1000) });
+  console.log(`WebSub subscription for ${source.name} verified for ${leaseSeconds}s`);
+  return { status: 200, body: challenge };
+}
+
+// X-Hub-Signature: <algorithm>=<hex HMAC of the raw body>, per the WebSub spec
+export function verifyPushSignature(source: NewsSource, body: Buffer, header: string | undefined): boolean {
+  if (!isWebSubEnabled() || !hasSubscription(source)) return false;
+  const match = header?.match(/^(sha1|sha256|sha384|sha512)=([0-9a-f]+)$/i);
+  if (!match) return false;
+
+  const expected = createHmac(match[1].toLowerCase(), sourceSecret(source)).update(body).digest();
+  const received = Buffer.from(match[2], "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
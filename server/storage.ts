@@ -10,8 +10,32 @@ import {
   type InsertPodcast,
   type User,
   type UpsertUser,
+  type NewsSource,
+  type InsertNewsSource,
+  type UserSourceSubscription,
+  type JobRun,
+  type InsertJobRun,
+  type JobRunStatus,
+  type IngestionReport,
+  type InsertIngestionReport,
+  type ArticleUpsertStatus,
+  type AiAnalysis,
+  type InsertAiAnalysis,
+  type AiUsage,
+  type InsertAiUsage,
+  type AiUsageTotals,
+  type ArticleEntity,
+  type InsertArticleEntity,
+  type EntityType,
+  type TrendingEntity,
+  type UserEntityPreference,
+  type InsertUserEntityPreference,
+  type Story,
+  type InsertStory,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { diffArticle, hashContent } from "./articleRevisions";
+import { normalizeUrl } from "./articleUrls";
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -19,8 +43,16 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
 
   // Articles
-  createArticle(article: InsertArticle): Promise<Article>;
+  // Inserts, or updates the row with the same (normalized) URL when its title, summary, content or image changed
+  upsertArticle(article: InsertArticle): Promise<{ article: Article; status: ArticleUpsertStatus }>;
   getArticles(): Promise<Article[]>;
+  getCanonicalUrls(urls: string[]): Promise<Array<{ url: string; canonicalUrl: string }>>; // for already-stored links
+  getArticlesPublishedSince(since: Date): Promise<Article[]>; // leaves out estimated dates, which are never recent
+  countArticles(): Promise<number>;
+  getArticlesPublishedBefore(before: Date): Promise<Article[]>;
+  // Article ids that retention must keep, by the reason they are referenced
+  getReferencedArticleIds(): Promise<{ saved: string[]; liked: string[]; feedback: string[]; podcast: string[] }>;
+  deleteArticles(ids: string[], archive: boolean): Promise<number>;
   getCuratedArticles(): Promise<Article[]>;
   getTopFiveArticles(): Promise<Article[]>;
   updateArticle(
@@ -76,6 +108,24 @@ export interface IStorage {
     articleIds: string[]
   ): Promise<Map<string, { thumbsUp: number; thumbsDown: number }>>;
 
+  // News Sources
+  getNewsSources(): Promise<NewsSource[]>;
+  getNewsSource(id: string): Promise<NewsSource | undefined>;
+  getNewsSourceByUrl(url: string, ownerId: string | null): Promise<NewsSource | undefined>; // null: the global source
+  createNewsSource(source: InsertNewsSource): Promise<NewsSource>;
+  seedNewsSources(sources: InsertNewsSource[]): Promise<void>;
+  updateNewsSource(
+    id: string,
+    updates: Partial<NewsSource>
+  ): Promise<NewsSource | undefined>;
+  deleteNewsSource(id: string): Promise<boolean>;
+  getSourceSubscriptions(userId: string): Promise<UserSourceSubscription[]>;
+  setSourceSubscription(
+    userId: string,
+    sourceId: string,
+    subscribed: boolean
+  ): Promise<UserSourceSubscription>;
+
   // Keywords
   createKeyword(keyword: InsertKeyword): Promise<Keyword>;
   getKeywords(userId?: string): Promise<Keyword[]>;
@@ -95,6 +145,8 @@ export interface IStorage {
     preferences: Partial<UserPreferences>,
     userId?: string
   ): Promise<UserPreferences>;
+  // Every user's followed topics, one entry per follow
+  getFollowedTopics(): Promise<Array<{ userId: string; topicId: string }>>;
 
   // Podcasts
   createPodcast(podcast: InsertPodcast): Promise<Podcast>;
@@ -105,6 +157,57 @@ export interface IStorage {
     id: string,
     updates: Partial<Podcast>
   ): Promise<Podcast | undefined>;
+
+  // Jobs
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: string, updates: Partial<JobRun>): Promise<JobRun | undefined>;
+  getJobRuns(limit: number, jobName?: string): Promise<JobRun[]>;
+  getLastJobRun(jobName: string, status?: JobRunStatus): Promise<JobRun | undefined>;
+  acquireJobLock(jobName: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseJobLock(jobName: string, owner: string): Promise<void>;
+
+  // Ingestion Reports
+  createIngestionReport(report: InsertIngestionReport): Promise<IngestionReport>;
+  getIngestionReports(limit: number): Promise<IngestionReport[]>;
+  getIngestionReport(id: string): Promise<IngestionReport | undefined>;
+
+  // Upstream API usage, counted per UTC day
+  getApiUsage(provider: string, day: string): Promise<number>;
+  addApiUsage(provider: string, day: string, requests: number): Promise<void>;
+
+  // AI analysis cache; saving merges into an existing entry, keeping parts the new one lacks
+  getAiAnalyses(keys: string[]): Promise<AiAnalysis[]>;
+  saveAiAnalyses(analyses: InsertAiAnalysis[]): Promise<void>;
+
+  // AI usage ledger
+  recordAiUsage(entries: InsertAiUsage[]): Promise<void>;
+  getAiUsageTotals(since: Date): Promise<AiUsageTotals[]>;
+
+  // Article entities
+  replaceArticleEntities(articleId: string, entities: Omit<InsertArticleEntity, "articleId">[]): Promise<void>;
+  getArticleEntities(articleIds: string[]): Promise<ArticleEntity[]>;
+  // Entities by the number of articles published since the given time that mention them; estimated dates don't count
+  getTrendingEntities(since: Date, limit: number, type?: EntityType): Promise<TrendingEntity[]>;
+
+  // Entity follows and mutes
+  getEntityPreferences(userId: string): Promise<UserEntityPreference[]>;
+  // Every user's entity follows (mutes left out)
+  getEntityFollows(): Promise<UserEntityPreference[]>;
+  // Replaces the user's follow or mute for the same entity
+  setEntityPreference(
+    userId: string,
+    preference: InsertUserEntityPreference & { key: string }
+  ): Promise<UserEntityPreference>;
+  deleteEntityPreference(id: string, userId: string): Promise<boolean>;
+
+  // Stories
+  createStory(story: InsertStory): Promise<Story>;
+  updateStory(id: string, story: Partial<InsertStory>): Promise<void>;
+  setArticleStory(articleIds: string[], storyId: string): Promise<void>;
+  getStory(id: string): Promise<Story | undefined>;
+  getStories(ids: string[]): Promise<Story[]>;
+  getStoryArticles(storyIds: string[]): Promise<Article[]>;
+  deleteEmptyStories(): Promise<number>; // stories whose articles were all pruned
 }
 
 export class MemStorage implements IStorage {
@@ -113,6 +216,8 @@ export class MemStorage implements IStorage {
   private replacementPatterns: Map<string, ReplacementPattern>;
   private podcasts: Map<string, Podcast>;
   private users: Map<string, User>;
+  private newsSources: Map<string, NewsSource>;
+  private sourceSubscriptions: Map<string, Map<string, UserSourceSubscription>>; // Map of userId -> Map of sourceId -> subscription
   private userPreferences: UserPreferences | undefined;
   private userLikes: Map<string, Set<string>>; // Map of userId -> Set of articleIds
   private userSavedArticles: Map<string, Set<string>>; // Map of userId -> Set of articleIds
@@ -120,6 +225,15 @@ export class MemStorage implements IStorage {
     string,
     Map<string, { feedback: "thumbs_up" | "thumbs_down"; createdAt: Date }>
   >; // Map of userId -> Map of articleId -> feedback
+  private jobRuns: Map<string, JobRun>;
+  private jobLocks: Map<string, { lockedBy: string; lockedUntil: Date }>;
+  private ingestionReports: Map<string, IngestionReport>;
+  private apiUsage: Map<string, number>; // "provider:day" -> requests
+  private aiAnalyses: Map<string, AiAnalysis>;
+  private aiUsage: AiUsage[];
+  private articleEntities: Map<string, ArticleEntity[]>; // articleId -> entities
+  private entityPreferences: Map<string, UserEntityPreference>;
+  private stories: Map<string, Story>;
 
   constructor() {
     this.articles = new Map();
@@ -127,14 +241,28 @@ export class MemStorage implements IStorage {
     this.replacementPatterns = new Map();
     this.podcasts = new Map();
     this.users = new Map();
+    this.newsSources = new Map();
+    this.sourceSubscriptions = new Map();
     this.userLikes = new Map();
     this.userSavedArticles = new Map();
     this.userFeedback = new Map();
+    this.jobRuns = new Map();
+    this.jobLocks = new Map();
+    this.ingestionReports = new Map();
+    this.apiUsage = new Map();
+    this.aiAnalyses = new Map();
+    this.aiUsage = [];
+    this.articleEntities = new Map();
+    this.entityPreferences = new Map();
+    this.stories = new Map();
     this.userPreferences = {
       id: randomUUID(),
       userId: null as any, // MemStorage-only default; real DB version should be per-user
       sentimentThreshold: 0.7,
       realTimeFiltering: true,
+      languages: ["en"],
+      anxietyThresholds: {},
+      followedTopics: [],
     };
 
     // Initialize with some default keywords
@@ -161,30 +289,97 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async createArticle(insertArticle: InsertArticle): Promise<Article> {
+  async upsertArticle(insertArticle: InsertArticle): Promise<{ article: Article; status: ArticleUpsertStatus }> {
+    const canonicalUrl = normalizeUrl(insertArticle.canonicalUrl);
+    const existing = Array.from(this.articles.values()).find((article) => article.canonicalUrl === canonicalUrl);
+    if (existing) {
+      const changes = diffArticle(existing, insertArticle);
+      if (!changes) return { article: existing, status: "unchanged" };
+
+      const updatedArticle = { ...existing, ...changes };
+      this.articles.set(existing.id, updatedArticle);
+      return { article: updatedArticle, status: "updated" };
+    }
+
     const id = randomUUID();
     const article: Article = {
       ...insertArticle,
+      canonicalUrl,
       content: insertArticle.content || null,
+      author: insertArticle.author ?? null,
+      sourceId: insertArticle.sourceId ?? null,
+      sourceQuery: insertArticle.sourceQuery ?? null,
+      sentimentSource: insertArticle.sentimentSource ?? null,
+      anxietyProfile: insertArticle.anxietyProfile ?? null,
+      language: insertArticle.language ?? null,
+      publishedAtEstimated: insertArticle.publishedAtEstimated ?? false,
+      contentHash: hashContent(insertArticle.content),
+      revision: 0,
+      updatedAt: null,
       keywords: (insertArticle.keywords as string[]) || [],
+      primaryTopic: insertArticle.primaryTopic ?? null,
+      secondaryTopics: (insertArticle.secondaryTopics as string[]) || [],
+      storyId: null,
       id,
       views: 0,
       likes: 0,
     };
     this.articles.set(id, article);
-    return article;
+    return { article, status: "created" };
   }
 
   async getArticles(): Promise<Article[]> {
     return Array.from(this.articles.values()).sort(
-      (a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+      (a, b) => b.publishedAt.getTime() - a.publishedAt.getTime()
     );
   }
 
+  async getCanonicalUrls(urls: string[]): Promise<Array<{ url: string; canonicalUrl: string }>> {
+    const wanted = new Set(urls);
+    return Array.from(this.articles.values())
+      .filter((article) => wanted.has(article.url))
+      .map(({ url, canonicalUrl }) => ({ url, canonicalUrl }));
+  }
+
+  async getArticlesPublishedSince(since: Date): Promise<Article[]> {
+    return (await this.getArticles()).filter((article) => !article.publishedAtEstimated && article.publishedAt >= since);
+  }
+
+  async countArticles(): Promise<number> {
+    return this.articles.size;
+  }
+
+  async getArticlesPublishedBefore(before: Date): Promise<Article[]> {
+    return Array.from(this.articles.values()).filter((article) => article.publishedAt < before);
+  }
+
+  async getReferencedArticleIds(): Promise<{ saved: string[]; liked: string[]; feedback: string[]; podcast: string[] }> {
+    const collect = (sets: Iterable<Iterable<string>>) => {
+      const ids = new Set<string>();
+      for (const set of Array.from(sets)) {
+        Array.from(set).forEach((id) => ids.add(id));
+      }
+      return Array.from(ids);
+    };
+
+    return {
+      saved: collect(this.userSavedArticles.values()),
+      liked: collect(this.userLikes.values()),
+      feedback: collect(Array.from(this.userFeedback.values()).map((feedback) => feedback.keys())),
+      podcast: collect(Array.from(this.podcasts.values()).map((podcast) => podcast.articleIds ?? [])),
+    };
+  }
+
+  // MemStorage has nowhere to archive to, so archive is the same as delete
+  async deleteArticles(ids: string[], _archive: boolean): Promise<number> {
+    ids.forEach((id) => this.articleEntities.delete(id));
+    return ids.filter((id) => this.articles.delete(id)).length;
+  }
+
   async getCuratedArticles(): Promise<Article[]> {
     return Array.from(this.articles.values())
       .filter((article) => article.isCurated)
-      .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime())
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime())
       .slice(0, 30); // Limit to 30 curated articles maximum
   }
 
@@ -333,7 +528,7 @@ export class MemStorage implements IStorage {
     }
 
     return savedArticles.sort(
-      (a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+      (a, b) => b.publishedAt.getTime() - a.publishedAt.getTime()
     );
   }
 
@@ -408,6 +603,98 @@ export class MemStorage implements IStorage {
     return summary;
   }
 
+  async getNewsSources(): Promise<NewsSource[]> {
+    return Array.from(this.newsSources.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getNewsSource(id: string): Promise<NewsSource | undefined> {
+    return this.newsSources.get(id);
+  }
+
+  async getNewsSourceByUrl(url: string, ownerId: string | null): Promise<NewsSource | undefined> {
+    return Array.from(this.newsSources.values()).find((source) => source.url === url && source.ownerId === ownerId);
+  }
+
+  async createNewsSource(insertSource: InsertNewsSource): Promise<NewsSource> {
+    const id = randomUUID();
+    const source: NewsSource = {
+      ...insertSource,
+      id,
+      type: insertSource.type ?? "rss",
+      enabled: insertSource.enabled ?? true,
+      fullTextEnabled: insertSource.fullTextEnabled ?? true,
+      ownerId: insertSource.ownerId ?? null,
+      createdAt: new Date(),
+      lastSuccessAt: null,
+      lastErrorAt: null,
+      lastError: null,
+      consecutiveFailures: 0,
+      successCount: 0,
+      avgItemCount: null,
+      avgLatencyMs: null,
+      autoDisabledAt: null,
+      etag: null,
+      lastModified: null,
+      websubHub: null,
+      websubTopic: null,
+      websubRequestedAt: null,
+      websubExpiresAt: null,
+    };
+    this.newsSources.set(id, source);
+    return source;
+  }
+
+  async seedNewsSources(sources: InsertNewsSource[]): Promise<void> {
+    for (const source of sources) {
+      if (!(await this.getNewsSourceByUrl(source.url, source.ownerId ?? null))) {
+        await this.createNewsSource(source);
+      }
+    }
+  }
+
+  async updateNewsSource(id: string, updates: Partial<NewsSource>): Promise<NewsSource | undefined> {
+    const source = this.newsSources.get(id);
+    if (!source) return undefined;
+
+    const updatedSource = { ...source, ...updates };
+    this.newsSources.set(id, updatedSource);
+    return updatedSource;
+  }
+
+  async deleteNewsSource(id: string): Promise<boolean> {
+    for (const subscriptions of Array.from(this.sourceSubscriptions.values())) {
+      subscriptions.delete(id);
+    }
+    return this.newsSources.delete(id);
+  }
+
+  async getSourceSubscriptions(userId: string): Promise<UserSourceSubscription[]> {
+    const subscriptions = this.sourceSubscriptions.get(userId);
+    return subscriptions ? Array.from(subscriptions.values()) : [];
+  }
+
+  async setSourceSubscription(
+    userId: string,
+    sourceId: string,
+    subscribed: boolean
+  ): Promise<UserSourceSubscription> {
+    let subscriptions = this.sourceSubscriptions.get(userId);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      this.sourceSubscriptions.set(userId, subscriptions);
+    }
+
+    const subscription: UserSourceSubscription = {
+      id: subscriptions.get(sourceId)?.id ?? randomUUID(),
+      userId,
+      sourceId,
+      subscribed,
+      updatedAt: new Date(),
+    };
+    subscriptions.set(sourceId, subscription);
+    return subscription;
+  }
+
   async createKeyword(insertKeyword: InsertKeyword): Promise<Keyword> {
     const id = randomUUID();
     const keyword: Keyword = { ...insertKeyword, id } as any;
@@ -461,6 +748,12 @@ export class MemStorage implements IStorage {
     return this.userPreferences!;
   }
 
+  async getFollowedTopics(): Promise<Array<{ userId: string; topicId: string }>> {
+    const preferences = this.userPreferences;
+    if (!preferences) return [];
+    return preferences.followedTopics.map((topicId) => ({ userId: preferences.userId ?? "default", topicId }));
+  }
+
   async createPodcast(insertPodcast: InsertPodcast): Promise<Podcast> {
     const id = randomUUID();
     const podcast: Podcast = {
@@ -475,7 +768,7 @@ export class MemStorage implements IStorage {
 
   async getPodcasts(): Promise<Podcast[]> {
     return Array.from(this.podcasts.values())
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
       .slice(0, 3);
   }
 
@@ -484,7 +777,7 @@ export class MemStorage implements IStorage {
   }
 
   async getPodcastByDate(date: string): Promise<Podcast | undefined> {
-    return Array.from(this.podcasts.values()).find((podcast) => podcast.createdAt.startsWith(date));
+    return Array.from(this.podcasts.values()).find((podcast) => podcast.createdAt.toISOString().startsWith(date));
   }
 
   async updatePodcast(id: string, updates: Partial<Podcast>): Promise<Podcast | undefined> {
@@ -496,6 +789,270 @@ export class MemStorage implements IStorage {
     return updatedPodcast;
   }
 
+  async createJobRun(insertRun: InsertJobRun): Promise<JobRun> {
+    const id = randomUUID();
+    const run: JobRun = {
+      ...insertRun,
+      id,
+      startedAt: new Date(),
+      finishedAt: null,
+      durationMs: null,
+      error: null,
+    };
+    this.jobRuns.set(id, run);
+    return run;
+  }
+
+  async updateJobRun(id: string, updates: Partial<JobRun>): Promise<JobRun | undefined> {
+    const run = this.jobRuns.get(id);
+    if (!run) return undefined;
+
+    const updatedRun = { ...run, ...updates };
+    this.jobRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  async getJobRuns(limit: number, jobName?: string): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter((run) => !jobName || run.jobName === jobName)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getLastJobRun(jobName: string, status?: JobRunStatus): Promise<JobRun | undefined> {
+    const runs = await this.getJobRuns(this.jobRuns.size, jobName);
+    return runs.find((run) => !status || run.status === status);
+  }
+
+  async acquireJobLock(jobName: string, owner: string, ttlMs: number): Promise<boolean> {
+    const lock = this.jobLocks.get(jobName);
+    if (lock && lock.lockedUntil.getTime() > Date.now()) return false;
+
+    this.jobLocks.set(jobName, { lockedBy: owner, lockedUntil: new Date(Date.now() + ttlMs) });
+    return true;
+  }
+
+  async releaseJobLock(jobName: string, owner: string): Promise<void> {
+    if (this.jobLocks.get(jobName)?.lockedBy === owner) {
+      this.jobLocks.delete(jobName);
+    }
+  }
+
+  async createIngestionReport(insertReport: InsertIngestionReport): Promise<IngestionReport> {
+    const id = randomUUID();
+    const report: IngestionReport = {
+      id,
+      jobRunId: insertReport.jobRunId ?? null,
+      kind: insertReport.kind,
+      createdAt: new Date(),
+      ingestion: insertReport.ingestion ?? null,
+      sources: insertReport.sources ?? [],
+      curation: insertReport.curation ?? null,
+      retention: insertReport.retention ?? null,
+    };
+    this.ingestionReports.set(id, report);
+    return report;
+  }
+
+  async getIngestionReports(limit: number): Promise<IngestionReport[]> {
+    return Array.from(this.ingestionReports.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getIngestionReport(id: string): Promise<IngestionReport | undefined> {
+    return this.ingestionReports.get(id);
+  }
+
+  async getApiUsage(provider: string, day: string): Promise<number> {
+    return this.apiUsage.get(`${provider}:${day}`) ?? 0;
+  }
+
+  async addApiUsage(provider: string, day: string, requests: number): Promise<void> {
+    const key = `${provider}:${day}`;
+    this.apiUsage.set(key, (this.apiUsage.get(key) ?? 0) + requests);
+  }
+
+  async getAiAnalyses(keys: string[]): Promise<AiAnalysis[]> {
+    return keys.map((key) => this.aiAnalyses.get(key)).filter((analysis): analysis is AiAnalysis => !!analysis);
+  }
+
+  async saveAiAnalyses(analyses: InsertAiAnalysis[]): Promise<void> {
+    const now = new Date();
+    for (const analysis of analyses) {
+      const existing = this.aiAnalyses.get(analysis.key);
+      this.aiAnalyses.set(analysis.key, {
+        key: analysis.key,
+        promptVersion: analysis.promptVersion,
+        provider: analysis.provider,
+        sentiment: analysis.sentiment ?? existing?.sentiment ?? null,
+        sentimentConfidence: analysis.sentimentConfidence ?? existing?.sentimentConfidence ?? null,
+        anxietyProfile: analysis.anxietyProfile ?? existing?.anxietyProfile ?? null,
+        keywords: analysis.keywords ?? existing?.keywords ?? null,
+        topics: analysis.topics ?? existing?.topics ?? null,
+        entities: analysis.entities ?? existing?.entities ?? null,
+        summary: analysis.summary ?? existing?.summary ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  async recordAiUsage(entries: InsertAiUsage[]): Promise<void> {
+    for (const entry of entries) {
+      this.aiUsage.push({
+        ...entry,
+        id: randomUUID(),
+        promptTokens: entry.promptTokens ?? 0,
+        completionTokens: entry.completionTokens ?? 0,
+        characters: entry.characters ?? 0,
+        costUsd: entry.costUsd ?? 0,
+        createdAt: entry.createdAt ?? new Date(),
+      });
+    }
+  }
+
+  async getAiUsageTotals(since: Date): Promise<AiUsageTotals[]> {
+    const totals = new Map<string, AiUsageTotals>();
+    for (const entry of this.aiUsage.filter((usage) => usage.createdAt >= since)) {
+      const total = totals.get(entry.capability) ?? {
+        capability: entry.capability,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        characters: 0,
+        costUsd: 0,
+      };
+      total.requests++;
+      total.promptTokens += entry.promptTokens;
+      total.completionTokens += entry.completionTokens;
+      total.characters += entry.characters;
+      total.costUsd += entry.costUsd;
+      totals.set(entry.capability, total);
+    }
+    return Array.from(totals.values());
+  }
+
+  async replaceArticleEntities(articleId: string, entities: Omit<InsertArticleEntity, "articleId">[]): Promise<void> {
+    this.articleEntities.set(
+      articleId,
+      entities.map((entity) => ({ ...entity, id: randomUUID(), articleId }))
+    );
+  }
+
+  async getArticleEntities(articleIds: string[]): Promise<ArticleEntity[]> {
+    return articleIds.flatMap((id) => this.articleEntities.get(id) ?? []);
+  }
+
+  async getTrendingEntities(since: Date, limit: number, type?: EntityType): Promise<TrendingEntity[]> {
+    const trending = new Map<string, TrendingEntity & { sources: Set<string> }>();
+    for (const [articleId, entities] of Array.from(this.articleEntities.entries())) {
+      const article = this.articles.get(articleId);
+      if (!article || article.publishedAtEstimated || article.publishedAt < since) continue;
+
+      for (const entity of entities.filter((entity) => !type || entity.type === type)) {
+        const id = `${entity.type}:${entity.key}`;
+        const entry = trending.get(id) ?? {
+          type: entity.type,
+          key: entity.key,
+          name: entity.name,
+          articleCount: 0,
+          sourceCount: 0,
+          latestAt: article.publishedAt,
+          sources: new Set<string>(),
+        };
+        entry.articleCount++;
+        entry.sources.add(article.source);
+        entry.sourceCount = entry.sources.size;
+        if (article.publishedAt >= entry.latestAt) {
+          entry.latestAt = article.publishedAt;
+          entry.name = entity.name;
+        }
+        trending.set(id, entry);
+      }
+    }
+
+    return Array.from(trending.values())
+      .sort((a, b) => b.articleCount - a.articleCount || b.latestAt.getTime() - a.latestAt.getTime())
+      .slice(0, limit)
+      .map(({ sources: _sources, ...entity }) => entity);
+  }
+
+  async getEntityPreferences(userId: string): Promise<UserEntityPreference[]> {
+    return Array.from(this.entityPreferences.values()).filter((preference) => preference.userId === userId);
+  }
+
+  async getEntityFollows(): Promise<UserEntityPreference[]> {
+    return Array.from(this.entityPreferences.values()).filter((preference) => preference.action === "follow");
+  }
+
+  async setEntityPreference(
+    userId: string,
+    preference: InsertUserEntityPreference & { key: string }
+  ): Promise<UserEntityPreference> {
+    const existing = Array.from(this.entityPreferences.values()).find(
+      (entry) => entry.userId === userId && entry.type === preference.type && entry.key === preference.key
+    );
+    const saved: UserEntityPreference = {
+      ...preference,
+      id: existing?.id ?? randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.entityPreferences.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteEntityPreference(id: string, userId: string): Promise<boolean> {
+    const preference = this.entityPreferences.get(id);
+    if (!preference || preference.userId !== userId) return false;
+    return this.entityPreferences.delete(id);
+  }
+
+  async createStory(insertStory: InsertStory): Promise<Story> {
+    const story: Story = {
+      ...insertStory,
+      id: randomUUID(),
+      representativeArticleId: insertStory.representativeArticleId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.stories.set(story.id, story);
+    return story;
+  }
+
+  async updateStory(id: string, story: Partial<InsertStory>): Promise<void> {
+    const existing = this.stories.get(id);
+    if (existing) this.stories.set(id, { ...existing, ...story, id, updatedAt: new Date() });
+  }
+
+  async setArticleStory(articleIds: string[], storyId: string): Promise<void> {
+    for (const id of articleIds) {
+      const article = this.articles.get(id);
+      if (article) this.articles.set(id, { ...article, storyId });
+    }
+  }
+
+  async getStory(id: string): Promise<Story | undefined> {
+    return this.stories.get(id);
+  }
+
+  async getStories(ids: string[]): Promise<Story[]> {
+    return ids.flatMap((id) => this.stories.get(id) ?? []);
+  }
+
+  async getStoryArticles(storyIds: string[]): Promise<Article[]> {
+    const wanted = new Set(storyIds);
+    return Array.from(this.articles.values()).filter((article) => article.storyId && wanted.has(article.storyId));
+  }
+
+  async deleteEmptyStories(): Promise<number> {
+    const withArticles = new Set(Array.from(this.articles.values()).map((article) => article.storyId));
+    const empty = Array.from(this.stories.keys()).filter((id) => !withArticles.has(id));
+    empty.forEach((id) => this.stories.delete(id));
+    return empty.length;
+  }
+
   // User operations (mandatory for Replit Auth)
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
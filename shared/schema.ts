@@ -10,9 +10,11 @@ import {
   timestamp,
   index,
   unique,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isTopicId, type TopicAssignment } from "./topics";
 
 export const articles = pgTable("articles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -20,17 +22,63 @@ export const articles = pgTable("articles", {
   summary: text("summary").notNull(),
   content: text("content"),
   source: text("source").notNull(),
-  url: text("url").notNull().unique(), // Unique constraint to prevent duplicate articles
+  author: text("author"),
+  url: text("url").notNull(), // link as the provider gave it
+  canonicalUrl: text("canonical_url").notNull().unique(), // after redirects, rel=canonical and normalization; prevents duplicate articles
   imageUrl: text("image_url"),
   category: text("category").notNull(),
   readTime: integer("read_time").notNull(), // in minutes
   views: integer("views").default(0),
   likes: integer("likes").default(0),
   sentiment: real("sentiment").notNull(), // 0-1 score
+  sentimentSource: varchar("sentiment_source").$type<SentimentSource>(), // null for articles scored before sources were recorded
+  anxietyProfile: jsonb("anxiety_profile").$type<AnxietyProfile>(), // scored with sentiment; null for articles scored before profiles
   keywords: jsonb("keywords").$type<string[]>().default([]),
+  primaryTopic: varchar("primary_topic"), // id from TOPIC_TAXONOMY (shared/topics.ts); null for articles classified before topics
+  secondaryTopics: jsonb("secondary_topics").$type<string[]>().notNull().default([]),
   isCurated: boolean("is_curated").default(false),
   isTopFive: boolean("is_top_five").default(false),
-  publishedAt: text("published_at").notNull(),
+  publishedAt: timestamp("published_at", { withTimezone: true }).notNull(),
+  publishedAtEstimated: boolean("published_at_estimated").notNull().default(false), // feed date missing or unparseable; publishedAt is first-seen time (epoch for migrated rows) and never counts as recent
+  // Revision tracking: bumped when the URL re-appears with a changed title, summary, content or image
+  contentHash: varchar("content_hash"),
+  revision: integer("revision").notNull().default(0),
+  updatedAt: timestamp("updated_at", { withTimezone: true }),
+  sourceId: varchar("source_id").references(() => newsSources.id, { onDelete: "set null" }), // null for NewsAPI articles
+  sourceQuery: text("source_query"), // NewsAPI query that returned the article; null for polled sources
+  language: varchar("language", { length: 8 }), // ISO 639-1 code detected at ingest; null when undetermined
+  storyId: varchar("story_id").references(() => stories.id, { onDelete: "set null" }), // null until another source covers the same event
+}, (table) => [
+  index("idx_articles_published_at").on(table.publishedAt),
+  index("idx_articles_url").on(table.url),
+  index("idx_articles_story_id").on(table.storyId),
+]);
+
+// Coverage of one event across sources. Articles join a story by story_id; the
+// headline and counts are recomputed from the members whenever one is added
+export const stories = pgTable("stories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  headline: text("headline").notNull(), // the representative article's title
+  representativeArticleId: varchar("representative_article_id"), // the best-quality member; null once it's pruned
+  articleCount: integer("article_count").notNull(),
+  sourceCount: integer("source_count").notNull(),
+  firstPublishedAt: timestamp("first_published_at", { withTimezone: true }).notNull(),
+  lastPublishedAt: timestamp("last_published_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("idx_stories_last_published_at").on(table.lastPublishedAt),
+]);
+
+// Articles removed by the retention job when ARTICLE_RETENTION_MODE=archive
+export const archivedArticles = pgTable("archived_articles", {
+  id: varchar("id").primaryKey(), // id the article had in articles
+  url: text("url").notNull(),
+  title: text("title").notNull(),
+  source: text("source").notNull(),
+  publishedAt: timestamp("published_at", { withTimezone: true }).notNull(),
+  archivedAt: timestamp("archived_at", { withTimezone: true }).defaultNow().notNull(),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(), // full row as it was when archived
 });
 
 // User storage table for Replit Auth
@@ -65,6 +113,92 @@ export const keywords = pgTable(
   ],
 );
 
+// Who scored an article's sentiment: the configured AI provider or the offline lexicon
+export const SENTIMENT_SOURCES = ["ai", "lexicon"] as const;
+
+/**
+ * Kinds of anxiety an article can provoke, each scored 0-1 (1 is most) next
+ * to the overall sentiment: an upbeat piece about layoffs still scores high
+ * on financial, a flat report of a shooting high on violence.
+ */
+export const ANXIETY_DIMENSIONS = ["fear", "outrage", "violence", "health", "financial", "doom"] as const;
+
+// Named entities extracted at ingest, and what a user can do with one
+export const ENTITY_TYPES = ["person", "organization", "place", "product"] as const;
+export const ENTITY_ACTIONS = ["follow", "mute"] as const;
+
+// Languages the ingest detector can recognize (ISO 639-1)
+export const ARTICLE_LANGUAGES = ["en", "fr", "de", "es", "it", "pt", "nl", "ru", "ar", "zh", "ja", "ko"] as const;
+
+// Source kinds, one per SourceAdapter that polls news_sources rows
+export const NEWS_SOURCE_TYPES = ["rss", "hackernews", "reddit"] as const;
+
+/**
+ * Sources polled by the ingestion pipeline: RSS/Atom/JSON feeds, Hacker
+ * News lists and subreddit listings, told apart by type.
+ * ownerId = null marks a global source shared by every user; otherwise the
+ * source is private to its owner.
+ */
+export const newsSources = pgTable(
+  "news_sources",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    url: text("url").notNull(), // unique per owner; see unique_owner_source_url
+    name: text("name").notNull(),
+    category: text("category").notNull(),
+    type: varchar("type").$type<NewsSourceType>().notNull().default("rss"), // which SourceAdapter polls it
+    enabled: boolean("enabled").default(true),
+    fullTextEnabled: boolean("full_text_enabled").default(true), // opt out of fetching article pages
+    ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    // Fetch health, maintained by feedHealthService after every poll
+    lastSuccessAt: timestamp("last_success_at"),
+    lastErrorAt: timestamp("last_error_at"),
+    lastError: text("last_error"),
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+    successCount: integer("success_count").notNull().default(0),
+    avgItemCount: real("avg_item_count"),
+    avgLatencyMs: real("avg_latency_ms"),
+    autoDisabledAt: timestamp("auto_disabled_at"), // set when consecutive failures disabled the source
+    // HTTP cache validators from the last 200 response, sent back as If-None-Match / If-Modified-Since
+    etag: text("etag"),
+    lastModified: text("last_modified"),
+    // WebSub push subscription, maintained by websubService when the feed advertises a hub
+    websubHub: text("websub_hub"),
+    websubTopic: text("websub_topic"),
+    websubRequestedAt: timestamp("websub_requested_at"),
+    websubExpiresAt: timestamp("websub_expires_at"), // lease end once the hub verified; null while pending
+  },
+  (table) => [
+    index("idx_news_sources_owner_id").on(table.ownerId),
+    // One global source per URL, and one per user; two users may each add a feed privately
+    unique("unique_owner_source_url").on(table.ownerId, table.url).nullsNotDistinct(),
+  ],
+);
+
+/**
+ * Per-user subscription overrides. Global sources are subscribed by default,
+ * so a row with subscribed = false is how a user opts out of one.
+ */
+export const userSourceSubscriptions = pgTable(
+  "user_source_subscriptions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    sourceId: varchar("source_id")
+      .notNull()
+      .references(() => newsSources.id, { onDelete: "cascade" }),
+    subscribed: boolean("subscribed").notNull().default(true),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique("unique_user_source_subscription").on(table.userId, table.sourceId),
+    index("idx_source_subscriptions_user_id").on(table.userId),
+  ],
+);
+
 export const replacementPatterns = pgTable("replacement_patterns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   findText: text("find_text").notNull(),
@@ -86,9 +220,12 @@ export const sessions = pgTable(
 
 export const userPreferences = pgTable("user_preferences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").references(() => users.id),
+  userId: varchar("user_id").references(() => users.id).unique(), // one row per user; updateUserPreferences upserts on it
   sentimentThreshold: real("sentiment_threshold").default(0.7),
   realTimeFiltering: boolean("real_time_filtering").default(true),
+  languages: jsonb("languages").$type<ArticleLanguage[]>().notNull().default(["en"]), // articles in other languages are filtered out
+  anxietyThresholds: jsonb("anxiety_thresholds").$type<AnxietyThresholds>().notNull().default({}), // articles scoring above a dimension's limit are filtered out
+  followedTopics: jsonb("followed_topics").$type<string[]>().notNull().default([]), // taxonomy ids; NewsAPI searches for them
 });
 
 export const userArticleLikes = pgTable("user_article_likes", {
@@ -122,12 +259,59 @@ export const articleFeedback = pgTable(
   ],
 );
 
-export const insertArticleSchema = createInsertSchema(articles).omit({
+// People, organizations, places and products an article mentions, replaced whenever the article is re-analyzed
+export const articleEntities = pgTable(
+  "article_entities",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    articleId: varchar("article_id").notNull().references(() => articles.id, { onDelete: "cascade" }),
+    type: varchar("type").$type<EntityType>().notNull(),
+    name: text("name").notNull(), // as the article (or the model) spelled it
+    key: varchar("key").notNull(), // normalized name; one entity across spellings and articles
+  },
+  (table) => [
+    unique("unique_article_entity").on(table.articleId, table.type, table.key),
+    index("idx_article_entities_type_key").on(table.type, table.key),
+  ],
+);
+
+// Entities a user follows (boosted in their feed) or mutes (filtered out)
+export const userEntityPreferences = pgTable(
+  "user_entity_preferences",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: varchar("type").$type<EntityType>().notNull(),
+    key: varchar("key").notNull(),
+    name: text("name").notNull(),
+    action: varchar("action").$type<EntityAction>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique("unique_user_entity").on(table.userId, table.type, table.key)],
+);
+
+export const anxietyProfileSchema = z.object(
+  Object.fromEntries(ANXIETY_DIMENSIONS.map((dimension) => [dimension, z.number().min(0).max(1)])) as Record<
+    AnxietyDimension,
+    z.ZodNumber
+  >
+);
+
+export const insertArticleSchema = createInsertSchema(articles, {
+  sentimentSource: z.enum(SENTIMENT_SOURCES).nullable().optional(),
+  anxietyProfile: anxietyProfileSchema.nullable().optional(),
+}).omit({
   id: true,
   views: true,
   likes: true,
+  contentHash: true,
+  revision: true,
+  updatedAt: true,
+  storyId: true, // assigned by story clustering after the article is stored
 });
 
+export type ArticleUpsertStatus = "created" | "updated" | "unchanged";
+
 export const insertKeywordSchema = createInsertSchema(keywords).omit({
   id: true,
   userId: true,
@@ -137,19 +321,115 @@ export const insertReplacementPatternSchema = createInsertSchema(replacementPatt
   id: true,
 });
 
-export const insertUserPreferencesSchema = createInsertSchema(userPreferences).omit({
+export const insertNewsSourceSchema = createInsertSchema(newsSources)
+  .omit({
+    id: true,
+    ownerId: true,
+    createdAt: true,
+    lastSuccessAt: true,
+    lastErrorAt: true,
+    lastError: true,
+    consecutiveFailures: true,
+    successCount: true,
+    avgItemCount: true,
+    avgLatencyMs: true,
+    autoDisabledAt: true,
+    etag: true,
+    lastModified: true,
+    websubHub: true,
+    websubTopic: true,
+    websubRequestedAt: true,
+    websubExpiresAt: true,
+  })
+  .extend({
+    url: z.string().url(),
+    name: z.string().trim().min(1),
+    category: z.string().trim().min(1),
+    type: z.enum(NEWS_SOURCE_TYPES).optional(), // detected from the URL when omitted
+  });
+
+export const updateNewsSourceSchema = insertNewsSourceSchema
+  .pick({ name: true, category: true, enabled: true, fullTextEnabled: true })
+  .partial();
+
+export const insertUserPreferencesSchema = createInsertSchema(userPreferences, {
+  languages: z.array(z.enum(ARTICLE_LANGUAGES)).min(1),
+  anxietyThresholds: anxietyProfileSchema.partial(),
+  followedTopics: z.array(z.string().refine(isTopicId, "Unknown topic")),
+}).omit({
   id: true,
 });
 
+export const updateUserPreferencesSchema = insertUserPreferencesSchema
+  .pick({ sentimentThreshold: true, realTimeFiltering: true, languages: true, anxietyThresholds: true, followedTopics: true })
+  .partial();
+
 export type Article = typeof articles.$inferSelect;
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Keyword = typeof keywords.$inferSelect;
 export type InsertKeyword = z.infer<typeof insertKeywordSchema>;
 export type ReplacementPattern = typeof replacementPatterns.$inferSelect;
 export type InsertReplacementPattern = z.infer<typeof insertReplacementPatternSchema>;
+export type NewsSource = typeof newsSources.$inferSelect;
+export type NewsSourceType = (typeof NEWS_SOURCE_TYPES)[number];
+export type ArticleLanguage = (typeof ARTICLE_LANGUAGES)[number];
+export type SentimentSource = (typeof SENTIMENT_SOURCES)[number];
+export type AnxietyDimension = (typeof ANXIETY_DIMENSIONS)[number];
+export type EntityType = (typeof ENTITY_TYPES)[number];
+export type EntityAction = (typeof ENTITY_ACTIONS)[number];
+export type AnxietyProfile = Record<AnxietyDimension, number>;
+export type AnxietyThresholds = Partial<AnxietyProfile>; // a dimension without a limit isn't filtered on
+export type InsertNewsSource = z.infer<typeof insertNewsSourceSchema> & { ownerId?: string | null };
+export type UserSourceSubscription = typeof userSourceSubscriptions.$inferSelect;
 export type UserPreferences = typeof userPreferences.$inferSelect;
 export type InsertUserPreferences = z.infer<typeof insertUserPreferencesSchema>;
 
+// A source as shown to one user, with their subscription state resolved
+export interface NewsSourceWithSubscription extends NewsSource {
+  subscribed: boolean;
+  isOwner: boolean;
+}
+
+export interface OpmlImportIssue {
+  url: string;
+  name: string;
+  reason: string;
+}
+
+export interface OpmlImportResult {
+  created: NewsSource[];
+  subscribed: NewsSource[]; // already known sources the import (re)subscribed the user to
+  duplicates: OpmlImportIssue[];
+  invalid: OpmlImportIssue[]; // malformed URLs and hosts that aren't public
+  skipped: number; // feed outlines past the per-import limit, not looked at
+}
+
+export type FeedHealthStatus = "healthy" | "failing" | "disabled" | "never_fetched";
+
+export interface FeedHealthEntry {
+  id: string;
+  name: string;
+  url: string;
+  category: string;
+  ownerId: string | null;
+  status: FeedHealthStatus;
+  enabled: boolean;
+  lastSuccessAt: Date | null;
+  lastErrorAt: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  avgItemCount: number | null;
+  avgLatencyMs: number | null;
+  autoDisabledAt: Date | null;
+}
+
+export interface FeedHealthReport {
+  generatedAt: string;
+  failureThreshold: number;
+  summary: Record<FeedHealthStatus, number> & { total: number };
+  sources: FeedHealthEntry[];
+}
+
 export interface FilterPreview {
   original: Article[];
   filtered: Article[];
@@ -170,9 +450,11 @@ export const podcasts = pgTable("podcasts", {
   duration: integer("duration").notNull(), // in seconds
   transcript: text("transcript").notNull(),
   articleIds: jsonb("article_ids").$type<string[]>().default([]),
-  createdAt: text("created_at").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
   isProcessing: boolean("is_processing").default(false),
-});
+}, (table) => [
+  index("idx_podcasts_created_at").on(table.createdAt),
+]);
 
 export const insertPodcastSchema = createInsertSchema(podcasts).omit({
   id: true,
@@ -181,6 +463,213 @@ export const insertPodcastSchema = createInsertSchema(podcasts).omit({
 export type Podcast = typeof podcasts.$inferSelect;
 export type InsertPodcast = z.infer<typeof insertPodcastSchema>;
 
+// Background job history, one row per run started by the scheduler or an API trigger
+export const jobRuns = pgTable(
+  "job_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobName: varchar("job_name").notNull(),
+    trigger: varchar("trigger").notNull(), // "schedule" | "manual"
+    status: varchar("status").notNull(), // "running" | "succeeded" | "failed"
+    instanceId: varchar("instance_id").notNull(),
+    startedAt: timestamp("started_at").defaultNow().notNull(),
+    finishedAt: timestamp("finished_at"),
+    durationMs: integer("duration_ms"),
+    error: text("error"),
+  },
+  (table) => [index("idx_job_runs_job_started").on(table.jobName, table.startedAt)],
+);
+
+// Lease-style lock so only one server instance runs a given job at a time
+export const jobLocks = pgTable("job_locks", {
+  jobName: varchar("job_name").primaryKey(),
+  lockedBy: varchar("locked_by").notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+});
+
+// Requests made to rate-limited upstream APIs per UTC day, shared by every instance
+export const apiUsage = pgTable(
+  "api_usage",
+  {
+    provider: varchar("provider").notNull(), // e.g. "newsapi"
+    day: varchar("day").notNull(), // YYYY-MM-DD, UTC
+    requests: integer("requests").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.provider, table.day] })],
+);
+
+// AI analyses of article text, shared by every copy of a story however many outlets carry it
+export const aiAnalysisCache = pgTable("ai_analysis_cache", {
+  key: varchar("key").primaryKey(), // sha256 of the normalized title and summary plus the prompt version
+  promptVersion: varchar("prompt_version").notNull(),
+  provider: varchar("provider").notNull(),
+  // Each part is null until some run requested it from an AI provider
+  sentiment: real("sentiment"),
+  sentimentConfidence: real("sentiment_confidence"),
+  anxietyProfile: jsonb("anxiety_profile").$type<AnxietyProfile>(),
+  keywords: jsonb("keywords").$type<string[]>(),
+  topics: jsonb("topics").$type<TopicAssignment>(),
+  entities: jsonb("entities").$type<Array<{ name: string; type: EntityType }>>(),
+  summary: text("summary"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+/**
+ * Ledger of AI requests for daily budgets and spend reporting. A request
+ * that served several capabilities (batched analysis) is split into one row
+ * per capability, each with an equal share of its tokens and cost.
+ */
+export const aiUsageLedger = pgTable(
+  "ai_usage_ledger",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    capability: varchar("capability").notNull(), // "sentiment" | "summarize" | "keywords" | "curate" | "script" | "tts"
+    provider: varchar("provider").notNull(),
+    model: varchar("model").notNull(),
+    promptTokens: real("prompt_tokens").notNull().default(0),
+    completionTokens: real("completion_tokens").notNull().default(0),
+    characters: real("characters").notNull().default(0), // TTS input, which is billed per character
+    costUsd: real("cost_usd").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_ai_usage_ledger_created_at").on(table.createdAt)],
+);
+
+/**
+ * Stage-by-stage counts for one fetch or curation run, so a thin curated feed
+ * can be traced to the stage that dropped the articles. Retention runs record
+ * what they removed here too, and each WebSub push gets a "push" report.
+ */
+export const ingestionReports = pgTable(
+  "ingestion_reports",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobRunId: varchar("job_run_id").references(() => jobRuns.id, { onDelete: "set null" }),
+    kind: varchar("kind").notNull(), // "fetch" | "curation" | "retention" | "push"
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    ingestion: jsonb("ingestion").$type<IngestionStageCounts>(), // null for curation-only runs
+    sources: jsonb("sources").$type<SourceIngestionStats[]>().default([]),
+    curation: jsonb("curation").$type<CurationStageCounts>(), // null when curation did not complete
+    retention: jsonb("retention").$type<RetentionStats>(), // set only for retention runs
+  },
+  (table) => [index("idx_ingestion_reports_created_at").on(table.createdAt)],
+);
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).omit({
+  id: true,
+  startedAt: true,
+  finishedAt: true,
+  durationMs: true,
+  error: true,
+});
+
+export type JobRunStatus = "running" | "succeeded" | "failed";
+export type JobTrigger = "schedule" | "manual";
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+
+export interface DuplicateCounts {
+  url: number;
+  title: number;
+  similarity: number; // >80% summary word overlap
+}
+
+export interface IngestionStageCounts {
+  fetched: number; // items taken from all feeds (up to 10 per feed)
+  selected: number; // passed the title/description checks and made the 50 most recent
+  processed: number; // had the title, summary and content needed to become an article
+  deduped: number; // left after in-batch URL deduplication
+  duplicates: DuplicateCounts; // dropped in-batch; at ingest only URL matches are dropped
+  grouped: number; // title or similarity matches of another article in the batch, stored to be grouped into stories
+  stored: number; // newly inserted
+  updated: number; // URL was already stored and the title, summary, content or image changed
+  alreadyStored: number; // URL was already stored, unchanged
+  supplementStored: number; // inserted by supplement adapters (NewsAPI), 0 when they did not run
+  adapters: AdapterIngestionStats[];
+}
+
+export interface AdapterIngestionStats {
+  name: string; // SourceAdapter.name
+  role: "primary" | "supplement";
+  status: "ok" | "failed" | "skipped"; // skipped: a supplement the primaries made unnecessary
+  error: string | null;
+  fetched: number;
+  selected: number;
+  stored: number;
+}
+
+export interface SourceIngestionStats {
+  sourceId: string;
+  name: string;
+  status: "ok" | "not_modified" | "failed";
+  error: string | null;
+  itemCount: number; // entries in the feed document
+  selected: number;
+  stored: number;
+}
+
+export interface CurationStageCounts {
+  total: number;
+  dateFiltered: number; // left after the 3-day window
+  keywordFiltered: number;
+  deduped: number;
+  duplicates: DuplicateCounts;
+  capped: number;
+  topFiveIds: string[];
+  curatedIds: string[];
+}
+
+export interface RetentionStats {
+  mode: "delete" | "archive";
+  retentionDays: number;
+  cutoff: string; // ISO timestamp; articles published before this were candidates
+  candidates: number;
+  kept: {
+    saved: number;
+    liked: number;
+    feedback: number;
+    podcast: number; // referenced by a podcast's articleIds
+    curated: number; // still flagged top five or curated
+  };
+  removed: number;
+  removedBySource: Record<string, number>;
+  oldestRemoved: string | null;
+  newestRemoved: string | null;
+}
+
+// Summed ledger rows for one capability
+export interface AiUsageTotals {
+  capability: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  characters: number;
+  costUsd: number;
+}
+
+export interface AiCapabilityUsage extends AiUsageTotals {
+  provider: string; // as configured; "local" calls cost nothing and aren't recorded
+  budgetUsd: number;
+  remainingUsd: number;
+  circuit: "closed" | "open" | "half_open";
+  degraded: boolean; // budget spent or circuit open, so calls fall back to local
+}
+
+export interface AiUsageReport {
+  day: string; // YYYY-MM-DD, UTC; budgets reset at midnight UTC
+  totalCostUsd: number;
+  capabilities: AiCapabilityUsage[];
+}
+
+export type IngestionReport = typeof ingestionReports.$inferSelect;
+export type InsertIngestionReport = typeof ingestionReports.$inferInsert;
+export type ArchivedArticle = typeof archivedArticles.$inferSelect;
+export type AiAnalysis = typeof aiAnalysisCache.$inferSelect;
+export type InsertAiAnalysis = typeof aiAnalysisCache.$inferInsert;
+export type AiUsage = typeof aiUsageLedger.$inferSelect;
+export type InsertAiUsage = typeof aiUsageLedger.$inferInsert;
+
 // User types for Replit Auth
 export const upsertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -219,6 +708,50 @@ export const insertArticleFeedbackSchema = createInsertSchema(articleFeedback)
 export type ArticleFeedback = typeof articleFeedback.$inferSelect;
 export type InsertArticleFeedback = z.infer<typeof insertArticleFeedbackSchema>;
 
+// The key is derived from the name on the server
+export const insertUserEntityPreferenceSchema = createInsertSchema(userEntityPreferences)
+  .omit({
+    id: true,
+    userId: true,
+    key: true,
+    createdAt: true,
+  })
+  .extend({
+    type: z.enum(ENTITY_TYPES),
+    name: z.string().trim().min(1).max(200),
+    action: z.enum(ENTITY_ACTIONS),
+  });
+
+export type ArticleEntity = typeof articleEntities.$inferSelect;
+export type InsertArticleEntity = typeof articleEntities.$inferInsert;
+export type UserEntityPreference = typeof userEntityPreferences.$inferSelect;
+export type InsertUserEntityPreference = z.infer<typeof insertUserEntityPreferenceSchema>;
+
+export interface TrendingEntity {
+  type: EntityType;
+  key: string;
+  name: string; // the most recent spelling
+  articleCount: number;
+  sourceCount: number;
+  latestAt: Date; // newest mentioning article's publish time
+}
+
+export type Story = typeof stories.$inferSelect;
+export type InsertStory = typeof stories.$inferInsert;
+
+// What a feed card needs to say "also covered by N sources"
+export type StorySummary = Pick<Story, "id" | "headline" | "articleCount" | "sourceCount">;
+
+// A feed article and the story it leads, when it has one
+export type ArticleWithStory = Article & { story: StorySummary | null };
+
+// A story's coverage, oldest first
+export interface StoryTimeline {
+  story: Story;
+  articles: Article[];
+  hiddenCount: number; // members the user's filters leave out
+}
+
 // Feedback aggregates for personalization
 export interface UserFeedbackProfile {
   totalFeedback: number;
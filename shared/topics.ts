@@ -0,0 +1,150 @@
+/**
+ * Topic taxonomy shared by the classifier and the UI. Two levels: a root
+ * topic ("technology") and optional subtopics ("technology/ai"). Articles get
+ * a primary topic and up to MAX_SECONDARY_TOPICS secondary ones; a filter on
+ * a root topic also matches its subtopics.
+ */
+
+export interface TopicNode {
+  id: string;
+  label: string;
+  children?: TopicNode[];
+}
+
+export const MAX_SECONDARY_TOPICS = 2;
+
+export interface TopicAssignment {
+  primary: string; // topic id
+  secondary: string[];
+}
+
+// Articles nothing else fits, like the old "General" category
+export const GENERAL_TOPIC = "general";
+
+export const TOPIC_TAXONOMY: TopicNode[] = [
+  {
+    id: "technology",
+    label: "Technology",
+    children: [
+      { id: "technology/ai", label: "AI" },
+      { id: "technology/software", label: "Software & Development" },
+      { id: "technology/gadgets", label: "Gadgets & Hardware" },
+      { id: "technology/cybersecurity", label: "Cybersecurity" },
+      { id: "technology/internet", label: "Internet & Social Media" },
+    ],
+  },
+  {
+    id: "business",
+    label: "Business",
+    children: [
+      { id: "business/startups", label: "Startups" },
+      { id: "business/companies", label: "Companies & Industry" },
+      { id: "business/economy", label: "Economy" },
+    ],
+  },
+  {
+    id: "finance",
+    label: "Finance",
+    children: [
+      { id: "finance/markets", label: "Markets & Investing" },
+      { id: "finance/personal", label: "Personal Finance" },
+      { id: "finance/crypto", label: "Crypto" },
+    ],
+  },
+  {
+    id: "career",
+    label: "Career",
+    children: [
+      { id: "career/jobs", label: "Jobs & Hiring" },
+      { id: "career/remote-work", label: "Remote Work" },
+      { id: "career/skills", label: "Skills & Learning" },
+      { id: "career/leadership", label: "Leadership & Management" },
+    ],
+  },
+  {
+    id: "science",
+    label: "Science",
+    children: [
+      { id: "science/space", label: "Space" },
+      { id: "science/research", label: "Research & Discovery" },
+    ],
+  },
+  {
+    id: "environment",
+    label: "Environment",
+    children: [
+      { id: "environment/climate", label: "Climate" },
+      { id: "environment/energy", label: "Energy" },
+      { id: "environment/nature", label: "Nature & Conservation" },
+    ],
+  },
+  {
+    id: "health",
+    label: "Health",
+    children: [
+      { id: "health/medicine", label: "Medicine" },
+      { id: "health/wellness", label: "Fitness & Wellness" },
+      { id: "health/mental-health", label: "Mental Health" },
+    ],
+  },
+  {
+    id: "politics",
+    label: "Politics",
+    children: [
+      { id: "politics/elections", label: "Elections" },
+      { id: "politics/policy", label: "Policy & Law" },
+    ],
+  },
+  { id: "world", label: "World News" },
+  {
+    id: "entertainment",
+    label: "Entertainment",
+    children: [
+      { id: "entertainment/film-tv", label: "Film & TV" },
+      { id: "entertainment/music", label: "Music" },
+      { id: "entertainment/gaming", label: "Gaming" },
+    ],
+  },
+  { id: "sports", label: "Sports" },
+  {
+    id: "lifestyle",
+    label: "Lifestyle",
+    children: [
+      { id: "lifestyle/food", label: "Food" },
+      { id: "lifestyle/travel", label: "Travel" },
+      { id: "lifestyle/fashion", label: "Fashion" },
+    ],
+  },
+  { id: GENERAL_TOPIC, label: "General" },
+];
+
+const TOPICS_BY_ID = new Map<string, TopicNode>(
+  TOPIC_TAXONOMY.flatMap((root) => [root, ...(root.children ?? [])]).map((topic) => [topic.id, topic])
+);
+
+export const TOPIC_IDS: string[] = Array.from(TOPICS_BY_ID.keys());
+
+export function isTopicId(id: string): boolean {
+  return TOPICS_BY_ID.has(id);
+}
+
+export function getTopic(id: string): TopicNode | undefined {
+  return TOPICS_BY_ID.get(id);
+}
+
+export function rootTopicId(id: string): string {
+  return id.split("/")[0];
+}
+
+// "Technology > AI"
+export function topicPath(id: string): string {
+  const root = getTopic(rootTopicId(id));
+  const topic = getTopic(id);
+  if (!root || !topic) return id;
+  return root === topic ? root.label : `${root.label} > ${topic.label}`;
+}
+
+// Whether a topic is the filter topic or one of its subtopics
+export function topicMatches(id: string, filter: string): boolean {
+  return id === filter || id.startsWith(`${filter}/`);
+}